@@ -4,6 +4,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import ClvReport from "./pages/ClvReport";
+import Bets from "./pages/Bets";
+import Calibration from "./pages/Calibration";
+import Hold from "./pages/Hold";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +20,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/clv" element={<ClvReport />} />
+          <Route path="/bets" element={<Bets />} />
+          <Route path="/calibration" element={<Calibration />} />
+          <Route path="/hold" element={<Hold />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  calculateArbStakes,
+  DEFAULT_ARB_ROUNDING,
+  DEFAULT_ARB_TARGET_PAYOUT,
+  type ArbOpportunity,
+} from '@/lib/arbitrage';
+import { formatOdds, formatStake } from '@/lib/evCalculator';
+import { cn } from '@/lib/utils';
+
+const roundingOptions = [0.01, 1, 5, 10];
+
+interface Props {
+  data: ArbOpportunity[];
+  isLoading?: boolean;
+}
+
+export function ArbitrageTable({ data, isLoading }: Props) {
+  const [targetPayout, setTargetPayout] = useState(DEFAULT_ARB_TARGET_PAYOUT);
+  const [roundTo, setRoundTo] = useState(DEFAULT_ARB_ROUNDING);
+
+  const formatAmount = (amount: number) => {
+    const sign = amount < 0 ? '-' : '';
+    return roundTo < 1
+      ? `${sign}$${Math.abs(amount).toFixed(2)}`
+      : `${sign}${formatStake(Math.abs(amount))}`;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex flex-wrap items-center gap-3 border-b border-border px-4 py-2 md:px-6">
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Target payout ($)
+          <Input
+            type="number"
+            min={0}
+            value={targetPayout}
+            onChange={(e) => setTargetPayout(Math.max(0, Number(e.target.value) || 0))}
+            className="h-8 w-28"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Round stakes to
+          <Select value={String(roundTo)} onValueChange={(v) => setRoundTo(Number(v))}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {roundingOptions.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option < 1 ? 'Cents' : `$${option}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+
+      {isLoading ? (
+        <p className="py-16 text-center text-sm text-muted-foreground">Scanning for arbs...</p>
+      ) : data.length === 0 ? (
+        <p className="py-16 text-center text-sm text-muted-foreground">
+          No arbitrage opportunities in the current odds
+        </p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border text-xs text-muted-foreground">
+              <th className="px-4 py-3 text-left">Player</th>
+              <th className="px-3 py-3 text-left">Stat</th>
+              <th className="px-3 py-3 text-right">Line</th>
+              <th className="px-3 py-3 text-left">Over</th>
+              <th className="px-3 py-3 text-left">Under</th>
+              <th className="px-3 py-3 text-right">Arb %</th>
+              <th className="px-3 py-3 text-right">Stakes</th>
+              <th className="px-3 py-3 text-right">Profit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map((arb) => {
+              const plan = calculateArbStakes(
+                [arb.over.odds, arb.under.odds],
+                targetPayout,
+                roundTo
+              );
+
+              return (
+                <tr key={arb.id} className="border-b border-border">
+                  <td className="px-4 py-3">
+                    <span className="font-medium">{arb.player_name}</span>
+                    <Badge variant="secondary" className="ml-2 text-[10px]">{arb.sport}</Badge>
+                    {arb.opponent && (
+                      <span className="ml-2 text-xs text-muted-foreground">{arb.opponent}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-3 text-sm">{arb.stat_type}</td>
+                  <td className="px-3 py-3 text-right font-mono text-sm">{arb.line}</td>
+                  <td className="px-3 py-3 text-sm">
+                    {arb.over.sportsbook}{' '}
+                    <span className="font-mono">{formatOdds(arb.over.odds)}</span>
+                  </td>
+                  <td className="px-3 py-3 text-sm">
+                    {arb.under.sportsbook}{' '}
+                    <span className="font-mono">{formatOdds(arb.under.odds)}</span>
+                  </td>
+                  <td className="px-3 py-3 text-right font-mono text-sm font-semibold text-ev-positive">
+                    +{arb.profitPct.toFixed(2)}%
+                  </td>
+                  <td className="px-3 py-3 text-right font-mono text-sm">
+                    {formatAmount(plan.stakes[0])} / {formatAmount(plan.stakes[1])}
+                  </td>
+                  <td
+                    className={cn(
+                      'px-3 py-3 text-right font-mono text-sm',
+                      plan.guaranteedProfit >= 0 ? 'text-ev-positive' : 'text-ev-negative'
+                    )}
+                  >
+                    {formatAmount(plan.guaranteedProfit)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
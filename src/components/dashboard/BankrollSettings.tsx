@@ -0,0 +1,98 @@
+import { Wallet } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatStake, type BankrollSettings as Settings } from '@/lib/evCalculator';
+
+const kellyFractions = [
+  { value: 1, label: 'Full Kelly' },
+  { value: 0.5, label: 'Half Kelly' },
+  { value: 0.25, label: 'Quarter Kelly' },
+  { value: 0.1, label: 'Tenth Kelly' },
+];
+
+interface Props {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+export function BankrollSettings({ settings, onChange }: Props) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1.5 rounded-full bg-secondary px-3 py-1 text-xs font-medium text-foreground hover:bg-secondary/80"
+          title="Bankroll settings"
+        >
+          <Wallet className="h-3.5 w-3.5" />
+          <span className="font-mono">{formatStake(settings.bankroll)}</span>
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="bankroll" className="text-xs">Bankroll ($)</Label>
+          <Input
+            id="bankroll"
+            type="number"
+            min={0}
+            value={settings.bankroll}
+            onChange={(e) =>
+              onChange({ ...settings, bankroll: Math.max(0, Number(e.target.value) || 0) })
+            }
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Kelly Fraction</Label>
+          <Select
+            value={String(settings.kellyFraction)}
+            onValueChange={(v) => onChange({ ...settings, kellyFraction: Number(v) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {kellyFractions.map((k) => (
+                <SelectItem key={k.value} value={String(k.value)}>{k.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="max-stake" className="text-xs">Max Stake (% of bankroll)</Label>
+          <Input
+            id="max-stake"
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={settings.maxStakePercent}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                maxStakePercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)),
+              })
+            }
+          />
+        </div>
+
+        <p className="text-[11px] text-muted-foreground">
+          Stakes are scaled down further on low-confidence props.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,50 @@
+import { formatProbability } from '@/lib/evCalculator';
+import { formatCents, formatClvPct, type ClvAggregate } from '@/lib/clv';
+import { cn } from '@/lib/utils';
+
+interface Props {
+  label: string;
+  aggregates: ClvAggregate[];
+}
+
+export function ClvAggregateTable({ label, aggregates }: Props) {
+  if (aggregates.length === 0) {
+    return <p className="text-xs text-muted-foreground">No closed opportunities yet.</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border bg-secondary/30 text-xs text-muted-foreground">
+            <th className="px-3 py-2 text-left">{label}</th>
+            <th className="px-3 py-2 text-right">Count</th>
+            <th className="px-3 py-2 text-right">Avg Cents</th>
+            <th className="px-3 py-2 text-right">Avg No-Vig CLV</th>
+            <th className="px-3 py-2 text-right">Beat Close</th>
+          </tr>
+        </thead>
+        <tbody>
+          {aggregates.map((row) => (
+            <tr key={row.key} className="border-b border-border last:border-0">
+              <td className="px-3 py-2 font-medium">{row.key}</td>
+              <td className="px-3 py-2 text-right font-mono">{row.count}</td>
+              <td className="px-3 py-2 text-right font-mono">{formatCents(row.avgCents)}</td>
+              <td
+                className={cn(
+                  'px-3 py-2 text-right font-mono',
+                  row.avgProbabilityClv > 0 ? 'text-ev-positive' : 'text-ev-negative'
+                )}
+              >
+                {formatClvPct(row.avgProbabilityClv)}
+              </td>
+              <td className="px-3 py-2 text-right font-mono">
+                {formatProbability(row.beatCloseRate)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
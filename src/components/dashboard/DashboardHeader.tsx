@@ -1,108 +1,110 @@
-import { useState, useEffect } from 'react';
-import { TrendingUp, Zap, RefreshCw } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { TrendingUp, Zap, RefreshCw, ChevronDown } from 'lucide-react';
 import { useQueryClient } from '@tanstack/react-query';
-import { supabase } from "@/lib/supabaseClient";
-import { fetchOdds } from '@/pages/api/fetch-odds';
+import { NavLink } from 'react-router-dom';
+import { BankrollSettings } from '@/components/dashboard/BankrollSettings';
+import { IngestionReport } from '@/components/dashboard/IngestionReport';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLatestIngestionRun } from '@/hooks/useIngestionRun';
+import { getEnabledSports } from '@/lib/sportsConfig';
+import { ingestionService } from '@/services/ingestionService';
+import type { BankrollSettings as Settings } from '@/lib/evCalculator';
+import type { IngestionRun, Sport } from '@/types';
+
+const NAV_LINKS = [
+  { to: '/', label: 'Scanner' },
+  { to: '/clv', label: 'CLV' },
+  { to: '/bets', label: 'Bets' },
+  { to: '/calibration', label: 'Calibration' },
+  { to: '/hold', label: 'Hold' },
+];
+
+// Queries keyed by sport at index 1, where 'All' covers every sport
+const SPORT_QUERIES = ['ev-calculations', 'current-markets', 'middles', 'arbitrages'];
+
+function showsSport(queryKey: readonly unknown[], sport: Sport): boolean {
+  const [name, scope] = queryKey;
+  return (
+    SPORT_QUERIES.includes(name as string) &&
+    (scope === sport || scope === 'All' || scope === undefined)
+  );
+}
 
-const CACHE_WINDOW_MINUTES = 30;
+interface Props {
+  bankrollSettings?: Settings;
+  onBankrollSettingsChange?: (settings: Settings) => void;
+}
 
-export function DashboardHeader() {
+export function DashboardHeader({ bankrollSettings, onBankrollSettingsChange }: Props = {}) {
   const queryClient = useQueryClient();
+  const { data: latestRun } = useLatestIngestionRun();
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [minutesUntilRefresh, setMinutesUntilRefresh] = useState<number | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('');
-  const [creditsRemaining, setCreditsRemaining] = useState<string | null>(null);
+  const [, setNow] = useState(Date.now());
 
+  // Keep "Updated N min ago" current between ingestion runs
   useEffect(() => {
-    checkLastFetch();
-  }, []);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (lastUpdated) {
-        const minutesAgo = Math.round(
-          (Date.now() - lastUpdated.getTime()) / (1000 * 60)
-        );
-
-        setMinutesUntilRefresh(
-          minutesAgo >= CACHE_WINDOW_MINUTES
-            ? 0
-            : CACHE_WINDOW_MINUTES - minutesAgo
-        );
-      }
-    }, 60000);
-
+    const interval = setInterval(() => setNow(Date.now()), 60000);
     return () => clearInterval(interval);
-  }, [lastUpdated]);
-
-  async function checkLastFetch() {
-    const { data } = await supabase
-      .from('odds_snapshots')
-      .select('created_at')
-      .eq('sport', 'NBA')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (data) {
-      const lastFetch = new Date(data.created_at);
-      setLastUpdated(lastFetch);
-
-      const minutesAgo = Math.round(
-        (Date.now() - lastFetch.getTime()) / (1000 * 60)
-      );
-
-      setMinutesUntilRefresh(
-        minutesAgo < CACHE_WINDOW_MINUTES
-          ? CACHE_WINDOW_MINUTES - minutesAgo
-          : 0
-      );
-    }
-  }
+  }, []);
 
-  async function handleRefresh() {
-    if (minutesUntilRefresh && minutesUntilRefresh > 0) {
-      setStatusMessage(`Using cached odds (${minutesUntilRefresh}m remaining)`);
-      
-      // 🔥 IMPORTANT: still refresh EV calculations
-      queryClient.invalidateQueries({ queryKey: ['ev-calculations'] });
+  const previousStatus = useRef<IngestionRun['status']>();
 
-      setTimeout(() => setStatusMessage(''), 3000);
-      return;
+  // Pick up the new odds as soon as a worker run finishes
+  useEffect(() => {
+    if (previousStatus.current === 'running' && latestRun?.status === 'finished') {
+      queryClient.invalidateQueries({
+        predicate: (query) => SPORT_QUERIES.includes(query.queryKey[0] as string),
+      });
     }
-
+    previousStatus.current = latestRun?.status;
+  }, [latestRun?.status, queryClient]);
+
+  const isIngesting = latestRun?.status === 'running';
+  const lastUpdated = latestRun?.finished_at ? new Date(latestRun.finished_at) : null;
+  const creditsRemaining = latestRun?.credits_remaining ?? null;
+
+  /**
+   * Odds are written by the ingestion worker; refreshing only re-reads
+   * what it has stored, for one sport or all of them
+   */
+  async function handleRefresh(sport?: Sport) {
     setIsRefreshing(true);
-    setStatusMessage('Fetching latest NBA odds...');
 
     try {
-      const result = await fetchOdds();
-
-      if (result.success) {
-        setLastUpdated(new Date());
-
-        // 🔥 ALWAYS recalc EV
-        queryClient.invalidateQueries({ queryKey: ['ev-calculations'] });
-
-        if (result.cached) {
-          setStatusMessage(result.message);
-        } else {
-          setCreditsRemaining(result.creditsRemaining ?? null);
-          setStatusMessage(
-            `Updated! ${result.propsStored ?? 0} props from ${result.gamesProcessed ?? 0} games`
-          );
-        }
+      await ingestionService.reload();
+
+      if (sport) {
+        await queryClient.invalidateQueries({
+          predicate: (query) => showsSport(query.queryKey, sport),
+        });
+
+        const sportError = latestRun?.sports.find((result) => result.sport === sport)?.error;
+        setStatusMessage(
+          sportError ? `Last ${sport} run: ${sportError}` : `Reloaded latest ${sport} odds`
+        );
       } else {
-        setStatusMessage(`Error: ${result.error}`);
+        await queryClient.invalidateQueries();
+        setStatusMessage(
+          latestRun?.error ? `Last run: ${latestRun.error}` : 'Reloaded latest odds'
+        );
       }
     } catch (error) {
-      setStatusMessage('Failed to fetch odds.');
+      setStatusMessage('Failed to reload odds.');
     } finally {
       setIsRefreshing(false);
       setTimeout(() => setStatusMessage(''), 4000);
     }
   }
 
+  const enabledSports = getEnabledSports();
+
   function formatLastUpdated(): string {
     if (!lastUpdated) return 'Never';
 
@@ -116,8 +118,6 @@ export function DashboardHeader() {
     return `${Math.round(minutesAgo / 60)}h ago`;
   }
 
-  const canRefresh = !minutesUntilRefresh || minutesUntilRefresh <= 0;
-
   return (
     <header className="border-b border-border bg-card px-4 py-4 md:px-6">
       <div className="flex items-center justify-between">
@@ -134,6 +134,25 @@ export function DashboardHeader() {
               Player Prop +EV Scanner
             </p>
           </div>
+
+          <nav className="ml-4 hidden items-center gap-1 md:flex">
+            {NAV_LINKS.map((link) => (
+              <NavLink
+                key={link.to}
+                to={link.to}
+                end
+                className={({ isActive }) =>
+                  `rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                    isActive
+                      ? 'bg-secondary text-foreground'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`
+                }
+              >
+                {link.label}
+              </NavLink>
+            ))}
+          </nav>
         </div>
 
         <div className="flex items-center gap-3">
@@ -144,46 +163,79 @@ export function DashboardHeader() {
             </span>
           )}
 
-          {lastUpdated && !statusMessage && (
+          {isIngesting && !statusMessage && (
+            <span className="hidden items-center gap-1.5 text-xs text-muted-foreground sm:flex">
+              <RefreshCw className="h-3 w-3 animate-spin" />
+              {latestRun.events_completed}/{latestRun.events_total} games
+            </span>
+          )}
+
+          {lastUpdated && !isIngesting && !statusMessage && (
             <span className="hidden text-xs text-muted-foreground sm:block">
               Updated {formatLastUpdated()}
             </span>
           )}
 
-          {creditsRemaining && !statusMessage && (
+          {creditsRemaining !== null && !statusMessage && (
             <span className="hidden text-xs text-muted-foreground sm:block">
               {creditsRemaining} credits left
             </span>
           )}
 
-          <button
-            onClick={handleRefresh}
-            disabled={isRefreshing}
-            title={
-              canRefresh
-                ? 'Refresh NBA odds'
-                : `Next refresh in ${minutesUntilRefresh} min`
-            }
-            className={`
-              flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium
-              transition-all duration-200
-              ${canRefresh && !isRefreshing
-                ? 'bg-primary/10 text-primary hover:bg-primary/20 cursor-pointer'
-                : 'bg-muted text-muted-foreground cursor-not-allowed opacity-60'
-              }
-            `}
-          >
-            <RefreshCw
-              className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`}
+          {latestRun && !isIngesting && <IngestionReport run={latestRun} />}
+
+          <div className="flex items-center">
+            <button
+              onClick={() => handleRefresh()}
+              disabled={isRefreshing}
+              title="Reload the latest stored odds for every sport"
+              className={`
+                flex items-center gap-1.5 rounded-l-full px-3 py-1 text-xs font-medium
+                transition-all duration-200
+                ${!isRefreshing
+                  ? 'bg-primary/10 text-primary hover:bg-primary/20 cursor-pointer'
+                  : 'bg-muted text-muted-foreground cursor-not-allowed opacity-60'
+                }
+              `}
+            >
+              <RefreshCw
+                className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`}
+              />
+              <span>{isRefreshing ? 'Reloading...' : 'Refresh Odds'}</span>
+            </button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                disabled={isRefreshing}
+                title="Refresh one sport"
+                className="flex items-center rounded-r-full border-l border-primary/20 bg-primary/10 px-1.5 py-1 text-primary hover:bg-primary/20 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <ChevronDown className="h-3.5 w-3.5" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleRefresh()}>
+                  All sports
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {enabledSports.map((config) => (
+                  <DropdownMenuItem
+                    key={config.sport}
+                    onSelect={() => handleRefresh(config.sport)}
+                    title={`Fetch new ${config.sport} odds with npm run ingest -- --sport ${config.sport}`}
+                  >
+                    {config.sport}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          {bankrollSettings && onBankrollSettingsChange && (
+            <BankrollSettings
+              settings={bankrollSettings}
+              onChange={onBankrollSettingsChange}
             />
-            <span>
-              {isRefreshing
-                ? 'Fetching...'
-                : canRefresh
-                ? 'Refresh Odds'
-                : `${minutesUntilRefresh}m`}
-            </span>
-          </button>
+          )}
 
           <div className="flex items-center gap-1.5 rounded-full bg-primary/10 px-3 py-1">
             <Zap className="h-3.5 w-3.5 text-primary" />
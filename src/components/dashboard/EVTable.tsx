@@ -1,20 +1,48 @@
-import { ArrowUpDown, Plus, ChevronUp, ChevronDown } from 'lucide-react';
+import { ArrowUpDown, Plus, ChevronUp, ChevronDown, AlertTriangle, Receipt } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { formatProbability, formatEV, formatOdds } from '@/lib/evCalculator';
-import type { EVCalculation, DashboardFilters } from '@/types';
+import {
+  formatProbability,
+  formatEV,
+  formatOdds,
+  formatStake,
+  calculateKellyStake,
+  convertAmericanToDecimal,
+  type BankrollSettings,
+} from '@/lib/evCalculator';
+import type { BestPriceCalculation, EVCalculation, DashboardFilters } from '@/types';
 import { cn } from '@/lib/utils';
 
+function isBestPrice(ev: EVCalculation): ev is BestPriceCalculation {
+  return Array.isArray((ev as BestPriceCalculation).alternatives);
+}
+
+function describeAlternatives(ev: BestPriceCalculation): string {
+  return ev.alternatives
+    .map((alt) => `${alt.sportsbook.name} ${alt.line} ${formatOdds(alt.odds)} (${formatEV(alt.ev_pct)})`)
+    .join('\n');
+}
+
 interface EVTableProps {
   data: EVCalculation[];
   filters: DashboardFilters;
   onSort: (key: DashboardFilters['sortBy']) => void;
   onSelectPlayer: (ev: EVCalculation) => void;
   onAddToParlay: (ev: EVCalculation) => void;
+  onLogBet: (ev: EVCalculation) => void;
   parlayIds: Set<string>;
+  bankrollSettings: BankrollSettings;
 }
 
-export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay, parlayIds }: EVTableProps) {
+export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay, onLogBet, parlayIds, bankrollSettings }: EVTableProps) {
+  const suggestedStake = (ev: EVCalculation) =>
+    calculateKellyStake(
+      ev.true_prob,
+      convertAmericanToDecimal(ev.best_odds),
+      bankrollSettings,
+      ev.confidence_score / 100
+    );
+
   const SortIcon = ({ col }: { col: DashboardFilters['sortBy'] }) => {
     if (filters.sortBy !== col) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-40" />;
     return filters.sortDir === 'asc'
@@ -45,16 +73,20 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
             <th className="px-3 py-3 text-right">Line</th>
             <th className="px-3 py-3 text-right">Odds</th>
             <th className="px-3 py-3 text-right">Implied</th>
+            <th className="px-3 py-3 text-right">Push</th>
             <th className="px-3 py-3 text-right"><SortButton col="market_consensus_prob" className="justify-end">Consensus</SortButton></th>
             <th className="px-3 py-3 text-right"><SortButton col="ev_pct" className="justify-end">EV%</SortButton></th>
             <th className="px-3 py-3 text-right"><SortButton col="confidence_score" className="justify-end">Conf.</SortButton></th>
+            <th className="px-3 py-3 text-right">Stake</th>
             <th className="px-3 py-3 text-center">Parlay</th>
+            <th className="px-3 py-3 text-center">Log</th>
           </tr>
         </thead>
         <tbody>
           {data.map((ev) => {
             const isPositive = ev.ev_pct > 0;
             const inParlay = parlayIds.has(ev.id);
+            const stake = suggestedStake(ev);
             return (
               <tr
                 key={ev.id}
@@ -74,7 +106,17 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
                   <Badge variant="secondary" className="text-[10px]">{ev.player_prop.player.sport}</Badge>
                 </td>
                 <td className="px-3 py-3 text-sm">{ev.player_prop.stat_type}</td>
-                <td className="px-3 py-3 text-sm">{ev.best_sportsbook.name}</td>
+                <td className="px-3 py-3 text-sm">
+                  {ev.best_sportsbook.name}
+                  {isBestPrice(ev) && ev.alternatives.length > 0 && (
+                    <span
+                      className="ml-1.5 text-xs text-muted-foreground"
+                      title={describeAlternatives(ev)}
+                    >
+                      +{ev.alternatives.length}
+                    </span>
+                  )}
+                </td>
                 <td className="px-3 py-3 text-right font-mono text-sm">
                   {ev.direction} {ev.best_line}
                 </td>
@@ -82,6 +124,9 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
                 <td className="px-3 py-3 text-right font-mono text-sm text-muted-foreground">
                   {formatProbability(ev.implied_prob || ev.true_prob)}
                 </td>
+                <td className="px-3 py-3 text-right font-mono text-sm text-muted-foreground">
+                  {ev.push_prob > 0 ? formatProbability(ev.push_prob) : '—'}
+                </td>
                 <td className="px-3 py-3 text-right font-mono text-sm">
                   {formatProbability(ev.market_consensus_prob)}
                 </td>
@@ -93,6 +138,11 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
                 </td>
                 <td className="px-3 py-3 text-right">
                   <div className="flex items-center justify-end gap-1.5">
+                    {ev.thin_consensus && (
+                      <span title={`Consensus built from ${ev.consensus_sample_size} book${ev.consensus_sample_size === 1 ? '' : 's'}`}>
+                        <AlertTriangle className="h-3 w-3 text-ev-neutral" />
+                      </span>
+                    )}
                     <div className="h-1.5 w-12 overflow-hidden rounded-full bg-secondary">
                       <div
                         className="h-full rounded-full bg-primary transition-all"
@@ -102,6 +152,9 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
                     <span className="text-xs font-mono w-7 text-right">{ev.confidence_score}</span>
                   </div>
                 </td>
+                <td className="px-3 py-3 text-right font-mono text-sm">
+                  {stake > 0 ? formatStake(stake) : '—'}
+                </td>
                 <td className="px-3 py-3 text-center">
                   <Button
                     size="sm"
@@ -112,6 +165,17 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
                     <Plus className={cn("h-3.5 w-3.5", inParlay && "rotate-45")} />
                   </Button>
                 </td>
+                <td className="px-3 py-3 text-center">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 w-7 p-0"
+                    title="I placed this"
+                    onClick={(e) => { e.stopPropagation(); onLogBet(ev); }}
+                  >
+                    <Receipt className="h-3.5 w-3.5" />
+                  </Button>
+                </td>
               </tr>
             );
           })}
@@ -123,6 +187,7 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
         {data.map((ev) => {
           const isPositive = ev.ev_pct > 0;
           const inParlay = parlayIds.has(ev.id);
+          const stake = suggestedStake(ev);
           return (
             <div
               key={ev.id}
@@ -153,16 +218,36 @@ export function EVTable({ data, filters, onSort, onSelectPlayer, onAddToParlay,
                 <div className="flex gap-3 text-muted-foreground">
                   <span>{ev.direction} {ev.best_line}</span>
                   <span className="font-mono">{formatOdds(ev.best_odds)}</span>
-                  <span>{ev.best_sportsbook.name}</span>
+                  <span>
+                    {ev.best_sportsbook.name}
+                    {isBestPrice(ev) && ev.alternatives.length > 0 && ` +${ev.alternatives.length}`}
+                  </span>
+                  {stake > 0 && (
+                    <span className="font-mono">Bet {formatStake(stake)}</span>
+                  )}
+                  {ev.push_prob > 0 && (
+                    <span className="font-mono">Push {formatProbability(ev.push_prob)}</span>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 w-6 p-0"
+                    title="I placed this"
+                    onClick={(e) => { e.stopPropagation(); onLogBet(ev); }}
+                  >
+                    <Receipt className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={inParlay ? "default" : "outline"}
+                    className="h-6 w-6 p-0"
+                    onClick={(e) => { e.stopPropagation(); onAddToParlay(ev); }}
+                  >
+                    <Plus className={cn("h-3 w-3", inParlay && "rotate-45")} />
+                  </Button>
                 </div>
-                <Button
-                  size="sm"
-                  variant={inParlay ? "default" : "outline"}
-                  className="h-6 w-6 p-0"
-                  onClick={(e) => { e.stopPropagation(); onAddToParlay(ev); }}
-                >
-                  <Plus className={cn("h-3 w-3", inParlay && "rotate-45")} />
-                </Button>
               </div>
             </div>
           );
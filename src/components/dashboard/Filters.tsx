@@ -8,6 +8,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { DEVIG_METHOD_LABELS, type DevigMethod } from '@/lib/evCalculator';
+import { CONSENSUS_WEIGHTINGS, type ConsensusWeighting } from '@/lib/bookWeights';
 import type { DashboardFilters, Sport, StatType } from '@/types';
 
 const sports: Array<Sport | 'All'> = ['All', 'NBA', 'NFL', 'MLB', 'NHL', 'WNBA'];
@@ -15,6 +18,8 @@ const statTypes: Array<StatType | 'All'> = [
   'All', 'Points', 'Rebounds', 'Assists', 'Steals', 'Blocks', '3-Pointers', 'PRA',
   'Passing Yards', 'Rushing Yards', 'Touchdowns', 'Strikeouts', 'Hits', 'Goals', 'Saves',
 ];
+const devigMethods = Object.keys(DEVIG_METHOD_LABELS) as DevigMethod[];
+const consensusWeightings = Object.keys(CONSENSUS_WEIGHTINGS) as ConsensusWeighting[];
 
 interface FiltersProps {
   filters: DashboardFilters;
@@ -66,6 +71,78 @@ export function Filters({ filters, onChange }: FiltersProps) {
           </SelectContent>
         </Select>
 
+        {/* Devig Method */}
+        <Select
+          value={filters.devigMethod}
+          onValueChange={(v) => onChange({ ...filters, devigMethod: v as DevigMethod })}
+        >
+          <SelectTrigger className="w-full md:w-40 bg-secondary/50">
+            <SelectValue placeholder="Devig Method" />
+          </SelectTrigger>
+          <SelectContent>
+            {devigMethods.map((m) => (
+              <SelectItem key={m} value={m}>{DEVIG_METHOD_LABELS[m]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Consensus Weighting */}
+        <Select
+          value={filters.consensusWeighting}
+          onValueChange={(v) => onChange({ ...filters, consensusWeighting: v as ConsensusWeighting })}
+        >
+          <SelectTrigger className="w-full md:w-40 bg-secondary/50">
+            <SelectValue placeholder="Consensus" />
+          </SelectTrigger>
+          <SelectContent>
+            {consensusWeightings.map((w) => (
+              <SelectItem key={w} value={w}>{CONSENSUS_WEIGHTINGS[w].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Leave-One-Out */}
+        <label className="flex items-center gap-2 md:ml-2">
+          <Switch
+            checked={filters.leaveOneOut}
+            onCheckedChange={(v) => onChange({ ...filters, leaveOneOut: v })}
+          />
+          <span
+            className="whitespace-nowrap text-xs text-muted-foreground"
+            title="Price each book against a consensus that excludes that book"
+          >
+            Exclude book
+          </span>
+        </label>
+
+        {/* Line Shopping */}
+        <label className="flex items-center gap-2">
+          <Switch
+            checked={filters.lineShopping}
+            onCheckedChange={(v) => onChange({ ...filters, lineShopping: v })}
+          />
+          <span
+            className="whitespace-nowrap text-xs text-muted-foreground"
+            title="Collapse each prop into its best Over and best Under price"
+          >
+            Best price
+          </span>
+        </label>
+
+        {/* Empirical Confidence */}
+        <label className="flex items-center gap-2">
+          <Switch
+            checked={filters.empiricalConfidence}
+            onCheckedChange={(v) => onChange({ ...filters, empiricalConfidence: v })}
+          />
+          <span
+            className="whitespace-nowrap text-xs text-muted-foreground"
+            title="Derive confidence from graded results instead of the book-count heuristic"
+          >
+            Calibrated conf.
+          </span>
+        </label>
+
         {/* Min EV */}
         <div className="flex items-center gap-2 md:ml-2">
           <span className="whitespace-nowrap text-xs text-muted-foreground">
@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  CartesianGrid,
+} from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { usePlayerGameLogs } from '@/hooks/usePlayerGameLogs';
+import { formatProbability } from '@/lib/evCalculator';
+import { calculateHitRateSplits, sortGameLogs, type HitRate } from '@/lib/hitRates';
+import type { EVCalculation } from '@/types';
+
+const GAME_COUNTS = [5, 10, 20];
+
+interface Props {
+  ev: EVCalculation;
+}
+
+function HitRateStat({ label, hitRate }: { label: string; hitRate: HitRate | null }) {
+  return (
+    <div className="rounded-lg border border-border p-2 text-center">
+      <p className="text-[10px] text-muted-foreground">{label}</p>
+      <p className="font-mono text-sm font-bold">
+        {hitRate?.rate != null ? formatProbability(hitRate.rate) : '—'}
+      </p>
+      <p className="text-[10px] text-muted-foreground">
+        {hitRate ? `${hitRate.hits}/${hitRate.games - hitRate.pushes}` : 'n/a'}
+      </p>
+    </div>
+  );
+}
+
+export function GameLogPanel({ ev }: Props) {
+  const [gameCount, setGameCount] = useState(10);
+
+  const { data: logs = [], isLoading } = usePlayerGameLogs(
+    ev.player_prop.player_id,
+    ev.player_prop.stat_type
+  );
+
+  const line = ev.best_line;
+
+  const splits = useMemo(
+    () => calculateHitRateSplits(logs, line, ev.direction, ev.player_prop.opponent),
+    [logs, line, ev.direction, ev.player_prop.opponent]
+  );
+
+  const recentGames = useMemo(
+    () => sortGameLogs(logs).slice(0, gameCount).reverse(),
+    [logs, gameCount]
+  );
+
+  return (
+    <div>
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        {GAME_COUNTS.map((count) => (
+          <Badge
+            key={count}
+            variant={count === gameCount ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => setGameCount(count)}
+          >
+            L{count}
+          </Badge>
+        ))}
+
+        {/* Box scores are imported and graded by the worker */}
+        <span className="ml-auto text-xs text-muted-foreground">
+          Import box scores with <code>npm run ingest -- --results FILE</code>
+        </span>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading game logs...</p>
+      ) : logs.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No game logs for {ev.player_prop.player.name} ({ev.player_prop.stat_type}) yet.
+        </p>
+      ) : (
+        <>
+          <div className="h-48 w-full rounded-lg border border-border p-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={recentGames}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="game_date"
+                  tick={{ fontSize: 10 }}
+                  tickFormatter={(v) => v.slice(5)}
+                />
+                <YAxis tick={{ fontSize: 10 }} />
+                <Tooltip
+                  labelFormatter={(v, payload) => {
+                    const game = payload?.[0]?.payload;
+                    return game
+                      ? `${v} ${game.is_home ? 'vs' : '@'} ${game.opponent}`
+                      : v;
+                  }}
+                />
+                <ReferenceLine y={line} strokeDasharray="4 4" />
+                <Bar dataKey="value">
+                  {recentGames.map((game) => {
+                    const hit = ev.direction === 'Over' ? game.value > line : game.value < line;
+                    return (
+                      <Cell
+                        key={game.game_date}
+                        fill={
+                          game.value === line
+                            ? 'hsl(var(--muted-foreground))'
+                            : hit
+                            ? 'hsl(var(--ev-positive))'
+                            : 'hsl(var(--ev-negative))'
+                        }
+                      />
+                    );
+                  })}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-2 grid grid-cols-3 gap-2 sm:grid-cols-6">
+            <HitRateStat label="L5" hitRate={splits.l5} />
+            <HitRateStat label="L10" hitRate={splits.l10} />
+            <HitRateStat label="Season" hitRate={splits.season} />
+            <HitRateStat label="Home" hitRate={splits.home} />
+            <HitRateStat label="Away" hitRate={splits.away} />
+            <HitRateStat label="vs Opp" hitRate={splits.vsOpponent} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { AlertTriangle, CheckCircle2, Activity } from 'lucide-react';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import type { EventIngestionStatus, IngestionRun } from '@/types';
+
+const STATUS_CLASSES: Record<EventIngestionStatus, string> = {
+  stored: 'text-primary',
+  empty: 'text-muted-foreground',
+  failed: 'text-destructive',
+  skipped: 'text-muted-foreground',
+};
+
+interface Props {
+  run: IngestionRun;
+}
+
+export function IngestionReport({ run }: Props) {
+  const hasProblems = run.events_failed > 0 || Boolean(run.error);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium ${
+            hasProblems
+              ? 'bg-destructive/10 text-destructive hover:bg-destructive/20'
+              : 'bg-secondary text-foreground hover:bg-secondary/80'
+          }`}
+          title="Last ingestion run"
+        >
+          {hasProblems ? (
+            <AlertTriangle className="h-3.5 w-3.5" />
+          ) : (
+            <Activity className="h-3.5 w-3.5" />
+          )}
+          <span>
+            {run.props_stored} props
+            {run.events_failed > 0 && ` · ${run.events_failed} failed`}
+          </span>
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-96 space-y-3">
+        <div className="space-y-0.5">
+          <p className="text-sm font-semibold">Last ingestion run</p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(run.finished_at).toLocaleString()} · {run.games_processed} games ·{' '}
+            {run.credits_spent} of ~{run.credits_estimated} credits
+          </p>
+          {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+        </div>
+
+        <div className="max-h-80 space-y-3 overflow-y-auto">
+          {run.sports.map((sport) => (
+            <div key={sport.sport} className="space-y-1">
+              <div className="flex items-center justify-between text-xs font-medium">
+                <span>{sport.sport}</span>
+                <span className="text-muted-foreground">
+                  {sport.cached
+                    ? 'cached'
+                    : sport.error ?? `${sport.propsStored} props stored`}
+                </span>
+              </div>
+
+              {(sport.events ?? []).map((event) => (
+                <div
+                  key={event.event_id}
+                  className="rounded-md border border-border px-2 py-1.5 text-xs"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate">{event.matchup ?? event.event_id}</span>
+                    <span className={`flex items-center gap-1 ${STATUS_CLASSES[event.status]}`}>
+                      {event.status === 'stored' && <CheckCircle2 className="h-3 w-3" />}
+                      {event.status}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {event.props_stored} changed · {event.props_confirmed ?? 0} unchanged of{' '}
+                    {event.props_parsed}
+                    {event.attempts > 1 && ` · ${event.attempts} attempts`}
+                    {(event.store_retries ?? 0) > 0 && ` · ${event.store_retries} store retries`}
+                    {event.rejections.length > 0 && ` · ${event.rejections.length} rejected`}
+                  </div>
+                  {event.error && <div className="text-destructive">{event.error}</div>}
+                  {event.rejections.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                      {event.rejections.slice(0, 3).map((rejection, i) => (
+                        <li key={i} className="truncate">
+                          {rejection.sportsbook} {rejection.market}
+                          {rejection.player_name && ` · ${rejection.player_name}`}: {rejection.reason}
+                        </li>
+                      ))}
+                      {event.rejections.length > 3 && (
+                        <li>+{event.rejections.length - 3} more</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ReferenceDot,
+  CartesianGrid,
+} from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { useOddsHistory } from '@/hooks/useOddsHistory';
+import { formatOdds, formatProbability } from '@/lib/evCalculator';
+import { buildLineMovement, type MovementMetric } from '@/lib/lineMovement';
+import type { EVCalculation } from '@/types';
+import { cn } from '@/lib/utils';
+
+const SERIES_COLORS = [
+  'hsl(142 70% 45%)',
+  'hsl(217 91% 60%)',
+  'hsl(38 92% 50%)',
+  'hsl(280 65% 60%)',
+  'hsl(0 72% 51%)',
+  'hsl(180 60% 45%)',
+  'hsl(330 80% 60%)',
+];
+
+interface Props {
+  ev: EVCalculation;
+}
+
+export function LineMovementChart({ ev }: Props) {
+  const [metric, setMetric] = useState<MovementMetric>('line');
+
+  const { data: history = [], isLoading } = useOddsHistory(
+    ev.player_prop.player_id,
+    ev.player_prop.stat_type,
+    ev.player_prop.game_date
+  );
+
+  const movement = useMemo(() => buildLineMovement(history), [history]);
+
+  const formatValue = (value: number) =>
+    metric === 'line' ? String(value) : formatProbability(value);
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading line history...</p>;
+  }
+
+  if (movement.books.length === 0) {
+    return <p className="text-xs text-muted-foreground">No snapshot history for this prop yet.</p>;
+  }
+
+  const moves = movement.largeMoves.filter((m) => m.kind === metric);
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center gap-2">
+        {(['line', 'price'] as MovementMetric[]).map((m) => (
+          <Badge
+            key={m}
+            variant={m === metric ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => setMetric(m)}
+          >
+            {m === 'line' ? 'Line' : 'No-Vig Over %'}
+          </Badge>
+        ))}
+        {moves.length > 0 && (
+          <span className="text-xs text-ev-neutral">
+            {moves.length} large move{moves.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      <div className="h-48 w-full rounded-lg border border-border p-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={movement.points[metric]}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 10 }}
+              tickFormatter={(v) => format(new Date(v), 'HH:mm')}
+            />
+            <YAxis
+              tick={{ fontSize: 10 }}
+              domain={['auto', 'auto']}
+              tickFormatter={formatValue}
+            />
+            <Tooltip
+              labelFormatter={(v) => format(new Date(v as number), 'MMM d, HH:mm')}
+              formatter={(v: number) => formatValue(v)}
+            />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            {movement.books.map((book, i) => (
+              <Line
+                key={book}
+                type="stepAfter"
+                dataKey={book}
+                stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+            {moves.map((move) => (
+              <ReferenceDot
+                key={`${move.sportsbook}-${move.time}`}
+                x={move.time}
+                y={move.to}
+                r={4}
+                fill="hsl(var(--ev-neutral))"
+                stroke="none"
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-2 rounded-lg border border-border overflow-hidden">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-border bg-secondary/30 text-muted-foreground">
+              <th className="px-3 py-1.5 text-left">Book</th>
+              <th className="px-3 py-1.5 text-right">Open</th>
+              <th className="px-3 py-1.5 text-right">Current</th>
+              <th className="px-3 py-1.5 text-right">Move</th>
+            </tr>
+          </thead>
+          <tbody>
+            {movement.summary.map((book) => (
+              <tr key={book.sportsbook} className="border-b border-border last:border-0">
+                <td className="px-3 py-1.5 font-medium">{book.sportsbook}</td>
+                <td className="px-3 py-1.5 text-right font-mono">
+                  {book.opening.line} ({formatOdds(book.opening.over_odds)})
+                </td>
+                <td className="px-3 py-1.5 text-right font-mono">
+                  {book.current.line} ({formatOdds(book.current.over_odds)})
+                </td>
+                <td
+                  className={cn(
+                    'px-3 py-1.5 text-right font-mono',
+                    book.lineChange !== 0 && 'text-ev-neutral'
+                  )}
+                >
+                  {book.lineChange > 0 ? '+' : ''}
+                  {book.lineChange} / {book.priceChange >= 0 ? '+' : ''}
+                  {(book.priceChange * 100).toFixed(1)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
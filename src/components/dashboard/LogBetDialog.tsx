@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useLogBet } from '@/hooks/useBets';
+import { repriceDraft, type BetDraft } from '@/lib/betLedger';
+import { formatEV, formatOdds } from '@/lib/evCalculator';
+import { cn } from '@/lib/utils';
+
+interface Props {
+  draft: BetDraft | null;
+  onClose: () => void;
+}
+
+export function LogBetDialog({ draft, onClose }: Props) {
+  const logBet = useLogBet();
+  const { reset } = logBet;
+  const [sportsbook, setSportsbook] = useState('');
+  const [odds, setOdds] = useState('');
+  const [stake, setStake] = useState('');
+
+  useEffect(() => {
+    if (draft) {
+      setSportsbook(draft.sportsbook);
+      setOdds(String(draft.odds));
+      setStake(draft.stake > 0 ? draft.stake.toFixed(2) : '');
+      reset();
+    }
+  }, [draft, reset]);
+
+  if (!draft) return null;
+
+  const takenOdds = Number(odds);
+  const takenStake = Number(stake);
+  const validOdds = Math.abs(takenOdds) >= 100;
+  const valid = validOdds && takenStake > 0 && sportsbook.trim() !== '';
+  const priced = validOdds ? repriceDraft(draft, takenOdds) : draft;
+
+  async function handleSubmit() {
+    if (!valid) return;
+
+    await logBet.mutateAsync({
+      ...priced,
+      sportsbook: sportsbook.trim(),
+      stake: takenStake,
+    });
+    onClose();
+  }
+
+  return (
+    <Dialog open={!!draft} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Log {draft.kind === 'parlay' ? `${draft.legs.length}-leg parlay` : 'bet'}</DialogTitle>
+          <DialogDescription>
+            {draft.legs
+              .map((leg) => `${leg.player_name} ${leg.direction} ${leg.line} ${leg.stat_type}`)
+              .join(' • ')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="bet-book" className="text-xs">Sportsbook</Label>
+            <Input id="bet-book" value={sportsbook} onChange={(e) => setSportsbook(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="bet-odds" className="text-xs">Odds taken</Label>
+              <Input id="bet-odds" type="number" value={odds} onChange={(e) => setOdds(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bet-stake" className="text-xs">Stake ($)</Label>
+              <Input
+                id="bet-stake"
+                type="number"
+                min={0}
+                value={stake}
+                onChange={(e) => setStake(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Shown at {formatOdds(draft.odds)}; EV at the odds taken{' '}
+            <span
+              className={cn(
+                'font-mono font-semibold',
+                priced.ev_pct > 0 ? 'text-ev-positive' : 'text-ev-negative'
+              )}
+            >
+              {formatEV(priced.ev_pct)}
+            </span>
+          </p>
+
+          {logBet.error && (
+            <p className="text-xs text-ev-negative">
+              {logBet.error instanceof Error ? logBet.error.message : 'Could not log bet'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={!valid || logBet.isPending} onClick={handleSubmit}>
+            Log bet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { Badge } from '@/components/ui/badge';
+import { formatEV, formatOdds, formatProbability, formatStake } from '@/lib/evCalculator';
+import type { MiddleOpportunity } from '@/lib/middles';
+import { cn } from '@/lib/utils';
+
+const EXAMPLE_TOTAL_STAKE = 100;
+
+interface Props {
+  data: MiddleOpportunity[];
+  isLoading?: boolean;
+}
+
+export function MiddlesTable({ data, isLoading }: Props) {
+  if (isLoading) {
+    return <p className="py-16 text-center text-sm text-muted-foreground">Scanning for middles...</p>;
+  }
+
+  if (data.length === 0) {
+    return (
+      <p className="py-16 text-center text-sm text-muted-foreground">
+        No +EV middles in the current odds
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-xs text-muted-foreground">
+            <th className="px-4 py-3 text-left">Player</th>
+            <th className="px-3 py-3 text-left">Stat</th>
+            <th className="px-3 py-3 text-left">Over</th>
+            <th className="px-3 py-3 text-left">Under</th>
+            <th className="px-3 py-3 text-right">Proj.</th>
+            <th className="px-3 py-3 text-right">Middle %</th>
+            <th className="px-3 py-3 text-right" title={`Split of a ${formatStake(EXAMPLE_TOTAL_STAKE)} total stake`}>
+              Stakes
+            </th>
+            <th className="px-3 py-3 text-right">Hit / Miss</th>
+            <th className="px-3 py-3 text-right">EV%</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.map((middle) => (
+            <tr key={middle.id} className="border-b border-border">
+              <td className="px-4 py-3">
+                <span className="font-medium">{middle.player_name}</span>
+                <Badge variant="secondary" className="ml-2 text-[10px]">{middle.sport}</Badge>
+                {middle.opponent && (
+                  <span className="ml-2 text-xs text-muted-foreground">{middle.opponent}</span>
+                )}
+              </td>
+              <td className="px-3 py-3 text-sm">{middle.stat_type}</td>
+              <td className="px-3 py-3 text-sm">
+                {middle.over.sportsbook}{' '}
+                <span className="font-mono">
+                  o{middle.over.line} {formatOdds(middle.over.odds)}
+                </span>
+              </td>
+              <td className="px-3 py-3 text-sm">
+                {middle.under.sportsbook}{' '}
+                <span className="font-mono">
+                  u{middle.under.line} {formatOdds(middle.under.odds)}
+                </span>
+              </td>
+              <td className="px-3 py-3 text-right font-mono text-sm text-muted-foreground">
+                {middle.projectedMean.toFixed(1)}
+              </td>
+              <td className="px-3 py-3 text-right font-mono text-sm">
+                {formatProbability(middle.middleProbability)}
+              </td>
+              <td className="px-3 py-3 text-right font-mono text-sm">
+                {formatStake(middle.overStakeShare * EXAMPLE_TOTAL_STAKE)} /{' '}
+                {formatStake((1 - middle.overStakeShare) * EXAMPLE_TOTAL_STAKE)}
+              </td>
+              <td className="px-3 py-3 text-right font-mono text-sm">
+                <span className="text-ev-positive">{formatEV(middle.middleProfit * 100)}</span>
+                {' / '}
+                <span className="text-ev-negative">{formatEV(middle.sideProfit * 100)}</span>
+              </td>
+              <td
+                className={cn(
+                  'px-3 py-3 text-right font-mono text-sm font-semibold',
+                  middle.evPct > 0 ? 'text-ev-positive' : 'text-ev-negative'
+                )}
+              >
+                {formatEV(middle.evPct)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
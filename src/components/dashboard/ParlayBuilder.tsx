@@ -7,6 +7,9 @@ import {
   calculateParlayProbability,
   calculateParlayPayout,
   getParlayRiskLevel,
+  calculateKellyStake,
+  formatStake,
+  type BankrollSettings,
 } from '@/lib/evCalculator'
 import type { EVCalculation } from '@/types';
 import { cn } from '@/lib/utils';
@@ -15,9 +18,11 @@ interface Props {
   legs: EVCalculation[];
   onRemove: (id: string) => void;
   onClear: () => void;
+  onLogBet: (stake: number) => void;
+  bankrollSettings: BankrollSettings;
 }
 
-export function ParlayBuilder({ legs, onRemove, onClear }: Props) {
+export function ParlayBuilder({ legs, onRemove, onClear, onLogBet, bankrollSettings }: Props) {
   if (legs.length === 0) return null;
 
   const probabilities = legs.map((l) => l.true_prob);
@@ -25,6 +30,15 @@ export function ParlayBuilder({ legs, onRemove, onClear }: Props) {
   const payoutMultiplier = calculateParlayPayout(legs.map((l) => l.best_odds));
   const riskLevel = getParlayRiskLevel(legs.length, combinedProb);
 
+  // A ticket is only as trustworthy as its weakest leg
+  const ticketConfidence = Math.min(...legs.map((l) => l.confidence_score)) / 100;
+  const kellyStake = calculateKellyStake(
+    combinedProb,
+    payoutMultiplier,
+    bankrollSettings,
+    ticketConfidence
+  );
+
   const riskColor = {
     Low: 'text-ev-positive',
     Medium: 'text-ev-neutral',
@@ -41,9 +55,14 @@ export function ParlayBuilder({ legs, onRemove, onClear }: Props) {
             <h3 className="text-sm font-semibold">Parlay Builder</h3>
             <Badge variant="secondary" className="text-[10px]">{legs.length} legs</Badge>
           </div>
-          <Button variant="ghost" size="sm" onClick={onClear} className="text-xs h-7">
-            Clear All
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => onLogBet(kellyStake)} className="text-xs h-7">
+              Log Parlay
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClear} className="text-xs h-7">
+              Clear All
+            </Button>
+          </div>
         </div>
 
         {/* Legs */}
@@ -69,7 +88,7 @@ export function ParlayBuilder({ legs, onRemove, onClear }: Props) {
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
           <div className="rounded-lg border border-border p-2 text-center">
             <p className="text-[10px] text-muted-foreground">Combined Probability</p>
             <p className="font-mono text-sm font-bold">{formatProbability(combinedProb)}</p>
@@ -86,6 +105,12 @@ export function ParlayBuilder({ legs, onRemove, onClear }: Props) {
             <p className="text-[10px] text-muted-foreground">$100 Pays</p>
             <p className="font-mono text-sm font-bold">${(payoutMultiplier * 100).toFixed(0)}</p>
           </div>
+          <div className="rounded-lg border border-border p-2 text-center">
+            <p className="text-[10px] text-muted-foreground">Kelly Stake</p>
+            <p className="font-mono text-sm font-bold">
+              {kellyStake > 0 ? formatStake(kellyStake) : 'No bet'}
+            </p>
+          </div>
         </div>
 
         {/* Variance Warning */}
@@ -1,4 +1,5 @@
 import { useState, useMemo, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import {
   Dialog,
   DialogContent,
@@ -13,18 +14,10 @@ import {
   removeVig,
   convertAmericanToProbability,
 } from '@/lib/evCalculator';
-import { generateMockHistorical } from '@/lib/mock-data';
+import { getConsensusPulls, isSharpBook } from '@/lib/bookWeights';
+import { LineMovementChart } from '@/components/dashboard/LineMovementChart';
+import { GameLogPanel } from '@/components/dashboard/GameLogPanel';
 import type { EVCalculation } from '@/types';
-import {
-  ResponsiveContainer,
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ReferenceLine,
-  CartesianGrid,
-} from 'recharts';
 
 interface Props {
   ev: EVCalculation | null;
@@ -55,10 +48,9 @@ export function PlayerDetailModal({ ev, open, onClose }: Props) {
 
   if (!ev || !activeEV) return null;
 
-  const historical = generateMockHistorical(
-    activeEV.player_prop.player_id,
-    activeEV.player_prop.stat_type
-  );
+  const contributions = activeEV.consensus_books ?? [];
+  const pulls = getConsensusPulls(contributions);
+  const totalShift = pulls.reduce((acc, p) => acc + p.pull, 0);
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -123,12 +115,21 @@ export function PlayerDetailModal({ ev, open, onClose }: Props) {
                     Under
                   </th>
                   <th className="px-3 py-2 text-right text-xs text-muted-foreground">
-                    No Vig
+                    No Vig @ {activeEV.best_line}
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs text-muted-foreground">
+                    Weight
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs text-muted-foreground">
+                    Pull
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs text-muted-foreground">
+                    Last Seen
                   </th>
                 </tr>
               </thead>
               <tbody>
-                {activeEV.all_odds.map((snap: any) => {
+                {activeEV.all_odds.map((snap) => {
                   const overImplied = convertAmericanToProbability(
                     snap.over_odds
                   );
@@ -136,10 +137,20 @@ export function PlayerDetailModal({ ev, open, onClose }: Props) {
                     snap.under_odds
                   );
 
-                  const { over } = removeVig(
-                    overImplied,
-                    underImplied
+                  const contribution = contributions.find(
+                    (c) =>
+                      c.sportsbook === snap.sportsbook &&
+                      (c.line === undefined || c.line === snap.line)
                   );
+                  const pull = pulls.find(
+                    (p) => p.sportsbook === snap.sportsbook
+                  )?.pull ?? 0;
+
+                  const over =
+                    contribution?.over ??
+                    removeVig(overImplied, underImplied).over;
+                  // Change-only snapshots are re-confirmed rather than re-inserted
+                  const lastSeen = snap.last_confirmed_at ?? snap.created_at;
 
                   return (
                     <tr
@@ -148,6 +159,11 @@ export function PlayerDetailModal({ ev, open, onClose }: Props) {
                     >
                       <td className="px-3 py-2 font-medium">
                         {snap.sportsbook}
+                        {isSharpBook(snap.sportsbook) && (
+                          <Badge variant="outline" className="ml-2 text-[10px]">
+                            Sharp
+                          </Badge>
+                        )}
                       </td>
                       <td className="px-3 py-2 text-right font-mono">
                         {snap.line}
@@ -161,12 +177,48 @@ export function PlayerDetailModal({ ev, open, onClose }: Props) {
                       <td className="px-3 py-2 text-right font-mono text-muted-foreground">
                         {formatProbability(over)}
                       </td>
+                      <td className="px-3 py-2 text-right font-mono text-muted-foreground">
+                        {contribution && contribution.weight > 0
+                          ? formatProbability(contribution.share)
+                          : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono text-muted-foreground">
+                        {pull >= 0 ? '+' : ''}
+                        {(pull * 100).toFixed(2)}%
+                      </td>
+                      <td className="px-3 py-2 text-right text-xs text-muted-foreground">
+                        {lastSeen
+                          ? formatDistanceToNow(new Date(lastSeen), { addSuffix: true })
+                          : '—'}
+                      </td>
                     </tr>
                   );
                 })}
               </tbody>
             </table>
           </div>
+
+          {activeEV.thin_consensus && (
+            <p className="mt-2 text-xs text-ev-neutral">
+              Thin consensus: this edge is priced off only{' '}
+              {activeEV.consensus_sample_size} book
+              {activeEV.consensus_sample_size === 1 ? '' : 's'}.
+            </p>
+          )}
+
+          {contributions.length > 0 && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Weighting moved the Over consensus{' '}
+              <span className="font-mono">
+                {totalShift >= 0 ? '+' : ''}
+                {(totalShift * 100).toFixed(2)}%
+              </span>{' '}
+              versus an equal-weight average
+              {pulls.length > 0 && Math.abs(pulls[0].pull) > 0
+                ? `, led by ${pulls[0].sportsbook}.`
+                : '.'}
+            </p>
+          )}
         </div>
 
         <div className="mt-4 grid grid-cols-3 gap-3">
@@ -194,33 +246,18 @@ export function PlayerDetailModal({ ev, open, onClose }: Props) {
 
         <div className="mt-4">
           <h3 className="text-sm font-semibold mb-2">
-            Historical Performance (Mock)
+            Line Movement
           </h3>
 
-          <div className="h-48 w-full rounded-lg border border-border p-2">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={historical}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="date"
-                  tick={{ fontSize: 10 }}
-                  tickFormatter={(v) => v.slice(5)}
-                />
-                <YAxis tick={{ fontSize: 10 }} />
-                <Tooltip />
-                <ReferenceLine
-                  y={activeEV.market_consensus_line}
-                  strokeDasharray="4 4"
-                />
-                <Line
-                  type="monotone"
-                  dataKey="value"
-                  strokeWidth={2}
-                  dot={{ r: 3 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          <LineMovementChart ev={activeEV} />
+        </div>
+
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold mb-2">
+            Recent Games ({activeEV.direction} {activeEV.best_line})
+          </h3>
+
+          <GameLogPanel ev={activeEV} />
         </div>
       </DialogContent>
     </Dialog>
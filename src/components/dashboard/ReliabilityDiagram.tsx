@@ -0,0 +1,80 @@
+import {
+  ResponsiveContainer,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+  ReferenceLine,
+} from 'recharts';
+import type { CalibrationSummary } from '@/lib/calibration';
+
+const SERIES_COLORS = [
+  'hsl(142 70% 45%)',
+  'hsl(217 91% 60%)',
+  'hsl(38 92% 50%)',
+  'hsl(280 65% 60%)',
+  'hsl(0 72% 51%)',
+  'hsl(180 60% 45%)',
+  'hsl(330 80% 60%)',
+];
+
+interface Props {
+  summaries: CalibrationSummary[];
+}
+
+/**
+ * Mean predicted vs observed Over rate per probability bin; a calibrated
+ * model sits on the diagonal
+ */
+export function ReliabilityDiagram({ summaries }: Props) {
+  return (
+    <div className="h-72 w-full rounded-lg border border-border p-2">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="meanPredicted"
+            name="Predicted"
+            domain={[0, 1]}
+            tick={{ fontSize: 10 }}
+            tickFormatter={(v) => `${Math.round(v * 100)}%`}
+          />
+          <YAxis
+            type="number"
+            dataKey="observedRate"
+            name="Observed"
+            domain={[0, 1]}
+            tick={{ fontSize: 10 }}
+            tickFormatter={(v) => `${Math.round(v * 100)}%`}
+          />
+          <Tooltip
+            formatter={(value: number, name: string) =>
+              name === 'count' ? value : `${(value * 100).toFixed(1)}%`
+            }
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <ReferenceLine
+            segment={[
+              { x: 0, y: 0 },
+              { x: 1, y: 1 },
+            ]}
+            strokeDasharray="4 4"
+          />
+          {summaries.map((summary, i) => (
+            <Scatter
+              key={summary.key}
+              name={summary.key}
+              data={summary.bins}
+              fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+              line
+            />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
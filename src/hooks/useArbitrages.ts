@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { arbitrageService } from '@/services/arbitrageService';
+import type { Sport } from '@/types';
+
+export function useArbitrages(sport: Sport | 'All' = 'All', enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['arbitrages', sport],
+
+    queryFn: () =>
+      arbitrageService.findArbitrages({
+        sport: sport !== 'All' ? sport : undefined,
+      }),
+
+    enabled,
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+  });
+}
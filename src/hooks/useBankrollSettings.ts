@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_BANKROLL_SETTINGS,
+  type BankrollSettings,
+} from '@/lib/evCalculator';
+
+const STORAGE_KEY = 'propedge:bankroll-settings';
+
+function loadSettings(): BankrollSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_BANKROLL_SETTINGS;
+
+    return { ...DEFAULT_BANKROLL_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_BANKROLL_SETTINGS;
+  }
+}
+
+/**
+ * Bankroll and Kelly settings, persisted to local storage
+ */
+export function useBankrollSettings() {
+  const [settings, setSettings] = useState<BankrollSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  return [settings, setSettings] as const;
+}
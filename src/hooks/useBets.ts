@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { BetDraft } from '@/lib/betLedger';
+import { betService } from '@/services/betService';
+import type { Bet, BetStatus } from '@/types';
+
+/**
+ * The bet ledger, with any newly graded bets settled on load
+ */
+export function useBets() {
+  return useQuery({
+    queryKey: ['bets'],
+
+    queryFn: async () => betService.settleOpenBets(await betService.getBets()),
+
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useLogBet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (draft: BetDraft) => betService.logBet(draft),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
+
+export function useSetBetStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ bet, status }: { bet: Bet; status: BetStatus }) =>
+      betService.setStatus(bet, status),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import type { DevigMethod } from '@/lib/evCalculator';
+import { calibrationService } from '@/services/calibrationService';
+
+export function useCalibrationSamples() {
+  return useQuery({
+    queryKey: ['calibration-samples'],
+
+    queryFn: () => calibrationService.getSamples(),
+
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useConfidenceModel(method: DevigMethod, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['confidence-model', method],
+
+    queryFn: () => calibrationService.getConfidenceModel(method),
+
+    enabled,
+    staleTime: 30 * 60 * 1000,
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { clvService } from '@/services/clvService';
+
+export function useClvReport() {
+  return useQuery({
+    queryKey: ['clv-report'],
+
+    queryFn: () => clvService.getClvEntries(),
+
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -1,11 +1,19 @@
 import { useQuery } from '@tanstack/react-query';
-import { evService } from '@/services/evService';
+import { evService, type EVFilters } from '@/services/evService';
 import { Sport, StatType } from '@/types';
+import type { DevigMethod } from '@/lib/evCalculator';
+import { CONSENSUS_WEIGHTINGS, type ConsensusWeighting } from '@/lib/bookWeights';
+import type { ConfidenceModel } from '@/lib/calibration';
 
 interface UseEVCalculationsOptions {
   sport?: Sport | 'All';
   statType?: StatType | 'All';
   minEV?: number;
+  devigMethod?: DevigMethod;
+  consensusWeighting?: ConsensusWeighting;
+  leaveOneOut?: boolean;
+  lineShopping?: boolean;
+  confidenceModel?: ConfidenceModel;
   enabled?: boolean;
 }
 
@@ -16,10 +24,15 @@ export function useEVCalculations(options: UseEVCalculationsOptions = {}) {
       options.sport ?? 'All',
       options.statType ?? 'All',
       options.minEV ?? -100,
+      options.devigMethod ?? 'multiplicative',
+      options.consensusWeighting ?? 'equal',
+      options.leaveOneOut ?? false,
+      options.lineShopping ?? false,
+      options.confidenceModel ?? null,
     ],
 
     queryFn: async () => {
-      const filters: any = {};
+      const filters: EVFilters = {};
 
       if (options.sport && options.sport !== 'All') {
         filters.sport = options.sport;
@@ -27,11 +40,26 @@ export function useEVCalculations(options: UseEVCalculationsOptions = {}) {
         // Don't pass sport filter when "All" is selected
       }
 
-      if (options.minEV !== undefined) {
-        filters.minEV = options.minEV;
+      if (options.devigMethod) {
+        filters.devigMethod = options.devigMethod;
       }
 
-      const evs = await evService.calculateAllEVs(filters);
+      if (options.consensusWeighting) {
+        filters.bookWeighting =
+          CONSENSUS_WEIGHTINGS[options.consensusWeighting].weighting;
+      }
+
+      if (options.leaveOneOut) {
+        filters.leaveOneOut = true;
+      }
+
+      if (options.confidenceModel) {
+        filters.confidenceModel = options.confidenceModel;
+      }
+
+      const evs = options.lineShopping
+        ? await evService.calculateBestPrices(filters)
+        : await evService.calculateAllEVs(filters);
 
       if (options.statType && options.statType !== 'All') {
         return evs.filter(
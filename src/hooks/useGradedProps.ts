@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { resultsService, type GradedPropFilters } from '@/services/resultsService';
+
+export function useGradedProps(filters: GradedPropFilters = {}) {
+  return useQuery({
+    queryKey: ['graded-props', filters],
+
+    queryFn: () => resultsService.getGradedProps(filters),
+
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { holdService } from '@/services/holdService';
+
+export function useCurrentMarkets(sport?: string) {
+  return useQuery({
+    queryKey: ['current-markets', sport ?? 'All'],
+
+    queryFn: () => holdService.getCurrentMarkets(sport),
+
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+  });
+}
+
+export function useHoldHistory(days?: number, sport?: string) {
+  return useQuery({
+    queryKey: ['hold-history', days, sport ?? 'All'],
+
+    queryFn: () => holdService.getHoldHistory(days, sport),
+
+    staleTime: 10 * 60 * 1000,
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { ingestionService } from '@/services/ingestionService';
+
+export function useLatestIngestionRun() {
+  return useQuery({
+    queryKey: ['ingestion-run'],
+
+    queryFn: () => ingestionService.getLatestRun(),
+
+    staleTime: 0,
+    // Poll quickly while the worker is mid-run so progress stays live
+    refetchInterval: (query) =>
+      query.state.data?.status === 'running' ? 2000 : 60 * 1000,
+  });
+}
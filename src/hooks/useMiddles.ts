@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import type { DevigMethod } from '@/lib/evCalculator';
+import { middleService } from '@/services/middleService';
+import type { Sport } from '@/types';
+
+export function useMiddles(
+  sport: Sport | 'All' = 'All',
+  devigMethod: DevigMethod = 'multiplicative',
+  enabled: boolean = true
+) {
+  return useQuery({
+    queryKey: ['middles', sport, devigMethod],
+
+    queryFn: () =>
+      middleService.findMiddles({
+        sport: sport !== 'All' ? sport : undefined,
+        devigMethod,
+      }),
+
+    enabled,
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+  });
+}
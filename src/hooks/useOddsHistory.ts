@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { oddsService } from '@/services/oddsService';
+
+export function useOddsHistory(
+  playerId: string | undefined,
+  statType: string | undefined,
+  gameDate?: string
+) {
+  return useQuery({
+    queryKey: ['odds-history', playerId, statType, gameDate ?? ''],
+
+    queryFn: () => oddsService.getPropHistory(playerId!, statType!, gameDate || undefined),
+
+    enabled: !!playerId && !!statType,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { gameLogService } from '@/services/gameLogService';
+
+export function usePlayerGameLogs(
+  playerId: string | undefined,
+  statType: string | undefined
+) {
+  return useQuery({
+    queryKey: ['player-game-logs', playerId, statType],
+
+    queryFn: () => gameLogService.getPlayerGameLogs(playerId!, statType!),
+
+    enabled: !!playerId && !!statType,
+    staleTime: 5 * 60 * 1000,
+  });
+}
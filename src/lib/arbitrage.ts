@@ -0,0 +1,134 @@
+/**
+ * Arbitrage Finder
+ *
+ * An arb is an Over at one book and an Under at another, on the same
+ * line, whose implied probabilities sum to less than 1. Staking each
+ * side in proportion to its implied probability locks in the same
+ * payout whichever side wins.
+ */
+
+import {
+  convertAmericanToDecimal,
+  convertAmericanToProbability,
+} from '@/lib/evCalculator';
+import type { OddsSnapshotRow } from '@/types';
+
+export const DEFAULT_ARB_TARGET_PAYOUT = 1000;
+export const DEFAULT_ARB_ROUNDING = 1;
+
+export interface ArbSide {
+  sportsbook: string;
+  odds: number;
+}
+
+export interface ArbOpportunity {
+  id: string;
+  player_id: string;
+  player_name: string;
+  sport: string;
+  stat_type: string;
+  game_date: string | null;
+  opponent: string | null;
+  line: number;
+  over: ArbSide;
+  under: ArbSide;
+  /** Sum of both sides' implied probabilities; below 1 is an arb */
+  impliedTotal: number;
+  /** Guaranteed return on total stake before rounding */
+  profitPct: number;
+}
+
+export interface ArbStakePlan {
+  stakes: number[];
+  payouts: number[];
+  totalStake: number;
+  /** Worst-case profit after rounding */
+  guaranteedProfit: number;
+  roi: number;
+}
+
+/**
+ * The best cross-book Over/Under pairing for every line with an arb
+ */
+export function findArbitrages(rows: OddsSnapshotRow[]): ArbOpportunity[] {
+  const markets = new Map<string, OddsSnapshotRow[]>();
+
+  for (const row of rows) {
+    const key = `${row.player_id}|${row.stat_type}|${row.game_date ?? ''}|${row.line}`;
+    if (!markets.has(key)) {
+      markets.set(key, []);
+    }
+    markets.get(key)!.push(row);
+  }
+
+  const arbs: ArbOpportunity[] = [];
+
+  for (const [key, books] of markets) {
+    let best: { over: OddsSnapshotRow; under: OddsSnapshotRow; impliedTotal: number } | null =
+      null;
+
+    for (const over of books) {
+      for (const under of books) {
+        if (over.sportsbook === under.sportsbook) continue;
+
+        const impliedTotal =
+          convertAmericanToProbability(over.over_odds) +
+          convertAmericanToProbability(under.under_odds);
+
+        if (!best || impliedTotal < best.impliedTotal) {
+          best = { over, under, impliedTotal };
+        }
+      }
+    }
+
+    if (!best || best.impliedTotal >= 1) continue;
+
+    const { over, under, impliedTotal } = best;
+
+    arbs.push({
+      id: key,
+      player_id: over.player_id,
+      player_name: over.player_name,
+      sport: over.sport,
+      stat_type: over.stat_type,
+      game_date: over.game_date ?? null,
+      opponent: over.opponent ?? null,
+      line: over.line,
+      over: { sportsbook: over.sportsbook, odds: over.over_odds },
+      under: { sportsbook: under.sportsbook, odds: under.under_odds },
+      impliedTotal,
+      profitPct: (1 / impliedTotal - 1) * 100,
+    });
+  }
+
+  return arbs.sort((a, b) => b.profitPct - a.profitPct);
+}
+
+/**
+ * Stakes that return `targetPayout` on every outcome, each rounded to
+ * the nearest `roundTo` dollars
+ */
+export function calculateArbStakes(
+  americanOdds: number[],
+  targetPayout: number = DEFAULT_ARB_TARGET_PAYOUT,
+  roundTo: number = DEFAULT_ARB_ROUNDING
+): ArbStakePlan {
+  const decimals = americanOdds.map(convertAmericanToDecimal);
+
+  const stakes = decimals.map((decimal) => {
+    const exact = targetPayout / decimal;
+    return roundTo > 0 ? Math.round(exact / roundTo) * roundTo : exact;
+  });
+
+  const payouts = stakes.map((stake, i) => stake * decimals[i]);
+  const totalStake = stakes.reduce((sum, stake) => sum + stake, 0);
+  const guaranteedProfit = Math.min(...payouts) - totalStake;
+
+  return {
+    stakes,
+    payouts,
+    totalStake,
+    guaranteedProfit,
+    roi: totalStake > 0 ? guaranteedProfit / totalStake : 0,
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Bet Ledger
+ *
+ * Settlement and P&L for logged bets. Expected profit uses the EV we
+ * saw when the bet was placed, so it can be compared with what actually
+ * happened.
+ */
+
+import {
+  calculateParlayPayout,
+  calculateParlayProbability,
+  convertAmericanToDecimal,
+  convertDecimalToAmerican,
+} from '@/lib/evCalculator';
+import type { Bet, BetLeg, BetStatus, EVCalculation, PropOutcome } from '@/types';
+
+export type BetDraft = Pick<
+  Bet,
+  | 'kind'
+  | 'sportsbook'
+  | 'odds'
+  | 'decimal_odds'
+  | 'stake'
+  | 'ev_pct'
+  | 'true_prob'
+  | 'push_prob'
+  | 'legs'
+>;
+
+export interface BetSettlement {
+  status: BetStatus;
+  profit: number | null;
+}
+
+export interface LedgerSummary {
+  openBets: number;
+  openStake: number;
+  openExpectedProfit: number;
+  settledBets: number;
+  /** Stake on settled bets, excluding voids */
+  settledStake: number;
+  profit: number;
+  expectedProfit: number;
+  roi: number | null;
+}
+
+export interface ProfitPoint {
+  settled_at: string;
+  profit: number;
+  expected: number;
+}
+
+export function legFromEV(ev: EVCalculation): BetLeg {
+  return {
+    player_id: ev.player_prop.player_id,
+    player_name: ev.player_prop.player.name,
+    sport: ev.player_prop.player.sport,
+    stat_type: ev.player_prop.stat_type,
+    game_date: ev.player_prop.game_date,
+    direction: ev.direction,
+    line: ev.best_line,
+    odds: ev.best_odds,
+    true_prob: ev.true_prob,
+  };
+}
+
+export function straightBetDraft(ev: EVCalculation, stake: number): BetDraft {
+  return {
+    kind: 'straight',
+    sportsbook: ev.best_sportsbook.name,
+    odds: ev.best_odds,
+    stake,
+    ev_pct: ev.ev_pct,
+    true_prob: ev.true_prob,
+    push_prob: ev.push_prob,
+    legs: [legFromEV(ev)],
+  };
+}
+
+export function parlayBetDraft(evs: EVCalculation[], stake: number): BetDraft {
+  const payout = calculateParlayPayout(evs.map((ev) => ev.best_odds));
+  const trueProb = calculateParlayProbability(evs.map((ev) => ev.true_prob));
+
+  return {
+    kind: 'parlay',
+    sportsbook: evs[0]?.best_sportsbook.name ?? '',
+    odds: convertDecimalToAmerican(payout),
+    decimal_odds: payout,
+    stake,
+    ev_pct: (trueProb * payout - 1) * 100,
+    true_prob: trueProb,
+    legs: evs.map(legFromEV),
+  };
+}
+
+/**
+ * EV% of a draft at the odds actually taken, scaled down by the push
+ * chance the same way the scanner's EV is. Odds typed in replace the
+ * exact parlay payout.
+ */
+export function repriceDraft(draft: BetDraft, odds: number): BetDraft {
+  if (odds === draft.odds) return draft;
+
+  const graded = 1 - (draft.push_prob ?? 0);
+
+  return {
+    ...draft,
+    odds,
+    decimal_odds: null,
+    ev_pct: graded * (draft.true_prob * convertAmericanToDecimal(odds) - 1) * 100,
+  };
+}
+
+/**
+ * Decimal payout of a bet, exact for parlays that recorded one
+ */
+export function betDecimalOdds(bet: Pick<Bet, 'odds' | 'decimal_odds'>): number {
+  return bet.decimal_odds ?? convertAmericanToDecimal(bet.odds);
+}
+
+export function calculateBetProfit(
+  stake: number,
+  odds: number,
+  status: BetStatus,
+  decimalOdds?: number | null
+): number | null {
+  switch (status) {
+    case 'won':
+      return stake * (betDecimalOdds({ odds, decimal_odds: decimalOdds }) - 1);
+    case 'lost':
+      return -stake;
+    case 'push':
+    case 'void':
+      return 0;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Settles a bet from its legs' graded outcomes (null = not graded yet).
+ * A losing leg loses the ticket straight away; a pushed parlay leg is
+ * dropped and the payout shrinks by that leg's price.
+ */
+export function settleBet(bet: Bet, outcomes: Array<PropOutcome | null>): BetSettlement {
+  const legResults = bet.legs.map((leg, i) => {
+    const outcome = outcomes[i];
+    if (!outcome) return 'pending';
+    if (outcome === 'Push') return 'push';
+    return outcome === leg.direction ? 'won' : 'lost';
+  });
+
+  if (legResults.includes('lost')) {
+    return { status: 'lost', profit: -bet.stake };
+  }
+
+  if (legResults.includes('pending')) {
+    return { status: 'open', profit: null };
+  }
+
+  const livingLegs = bet.legs.filter((_, i) => legResults[i] === 'won');
+
+  if (livingLegs.length === 0) {
+    return { status: 'push', profit: 0 };
+  }
+
+  const pushedPayout = calculateParlayPayout(
+    bet.legs.filter((_, i) => legResults[i] === 'push').map((leg) => leg.odds)
+  );
+  const payout = betDecimalOdds(bet) / pushedPayout;
+
+  return { status: 'won', profit: bet.stake * (payout - 1) };
+}
+
+export function summarizeBets(bets: Bet[]): LedgerSummary {
+  const open = bets.filter((bet) => bet.status === 'open');
+  const settled = bets.filter((bet) => bet.status !== 'open' && bet.status !== 'void');
+
+  const expected = (bet: Bet) => (bet.stake * bet.ev_pct) / 100;
+  const sum = (list: Bet[], value: (bet: Bet) => number) =>
+    list.reduce((total, bet) => total + value(bet), 0);
+
+  const settledStake = sum(settled, (bet) => bet.stake);
+  const profit = sum(settled, (bet) => bet.profit ?? 0);
+
+  return {
+    openBets: open.length,
+    openStake: sum(open, (bet) => bet.stake),
+    openExpectedProfit: sum(open, expected),
+    settledBets: settled.length,
+    settledStake,
+    profit,
+    expectedProfit: sum(settled, expected),
+    roi: settledStake > 0 ? profit / settledStake : null,
+  };
+}
+
+/**
+ * Running actual and expected profit over settled bets, in settle order
+ */
+export function buildProfitCurve(bets: Bet[]): ProfitPoint[] {
+  const settled = bets
+    .filter((bet) => bet.status !== 'open' && bet.settled_at)
+    .sort((a, b) => Date.parse(a.settled_at!) - Date.parse(b.settled_at!));
+
+  let profit = 0;
+  let expected = 0;
+
+  return settled.map((bet) => {
+    profit += bet.profit ?? 0;
+    if (bet.status !== 'void') {
+      expected += (bet.stake * bet.ev_pct) / 100;
+    }
+
+    return { settled_at: bet.settled_at!, profit, expected };
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Consensus Weighting Profiles
+ *
+ * Sharp books move their numbers on limits and sharp action, soft books
+ * shade toward public money or post default -110/-110. These profiles
+ * control how much each book counts toward the market consensus.
+ */
+
+import type { BookWeighting, ConsensusContribution } from '@/lib/evCalculator';
+
+export type ConsensusWeighting = 'equal' | 'sharp' | 'sharpOnly';
+
+/**
+ * Books we treat as market makers. Names match the normalized
+ * sportsbook names written to odds_snapshots.
+ */
+export const SHARP_BOOKS = ['Pinnacle', 'Circa'];
+
+export const CONSENSUS_WEIGHTINGS: Record<
+  ConsensusWeighting,
+  { label: string; weighting: BookWeighting }
+> = {
+  equal: {
+    label: 'Equal Weight',
+    weighting: { weights: {}, defaultWeight: 1 },
+  },
+  sharp: {
+    label: 'Sharp Weighted',
+    weighting: {
+      weights: {
+        Pinnacle: 4,
+        Circa: 3,
+        FanDuel: 1,
+        DraftKings: 1,
+        BetMGM: 0.75,
+        Caesars: 0.75,
+        PointsBet: 0.5,
+        PrizePicks: 0.25,
+      },
+      defaultWeight: 1,
+    },
+  },
+  sharpOnly: {
+    label: 'Sharp Only',
+    weighting: {
+      weights: Object.fromEntries(SHARP_BOOKS.map((book) => [book, 1])),
+      defaultWeight: 0,
+    },
+  },
+};
+
+export function isSharpBook(sportsbook: string): boolean {
+  return SHARP_BOOKS.some(
+    (book) => book.toLowerCase() === sportsbook.toLowerCase()
+  );
+}
+
+/**
+ * How far each book pulled the weighted Over consensus away from a plain
+ * equal-weight average. The pulls sum to the total shift, so the books
+ * with the largest absolute pull are the ones that moved the number.
+ */
+export function getConsensusPulls(
+  contributions: ConsensusContribution[]
+): Array<{ sportsbook: string; pull: number }> {
+  if (contributions.length === 0) return [];
+
+  const equalShare = 1 / contributions.length;
+  const equalOver =
+    contributions.reduce((acc, c) => acc + c.over, 0) / contributions.length;
+
+  return contributions
+    .map((c) => ({
+      sportsbook: c.sportsbook,
+      pull: (c.share - equalShare) * (c.over - equalOver),
+    }))
+    .sort((a, b) => Math.abs(b.pull) - Math.abs(a.pull));
+}
@@ -0,0 +1,267 @@
+/**
+ * Consensus Calibration
+ *
+ * Scores consensus probabilities against graded results. Each graded
+ * closing line is predicted from the *other* books' closing lines (as
+ * leave-one-out pricing does), so a book never predicts itself.
+ *
+ * The empirical confidence is the edge realization: the share of the
+ * predicted edge over a book's own no-vig price that actually showed up
+ * in results (a through-origin regression slope, clamped to [0, 1]).
+ */
+
+import {
+  calculateMarketConsensus,
+  convertAmericanToProbability,
+  removeVig,
+  type DevigMethod,
+} from '@/lib/evCalculator';
+import { projectOverProbability } from '@/lib/lineModel';
+import type { GradedProp } from '@/types';
+
+/** Below this many samples a bucket falls back to the wider estimate */
+export const MIN_CONFIDENCE_SAMPLES = 50;
+
+/** Consensus sizes at or above this share one confidence bucket */
+export const MAX_CONFIDENCE_BOOKS = 5;
+
+const LOG_LOSS_EPSILON = 1e-6;
+
+export interface CalibrationSample {
+  method: DevigMethod;
+  sport: string;
+  stat_type: string;
+  sportsbook: string;
+  /** Consensus Over probability from the other books */
+  predicted: number;
+  /** The graded book's own no-vig Over probability */
+  bookProbability: number;
+  outcome: 0 | 1;
+  books: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationSummary {
+  key: string;
+  count: number;
+  brier: number;
+  logLoss: number;
+  bins: ReliabilityBin[];
+}
+
+export interface ConfidenceModel {
+  /** Edge realization by consensus size (capped at MAX_CONFIDENCE_BOOKS) */
+  byBooks: Record<number, number>;
+  overall: number | null;
+  samples: number;
+}
+
+function propKey(row: GradedProp): string {
+  return `${row.player_id}|${row.stat_type}|${row.game_date}`;
+}
+
+/**
+ * One sample per graded, non-push closing line per devig method
+ */
+export function buildCalibrationSamples(
+  graded: GradedProp[],
+  methods: DevigMethod[]
+): CalibrationSample[] {
+  const props = new Map<string, GradedProp[]>();
+
+  for (const row of graded) {
+    const key = propKey(row);
+    if (!props.has(key)) {
+      props.set(key, []);
+    }
+    props.get(key)!.push(row);
+  }
+
+  const samples: CalibrationSample[] = [];
+
+  for (const rows of props.values()) {
+    for (const row of rows) {
+      if (row.outcome === 'Push') continue;
+
+      const others = rows.filter((other) => other.sportsbook !== row.sportsbook);
+      if (others.length === 0) continue;
+
+      for (const method of methods) {
+        const consensus = calculateMarketConsensus(
+          others.map((other) => ({
+            sportsbook: other.sportsbook,
+            overOdds: other.over_odds,
+            underOdds: other.under_odds,
+            line: other.line,
+          })),
+          method,
+          undefined,
+          {
+            targetLine: row.line,
+            projectOver: (overProbability, fromLine) =>
+              projectOverProbability(row.stat_type, fromLine, overProbability, row.line),
+          }
+        );
+
+        const book = removeVig(
+          convertAmericanToProbability(row.over_odds),
+          convertAmericanToProbability(row.under_odds),
+          method
+        );
+
+        samples.push({
+          method,
+          sport: row.sport,
+          stat_type: row.stat_type,
+          sportsbook: row.sportsbook,
+          predicted: consensus.over,
+          bookProbability: book.over,
+          outcome: row.outcome === 'Over' ? 1 : 0,
+          books: consensus.sampleSize,
+        });
+      }
+    }
+  }
+
+  return samples;
+}
+
+export function brierScore(samples: CalibrationSample[]): number {
+  if (samples.length === 0) return NaN;
+
+  return (
+    samples.reduce((sum, s) => sum + (s.predicted - s.outcome) ** 2, 0) / samples.length
+  );
+}
+
+export function logLoss(samples: CalibrationSample[]): number {
+  if (samples.length === 0) return NaN;
+
+  return (
+    -samples.reduce((sum, s) => {
+      const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, s.predicted));
+      return sum + (s.outcome === 1 ? Math.log(p) : Math.log(1 - p));
+    }, 0) / samples.length
+  );
+}
+
+/**
+ * Equal-width probability bins for a reliability diagram; empty bins
+ * are omitted
+ */
+export function reliabilityBins(
+  samples: CalibrationSample[],
+  binCount: number = 10
+): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    predictedSum: 0,
+    outcomeSum: 0,
+  }));
+
+  for (const sample of samples) {
+    const index = Math.min(binCount - 1, Math.floor(sample.predicted * binCount));
+    bins[index].count++;
+    bins[index].predictedSum += sample.predicted;
+    bins[index].outcomeSum += sample.outcome;
+  }
+
+  return bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({
+      lower: bin.lower,
+      upper: bin.upper,
+      count: bin.count,
+      meanPredicted: bin.predictedSum / bin.count,
+      observedRate: bin.outcomeSum / bin.count,
+    }));
+}
+
+export function summarizeCalibration(
+  samples: CalibrationSample[],
+  keyOf: (sample: CalibrationSample) => string,
+  binCount?: number
+): CalibrationSummary[] {
+  const groups = new Map<string, CalibrationSample[]>();
+
+  for (const sample of samples) {
+    const key = keyOf(sample);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(sample);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      count: group.length,
+      brier: brierScore(group),
+      logLoss: logLoss(group),
+      bins: reliabilityBins(group, binCount),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Share of the predicted edge that was realized, or null when the
+ * samples carry no edge to measure
+ */
+export function edgeRealization(samples: CalibrationSample[]): number | null {
+  let covariance = 0;
+  let variance = 0;
+
+  for (const sample of samples) {
+    const predictedEdge = sample.predicted - sample.bookProbability;
+    covariance += predictedEdge * (sample.outcome - sample.bookProbability);
+    variance += predictedEdge ** 2;
+  }
+
+  if (variance === 0) return null;
+  return Math.min(1, Math.max(0, covariance / variance));
+}
+
+/**
+ * Confidence by consensus size for one devig method's samples
+ */
+export function buildConfidenceModel(
+  samples: CalibrationSample[],
+  minSamples: number = MIN_CONFIDENCE_SAMPLES
+): ConfidenceModel {
+  const byBooks: Record<number, number> = {};
+
+  for (let books = 1; books <= MAX_CONFIDENCE_BOOKS; books++) {
+    const bucket = samples.filter((sample) =>
+      books === MAX_CONFIDENCE_BOOKS ? sample.books >= books : sample.books === books
+    );
+    if (bucket.length < minSamples) continue;
+
+    const realization = edgeRealization(bucket);
+    if (realization !== null) {
+      byBooks[books] = realization;
+    }
+  }
+
+  return {
+    byBooks,
+    overall: samples.length >= minSamples ? edgeRealization(samples) : null,
+    samples: samples.length,
+  };
+}
+
+/**
+ * Empirical confidence for a consensus of `books` books, or null when
+ * there is not enough graded history to say
+ */
+export function empiricalConfidence(model: ConfidenceModel, books: number): number | null {
+  return model.byBooks[Math.min(books, MAX_CONFIDENCE_BOOKS)] ?? model.overall;
+}
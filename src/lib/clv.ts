@@ -0,0 +1,156 @@
+/**
+ * Closing Line Value
+ *
+ * Compares the price we took (or were shown) with the closing line.
+ * Cents compare against the same book's close at the same line; the
+ * no-vig measure compares our break-even probability with the closing
+ * consensus, re-priced to our line by the line model.
+ */
+
+import {
+  calculateMarketConsensus,
+  convertAmericanToProbability,
+  type DevigMethod,
+} from '@/lib/evCalculator';
+import { projectOverProbability } from '@/lib/lineModel';
+
+export interface ClvPosition {
+  stat_type: string;
+  sportsbook: string;
+  line: number;
+  direction: 'Over' | 'Under';
+  odds: number;
+}
+
+interface ClosingRow {
+  sportsbook: string;
+  line: number;
+  over_odds: number;
+  under_odds: number;
+}
+
+export interface ClvResult {
+  /** The same book's closing line and price, if it posted one */
+  closingLine: number | null;
+  closingOdds: number | null;
+  /** Null when the book closed at a different line (or not at all) */
+  cents: number | null;
+  closingProbability: number;
+  impliedProbability: number;
+  /** Closing no-vig probability minus our break-even; positive beats the close */
+  probabilityClv: number;
+  closingBooks: number;
+}
+
+export interface ClvAggregate {
+  key: string;
+  count: number;
+  /** Average over entries that have a cents figure */
+  avgCents: number | null;
+  avgProbabilityClv: number;
+  beatCloseRate: number;
+}
+
+/**
+ * American odds on a continuous scale, so -110 to +105 is 15 cents
+ * rather than 215
+ */
+export function americanToCents(odds: number): number {
+  return odds >= 100 ? odds - 100 : odds + 100;
+}
+
+export function calculateCLV(
+  position: ClvPosition,
+  closing: ClosingRow[],
+  method: DevigMethod = 'multiplicative'
+): ClvResult | null {
+  if (closing.length === 0) return null;
+
+  const bookClose = closing.find(
+    (row) => row.sportsbook.toLowerCase() === position.sportsbook.toLowerCase()
+  );
+
+  const closingOdds = bookClose
+    ? position.direction === 'Over'
+      ? bookClose.over_odds
+      : bookClose.under_odds
+    : null;
+
+  const cents =
+    bookClose && closingOdds !== null && bookClose.line === position.line
+      ? americanToCents(position.odds) - americanToCents(closingOdds)
+      : null;
+
+  const consensus = calculateMarketConsensus(
+    closing.map((row) => ({
+      sportsbook: row.sportsbook,
+      overOdds: row.over_odds,
+      underOdds: row.under_odds,
+      line: row.line,
+    })),
+    method,
+    undefined,
+    {
+      targetLine: position.line,
+      projectOver: (overProbability, fromLine) =>
+        projectOverProbability(position.stat_type, fromLine, overProbability, position.line),
+    }
+  );
+
+  const closingProbability =
+    position.direction === 'Over' ? consensus.over : consensus.under;
+  const impliedProbability = convertAmericanToProbability(position.odds);
+
+  return {
+    closingLine: bookClose?.line ?? null,
+    closingOdds,
+    cents,
+    closingProbability,
+    impliedProbability,
+    probabilityClv: closingProbability - impliedProbability,
+    closingBooks: consensus.sampleSize,
+  };
+}
+
+export function aggregateClv<T extends { clv: ClvResult }>(
+  entries: T[],
+  keyOf: (entry: T) => string
+): ClvAggregate[] {
+  const groups = new Map<string, T[]>();
+
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(entry);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const withCents = group.filter((entry) => entry.clv.cents !== null);
+
+      return {
+        key,
+        count: group.length,
+        avgCents:
+          withCents.length > 0
+            ? withCents.reduce((sum, entry) => sum + entry.clv.cents!, 0) / withCents.length
+            : null,
+        avgProbabilityClv:
+          group.reduce((sum, entry) => sum + entry.clv.probabilityClv, 0) / group.length,
+        beatCloseRate:
+          group.filter((entry) => entry.clv.probabilityClv > 0).length / group.length,
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+export function formatCents(cents: number | null): string {
+  if (cents === null) return '—';
+  return `${cents > 0 ? '+' : ''}${cents.toFixed(1)}¢`;
+}
+
+export function formatClvPct(clv: number): string {
+  return `${clv > 0 ? '+' : ''}${(clv * 100).toFixed(2)}%`;
+}
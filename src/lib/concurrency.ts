@@ -0,0 +1,80 @@
+/**
+ * Bounded Concurrency
+ *
+ * Runs async work over a list with at most `concurrency` tasks in
+ * flight, starting no more than `ratePerSecond` tasks per second, and
+ * reports each completion as it happens. Results keep input order.
+ */
+
+export interface PoolOptions<T, R> {
+  concurrency: number;
+  /** Most task starts per second; unlimited when omitted */
+  ratePerSecond?: number;
+  /** A limiter shared with other work; takes precedence over ratePerSecond */
+  acquire?: () => Promise<void>;
+  onProgress?: (completed: number, total: number, item: T, result: R) => void;
+  /** Injectable for tests */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Spaces calls to `acquire` at least 1000 / ratePerSecond ms apart
+ */
+export function createRateLimiter(
+  ratePerSecond: number,
+  now: () => number = Date.now,
+  sleep: (ms: number) => Promise<void> = defaultSleep
+): () => Promise<void> {
+  const interval = 1000 / ratePerSecond;
+  let nextSlot = 0;
+
+  return async () => {
+    const current = now();
+    const slot = Math.max(current, nextSlot);
+    nextSlot = slot + interval;
+
+    if (slot > current) {
+      await sleep(slot - current);
+    }
+  };
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: PoolOptions<T, R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  const acquire =
+    options.acquire ??
+    (options.ratePerSecond && options.ratePerSecond > 0
+      ? createRateLimiter(options.ratePerSecond, options.now, options.sleep)
+      : null);
+
+  let nextIndex = 0;
+  let completed = 0;
+
+  async function run(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+
+      if (acquire) await acquire();
+
+      results[index] = await worker(items[index], index);
+      completed++;
+      options.onProgress?.(completed, items.length, items[index], results[index]);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () => run())
+  );
+
+  return results;
+}
@@ -0,0 +1,141 @@
+/**
+ * Odds API Credit Budget
+ *
+ * The Odds API bills an event odds request one credit per market per
+ * region; event listings are free. A refresh is planned before any odds
+ * are requested: when the credits left for the day cannot cover every
+ * event, the events starting soonest are fetched first and the rest
+ * wait for the next run.
+ */
+
+export const DEFAULT_DAILY_CREDIT_CAP = 500;
+
+export interface CreditUsage {
+  /** Credits used this billing period (x-requests-used) */
+  used: number | null;
+  /** Credits left this billing period (x-requests-remaining) */
+  remaining: number | null;
+  /** Cost of this request (x-requests-last) */
+  last: number | null;
+}
+
+export interface CreditState {
+  dailyCap: number;
+  /** Credits already spent today */
+  spentToday: number;
+  /** Last known x-requests-remaining, if any */
+  remaining: number | null;
+}
+
+export interface PlannableEvent {
+  id: string;
+  commence_time: string;
+}
+
+export interface RefreshPlan<T extends PlannableEvent> {
+  /** Events to fetch, soonest first */
+  events: T[];
+  /** Events left for a later run */
+  skipped: T[];
+  /** Events already underway, which are never fetched */
+  started: T[];
+  estimatedCost: number;
+  /** True when there were events but none fit the budget */
+  blocked: boolean;
+}
+
+function parseHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  if (value === null || value === '') return null;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseCreditHeaders(headers: Headers): CreditUsage {
+  return {
+    used: parseHeader(headers, 'x-requests-used'),
+    remaining: parseHeader(headers, 'x-requests-remaining'),
+    last: parseHeader(headers, 'x-requests-last'),
+  };
+}
+
+/**
+ * Credits one event odds request costs
+ */
+export function estimateEventCost(markets: number, regions: number = 1): number {
+  return markets * regions;
+}
+
+/**
+ * Credits a refresh of `events` events costs
+ */
+export function estimateRefreshCost(
+  events: number,
+  markets: number,
+  regions: number = 1
+): number {
+  return events * estimateEventCost(markets, regions);
+}
+
+/**
+ * Credits that can still be spent: the lower of what is left under the
+ * daily cap and what is left on the account
+ */
+export function creditsAvailable(state: CreditState): number {
+  const underCap = state.dailyCap - state.spentToday;
+  const onAccount = state.remaining ?? Infinity;
+  return Math.max(0, Math.min(underCap, onAccount));
+}
+
+/**
+ * Choose which events to fetch within `available` credits, soonest
+ * first. Games that have started are dropped before ranking, since
+ * pricing ignores them. An event that does not fit is skipped, but
+ * cheaper events after it may still be taken.
+ */
+export function planRefresh<T extends PlannableEvent>(
+  events: T[],
+  costOf: (event: T) => number,
+  available: number,
+  now: Date = new Date()
+): RefreshPlan<T> {
+  const started = events.filter(
+    (event) => new Date(event.commence_time).getTime() <= now.getTime()
+  );
+  const upcoming = events.filter((event) => !started.includes(event));
+
+  const ordered = [...upcoming].sort(
+    (a, b) => new Date(a.commence_time).getTime() - new Date(b.commence_time).getTime()
+  );
+
+  const selected: T[] = [];
+  const skipped: T[] = [];
+  let estimatedCost = 0;
+
+  for (const event of ordered) {
+    const cost = costOf(event);
+
+    if (estimatedCost + cost <= available) {
+      selected.push(event);
+      estimatedCost += cost;
+    } else {
+      skipped.push(event);
+    }
+  }
+
+  return {
+    events: selected,
+    skipped,
+    started,
+    estimatedCost,
+    blocked: upcoming.length > 0 && selected.length === 0,
+  };
+}
+
+/**
+ * Midnight UTC of the given day, where the daily cap resets
+ */
+export function startOfUtcDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
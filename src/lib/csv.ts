@@ -0,0 +1,58 @@
+/**
+ * Minimal CSV Parser
+ *
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings,
+ * which covers the box-score exports we import.
+ */
+
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+  if (!header) return [];
+
+  const keys = header.map((h) => h.trim());
+
+  return body.map((cells) =>
+    Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? '').trim()]))
+  );
+}
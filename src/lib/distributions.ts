@@ -0,0 +1,183 @@
+/**
+ * Probability Distribution Helpers
+ *
+ * Small, dependency-free implementations of the distribution functions
+ * used by the EV engine.
+ */
+
+/**
+ * Finds the root of a monotonic function on [lo, hi] by bisection.
+ */
+export function bisect(
+  fn: (x: number) => number,
+  lo: number,
+  hi: number,
+  iterations: number = 100
+): number {
+  let fLo = fn(lo);
+
+  for (let i = 0; i < iterations; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = fn(mid);
+
+    if (fMid === 0) return mid;
+
+    if (fLo * fMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+
+  return (lo + hi) / 2;
+}
+
+/**
+ * Standard normal cumulative distribution function Φ(x)
+ *
+ * Uses the Abramowitz & Stegun 7.1.26 approximation of erf
+ * (absolute error below 1.5e-7).
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly =
+    t * (0.254829592 +
+    t * (-0.284496736 +
+    t * (1.421413741 +
+    t * (-1.453152027 +
+    t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Inverse of the standard normal CDF Φ⁻¹(p)
+ *
+ * Uses Acklam's rational approximation (relative error below 1.2e-9).
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error('Probability must be between 0 and 1');
+  }
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+
+  const pLow = 0.02425;
+  const pHigh = 1 - pLow;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > pHigh) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g = 7)
+ */
+export function lnGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lnGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (z + i);
+  }
+
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Poisson probability mass P(X = k) with mean lambda
+ */
+export function poissonPmf(k: number, lambda: number): number {
+  if (k < 0 || !Number.isInteger(k)) return 0;
+  if (lambda === 0) return k === 0 ? 1 : 0;
+
+  return Math.exp(k * Math.log(lambda) - lambda - lnGamma(k + 1));
+}
+
+/**
+ * Poisson cumulative probability P(X <= k)
+ */
+export function poissonCdf(k: number, lambda: number): number {
+  if (k < 0) return 0;
+
+  let total = 0;
+  for (let i = 0; i <= Math.floor(k); i++) {
+    total += poissonPmf(i, lambda);
+  }
+  return Math.min(1, total);
+}
+
+/**
+ * Negative binomial probability mass P(X = k), parameterized by its mean
+ * and shape r. Variance is mean + mean² / r, so smaller r means more
+ * overdispersion; as r grows it approaches a Poisson.
+ */
+export function negativeBinomialPmf(k: number, mean: number, shape: number): number {
+  if (k < 0 || !Number.isInteger(k)) return 0;
+  if (mean === 0) return k === 0 ? 1 : 0;
+
+  const p = shape / (shape + mean);
+
+  return Math.exp(
+    lnGamma(k + shape) -
+    lnGamma(k + 1) -
+    lnGamma(shape) +
+    shape * Math.log(p) +
+    k * Math.log(1 - p)
+  );
+}
+
+/**
+ * Negative binomial cumulative probability P(X <= k)
+ */
+export function negativeBinomialCdf(k: number, mean: number, shape: number): number {
+  if (k < 0) return 0;
+
+  let total = 0;
+  for (let i = 0; i <= Math.floor(k); i++) {
+    total += negativeBinomialPmf(i, mean, shape);
+  }
+  return Math.min(1, total);
+}
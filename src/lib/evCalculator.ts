@@ -3,8 +3,13 @@
  * This is now the ONLY EV + formatting file in the app.
  */
 
+import { bisect, normalCdf, normalQuantile } from '@/lib/distributions';
+
 export interface EVResult {
   trueProbability: number;
+  /** Unconditional win probability once pushes are accounted for */
+  winProbability: number;
+  pushProbability: number;
   edgePercent: number;
   expectedValue: number;
   rating: 'Strong' | 'Moderate' | 'Low';
@@ -31,13 +36,122 @@ export function convertAmericanToDecimal(odds: number): number {
     : 100 / Math.abs(odds) + 1;
 }
 
+export function convertDecimalToAmerican(decimal: number): number {
+  if (decimal <= 1) throw new Error('Decimal odds must be greater than 1');
+
+  return decimal >= 2
+    ? Math.round((decimal - 1) * 100)
+    : Math.round(-100 / (decimal - 1));
+}
+
 // --------------------
 // Vig Removal
 // --------------------
 
+export type DevigMethod =
+  | 'multiplicative'
+  | 'additive'
+  | 'power'
+  | 'shin'
+  | 'probit';
+
+/**
+ * A devig strategy maps the implied probabilities of every outcome in a
+ * market (which sum to more than 1) to fair probabilities that sum to 1.
+ */
+export type DevigStrategy = (implied: number[]) => number[];
+
+export const DEVIG_METHOD_LABELS: Record<DevigMethod, string> = {
+  multiplicative: 'Multiplicative',
+  additive: 'Additive',
+  power: 'Power',
+  shin: 'Shin',
+  probit: 'Probit',
+};
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+/**
+ * Proportional normalization: each probability is divided by the overround.
+ */
+const multiplicativeDevig: DevigStrategy = (implied) => {
+  const total = sum(implied);
+  return implied.map((p) => p / total);
+};
+
+/**
+ * Subtracts an equal share of the overround from every outcome. A
+ * longshot priced below its share is set to 0 and the rest of the
+ * overround is shared among the other outcomes, so the total stays 1.
+ */
+const additiveDevig: DevigStrategy = (implied) => {
+  const zeroed = implied.map(() => false);
+
+  for (;;) {
+    const open = implied.filter((_, i) => !zeroed[i]);
+    const margin = (sum(open) - 1) / open.length;
+    const fair = implied.map((p, i) => (zeroed[i] ? 0 : p - margin));
+
+    const negative = fair.findIndex((p) => p < 0);
+    if (negative < 0) return fair;
+    zeroed[negative] = true;
+  }
+};
+
+/**
+ * Raises every probability to a common exponent k so they sum to 1.
+ * Removes proportionally more vig from longshots than favorites.
+ */
+const powerDevig: DevigStrategy = (implied) => {
+  const k = bisect(
+    (exp) => sum(implied.map((p) => Math.pow(p, exp))) - 1,
+    0.01,
+    100
+  );
+  return implied.map((p) => Math.pow(p, k));
+};
+
+/**
+ * Shin's model: the margin is explained by a share z of insider money.
+ * Solves for z so the fair probabilities sum to 1.
+ */
+const shinDevig: DevigStrategy = (implied) => {
+  const total = sum(implied);
+  const fairFor = (z: number) =>
+    implied.map(
+      (p) =>
+        (Math.sqrt(z * z + (4 * (1 - z) * p * p) / total) - z) /
+        (2 * (1 - z))
+    );
+
+  const z = bisect((value) => sum(fairFor(value)) - 1, 0, 0.999);
+  return fairFor(z);
+};
+
+/**
+ * Shifts every outcome by a constant on the probit (inverse normal) scale.
+ */
+const probitDevig: DevigStrategy = (implied) => {
+  const scores = implied.map((p) => normalQuantile(p));
+  const fairFor = (shift: number) =>
+    scores.map((score) => normalCdf(score - shift));
+
+  const shift = bisect((value) => sum(fairFor(value)) - 1, -10, 10);
+  return fairFor(shift);
+};
+
+export const DEVIG_STRATEGIES: Record<DevigMethod, DevigStrategy> = {
+  multiplicative: multiplicativeDevig,
+  additive: additiveDevig,
+  power: powerDevig,
+  shin: shinDevig,
+  probit: probitDevig,
+};
+
 export function removeVig(
   overImplied: number,
-  underImplied: number
+  underImplied: number,
+  method: DevigMethod = 'multiplicative'
 ): {
   over: number;
   under: number;
@@ -46,9 +160,18 @@ export function removeVig(
   const total = overImplied + underImplied;
   if (total === 0) throw new Error('Invalid probabilities');
 
+  const strategy = DEVIG_STRATEGIES[method];
+  if (!strategy) throw new Error(`Unknown devig method: ${method}`);
+
+  // A market with no overround has nothing to remove
+  const [over, under] =
+    total <= 1
+      ? multiplicativeDevig([overImplied, underImplied])
+      : strategy([overImplied, underImplied]);
+
   return {
-    over: overImplied / total,
-    under: underImplied / total,
+    over,
+    under,
     vigPercent: (total - 1) * 100,
   };
 }
@@ -57,13 +180,58 @@ export function removeVig(
 // Market Consensus
 // --------------------
 
+/**
+ * Per-book weights for the consensus. Books missing from `weights`
+ * get `defaultWeight`; a weight of 0 drops the book entirely.
+ * Lookups are case-insensitive.
+ */
+export interface BookWeighting {
+  weights: Record<string, number>;
+  defaultWeight: number;
+}
+
+/**
+ * Re-prices books posted at other lines at `targetLine` before they are
+ * averaged, so alternate lines can share one consensus.
+ */
+export interface LineProjection {
+  targetLine: number;
+  projectOver: (overProbability: number, fromLine: number) => number;
+}
+
+export interface ConsensusContribution {
+  sportsbook: string;
+  line?: number;
+  over: number;
+  under: number;
+  weight: number;
+  share: number;
+}
+
+export function getBookWeight(
+  weighting: BookWeighting | undefined,
+  sportsbook: string
+): number {
+  if (!weighting) return 1;
+
+  const key = Object.keys(weighting.weights).find(
+    (book) => book.toLowerCase() === sportsbook.toLowerCase()
+  );
+
+  return key !== undefined ? weighting.weights[key] : weighting.defaultWeight;
+}
+
 export function calculateMarketConsensus(
-  props: Array<{ sportsbook: string; overOdds: number; underOdds: number }>
+  props: Array<{ sportsbook: string; overOdds: number; underOdds: number; line?: number }>,
+  method: DevigMethod = 'multiplicative',
+  weighting?: BookWeighting,
+  projection?: LineProjection
 ): {
   over: number;
   under: number;
   confidence: number;
   sampleSize: number;
+  contributions: ConsensusContribution[];
 } {
   if (props.length === 0) {
     throw new Error('No books for consensus');
@@ -71,27 +239,64 @@ export function calculateMarketConsensus(
 
   let totalOver = 0;
   let totalUnder = 0;
+  let totalWeight = 0;
+  let sampleSize = 0;
+
+  const contributions: ConsensusContribution[] = [];
 
   for (const prop of props) {
     const overImplied = convertAmericanToProbability(prop.overOdds);
     const underImplied = convertAmericanToProbability(prop.underOdds);
 
-    const devigged = removeVig(overImplied, underImplied);
+    const devigged = removeVig(overImplied, underImplied, method);
+    const weight = Math.max(0, getBookWeight(weighting, prop.sportsbook));
+
+    if (
+      projection &&
+      prop.line !== undefined &&
+      prop.line !== projection.targetLine
+    ) {
+      devigged.over = projection.projectOver(devigged.over, prop.line);
+      devigged.under = 1 - devigged.over;
+    }
+
+    contributions.push({
+      sportsbook: prop.sportsbook,
+      line: prop.line,
+      over: devigged.over,
+      under: devigged.under,
+      weight,
+      share: 0,
+    });
+
+    if (weight === 0) continue;
+
+    totalOver += devigged.over * weight;
+    totalUnder += devigged.under * weight;
+    totalWeight += weight;
+    sampleSize++;
+  }
 
-    totalOver += devigged.over;
-    totalUnder += devigged.under;
+  if (totalWeight === 0) {
+    throw new Error('No weighted books for consensus');
   }
 
-  const consensusOver = totalOver / props.length;
-  const consensusUnder = totalUnder / props.length;
+  for (const contribution of contributions) {
+    contribution.share = contribution.weight / totalWeight;
+  }
 
-  const confidence = Math.min(0.95, 0.5 + props.length * 0.1);
+  const consensusOver = totalOver / totalWeight;
+  const consensusUnder = totalUnder / totalWeight;
+
+  // Heuristic by book count; see calibration.ts for the empirical version
+  const confidence = Math.min(0.95, 0.5 + sampleSize * 0.1);
 
   return {
     over: consensusOver,
     under: consensusUnder,
     confidence,
-    sampleSize: props.length,
+    sampleSize,
+    contributions,
   };
 }
 
@@ -99,25 +304,37 @@ export function calculateMarketConsensus(
 // EV Calculation
 // --------------------
 
+/**
+ * `trueProbability` is the win probability given the bet is graded (i.e.
+ * conditional on no push), which is what a devigged price represents.
+ * On whole-number lines pass the push probability: pushes refund the
+ * stake, so they scale EV down without changing the edge.
+ */
 export function calculateEV(
   trueProbability: number,
   bookOdds: number,
-  stake: number = 100
+  stake: number = 100,
+  pushProbability: number = 0
 ): EVResult {
   if (trueProbability <= 0 || trueProbability >= 1) {
     throw new Error('True probability must be between 0 and 1');
   }
 
+  if (pushProbability < 0 || pushProbability >= 1) {
+    throw new Error('Push probability must be between 0 and 1');
+  }
+
   const implied = convertAmericanToProbability(bookOdds);
   const decimal = convertAmericanToDecimal(bookOdds);
 
   const payout = stake * decimal;
   const winAmount = payout - stake;
   const loseAmount = stake;
-  const loseProbability = 1 - trueProbability;
+  const winProbability = trueProbability * (1 - pushProbability);
+  const loseProbability = (1 - trueProbability) * (1 - pushProbability);
 
   const expectedValue =
-    trueProbability * winAmount - loseProbability * loseAmount;
+    winProbability * winAmount - loseProbability * loseAmount;
 
   const edgePercent =
     ((trueProbability / implied) - 1) * 100;
@@ -130,12 +347,68 @@ export function calculateEV(
 
   return {
     trueProbability,
+    winProbability,
+    pushProbability,
     edgePercent,
     expectedValue,
     rating,
   };
 }
 
+// --------------------
+// Kelly Stake Sizing
+// --------------------
+
+export interface BankrollSettings {
+  bankroll: number;
+  /** Multiplier on full Kelly (1 = full, 0.25 = quarter Kelly) */
+  kellyFraction: number;
+  /** Hard cap on any single stake, as a percent of bankroll */
+  maxStakePercent: number;
+}
+
+export const DEFAULT_BANKROLL_SETTINGS: BankrollSettings = {
+  bankroll: 1000,
+  kellyFraction: 0.25,
+  maxStakePercent: 5,
+};
+
+/**
+ * Full Kelly fraction of bankroll: f* = (b·p − q) / b, where b is the
+ * net decimal payout. Returns 0 for -EV bets. Pushes refund the stake,
+ * so with `trueProbability` conditional on no push they do not change f*.
+ */
+export function calculateKellyFraction(
+  trueProbability: number,
+  decimalOdds: number
+): number {
+  const b = decimalOdds - 1;
+  if (b <= 0) return 0;
+
+  const fraction = (b * trueProbability - (1 - trueProbability)) / b;
+  return Math.max(0, fraction);
+}
+
+/**
+ * Suggested stake for a bet: full Kelly scaled by the fractional-Kelly
+ * setting and by model confidence (0–1), then capped.
+ */
+export function calculateKellyStake(
+  trueProbability: number,
+  decimalOdds: number,
+  settings: BankrollSettings,
+  confidence: number = 1
+): number {
+  const fullKelly = calculateKellyFraction(trueProbability, decimalOdds);
+  const scaled =
+    fullKelly *
+    settings.kellyFraction *
+    Math.min(1, Math.max(0, confidence));
+  const capped = Math.min(scaled, settings.maxStakePercent / 100);
+
+  return settings.bankroll * capped;
+}
+
 // --------------------
 // Formatting Helpers
 // --------------------
@@ -148,6 +421,10 @@ export function formatProbability(prob: number): string {
   return `${(prob * 100).toFixed(1)}%`;
 }
 
+export function formatStake(stake: number): string {
+  return `$${stake.toFixed(stake >= 100 ? 0 : 2)}`;
+}
+
 export function formatEV(ev: number): string {
   const sign = ev >= 0 ? '+' : '';
   return `${sign}${ev.toFixed(1)}%`;
@@ -0,0 +1,246 @@
+/**
+ * Box-Score Importer
+ *
+ * Turns box-score exports (CSV or JSON, one record per player-game)
+ * into player_game_logs rows. Column names vary between sources, so
+ * both the identifying fields and the stat columns are matched against
+ * alias lists.
+ */
+
+import { parseCsv } from '@/lib/csv';
+import type { PlayerGameLog, StatType } from '@/types';
+
+export interface GameLogImportResult {
+  logs: PlayerGameLog[];
+  errors: string[];
+}
+
+const STAT_COLUMNS: Record<string, StatType> = {
+  'pts': 'Points',
+  'points': 'Points',
+  'reb': 'Rebounds',
+  'trb': 'Rebounds',
+  'rebounds': 'Rebounds',
+  'ast': 'Assists',
+  'assists': 'Assists',
+  'stl': 'Steals',
+  'steals': 'Steals',
+  'blk': 'Blocks',
+  'blocks': 'Blocks',
+  '3pm': '3-Pointers',
+  'fg3m': '3-Pointers',
+  'threes': '3-Pointers',
+  '3-pointers': '3-Pointers',
+  'pra': 'PRA',
+  'pass_yds': 'Passing Yards',
+  'passing_yards': 'Passing Yards',
+  'rush_yds': 'Rushing Yards',
+  'rushing_yards': 'Rushing Yards',
+  'td': 'Touchdowns',
+  'touchdowns': 'Touchdowns',
+  'so': 'Strikeouts',
+  'k': 'Strikeouts',
+  'strikeouts': 'Strikeouts',
+  'hits': 'Hits',
+  'goals': 'Goals',
+  'sv': 'Saves',
+  'saves': 'Saves',
+};
+
+const FIELD_ALIASES = {
+  player: ['player', 'player_name', 'name'],
+  playerId: ['player_id', 'playerid'],
+  date: ['game_date', 'date'],
+  opponent: ['opponent', 'opp'],
+  home: ['is_home', 'home', 'venue', 'location'],
+  team: ['team', 'tm'],
+  season: ['season'],
+  sport: ['sport', 'league'],
+};
+
+/**
+ * Same slug the odds ingestion uses for player_id
+ */
+export function toPlayerId(playerName: string): string {
+  return playerName.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+function pick(
+  record: Record<string, unknown>,
+  aliases: string[]
+): string | undefined {
+  for (const [key, value] of Object.entries(record)) {
+    if (aliases.includes(key.trim().toLowerCase()) && value !== null && value !== undefined) {
+      const text = String(value).trim();
+      if (text !== '') return text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The calendar date a box score gives, as YYYY-MM-DD. Built from the date's
+ * own parts, never from local midnight, so the day does not shift in
+ * timezones ahead of UTC.
+ */
+function parseGameDate(rawDate: string): string | null {
+  const iso = rawDate.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = rawDate.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (us[3].length === 2) year += 2000;
+  } else {
+    // Written-out dates like "Jan 15, 2026" parse to local midnight
+    const parsed = new Date(Date.parse(rawDate));
+    if (isNaN(parsed.getTime())) return null;
+    [year, month, day] = [parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate()];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().slice(0, 10);
+}
+
+function parseHome(
+  venue: string | undefined,
+  opponent: string
+): { isHome: boolean; opponent: string } {
+  // "@ BOS" means away, "vs BOS" means home
+  const prefixed = opponent.match(/^(@|vs\.?)\s*(.+)$/i);
+  if (prefixed) {
+    return { isHome: prefixed[1] !== '@', opponent: prefixed[2].trim() };
+  }
+
+  const value = venue?.toLowerCase();
+  const isHome = value !== undefined && ['h', 'home', 'true', '1', 'vs'].includes(value);
+
+  return { isHome, opponent };
+}
+
+/**
+ * One row per player, game date and stat, as the upsert requires. A
+ * repeated game keeps its last row; earlier ones are reported as dropped.
+ */
+export function normalizeGameLogRecords(
+  records: Record<string, unknown>[],
+  defaults: { sport?: string } = {}
+): GameLogImportResult {
+  const logs = new Map<string, { log: PlayerGameLog; row: number }>();
+  const errors: string[] = [];
+  /** Dropped row -> the later row that replaced it */
+  const replaced = new Map<number, number>();
+
+  records.forEach((record, index) => {
+    const rowLabel = `Row ${index + 1}`;
+    const playerName = pick(record, FIELD_ALIASES.player);
+    const rawDate = pick(record, FIELD_ALIASES.date);
+    const rawOpponent = pick(record, FIELD_ALIASES.opponent);
+
+    if (!playerName || !rawDate || !rawOpponent) {
+      errors.push(`${rowLabel}: missing player, date or opponent`);
+      return;
+    }
+
+    const gameDate = parseGameDate(rawDate);
+    if (!gameDate) {
+      errors.push(`${rowLabel}: invalid date "${rawDate}"`);
+      return;
+    }
+
+    const { isHome, opponent } = parseHome(pick(record, FIELD_ALIASES.home), rawOpponent);
+
+    const base = {
+      player_id: pick(record, FIELD_ALIASES.playerId) ?? toPlayerId(playerName),
+      player_name: playerName,
+      sport: pick(record, FIELD_ALIASES.sport) ?? defaults.sport ?? 'NBA',
+      season: pick(record, FIELD_ALIASES.season) ?? null,
+      game_date: gameDate,
+      team: pick(record, FIELD_ALIASES.team) ?? null,
+      opponent,
+      is_home: isHome,
+    };
+
+    const stats = new Map<string, number>();
+
+    for (const [key, value] of Object.entries(record)) {
+      const statType = STAT_COLUMNS[key.trim().toLowerCase()];
+      if (!statType) continue;
+
+      const numeric = Number(value);
+      if (value === '' || value === null || isNaN(numeric)) continue;
+
+      stats.set(statType, numeric);
+    }
+
+    if (
+      !stats.has('PRA') &&
+      stats.has('Points') &&
+      stats.has('Rebounds') &&
+      stats.has('Assists')
+    ) {
+      stats.set('PRA', stats.get('Points')! + stats.get('Rebounds')! + stats.get('Assists')!);
+    }
+
+    if (stats.size === 0) {
+      errors.push(`${rowLabel}: no recognised stat columns`);
+      return;
+    }
+
+    for (const [statType, value] of stats) {
+      const key = [base.player_id, base.game_date, statType].join('|');
+      const earlier = logs.get(key);
+      if (earlier) replaced.set(earlier.row, index + 1);
+
+      logs.set(key, { log: { ...base, stat_type: statType, value }, row: index + 1 });
+    }
+  });
+
+  for (const [row, laterRow] of replaced) {
+    errors.push(`Row ${row}: duplicate game, replaced by row ${laterRow}`);
+  }
+
+  return { logs: [...logs.values()].map(({ log }) => log), errors };
+}
+
+/**
+ * Parses a CSV or JSON box-score file. JSON may be an array of records
+ * or an object holding one under `games`, `logs` or `data`.
+ */
+export function parseGameLogFile(
+  fileName: string,
+  text: string,
+  defaults: { sport?: string } = {}
+): GameLogImportResult {
+  const trimmed = text.trim();
+  const isJson =
+    fileName.toLowerCase().endsWith('.json') ||
+    trimmed.startsWith('[') ||
+    trimmed.startsWith('{');
+
+  if (!isJson) {
+    return normalizeGameLogRecords(parseCsv(text), defaults);
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    const records = Array.isArray(parsed)
+      ? parsed
+      : parsed.games ?? parsed.logs ?? parsed.data;
+
+    if (!Array.isArray(records)) {
+      return { logs: [], errors: ['JSON file does not contain an array of games'] };
+    }
+
+    return normalizeGameLogRecords(records, defaults);
+  } catch (error) {
+    return {
+      logs: [],
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`],
+    };
+  }
+}
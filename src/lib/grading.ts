@@ -0,0 +1,77 @@
+/**
+ * Prop Grading
+ *
+ * Matches final stat lines to the props we priced and grades each one.
+ * A prop is graded at every book using that book's last snapshot taken
+ * before the game started.
+ */
+
+import { selectClosingSnapshots } from '@/lib/snapshots';
+import type { GradedProp, OddsSnapshotRow, PlayerGameLog, PropOutcome } from '@/types';
+
+/**
+ * US sports schedule by Eastern time: a 7:30pm ET tip-off is stored
+ * as the next day in UTC but belongs to the Eastern calendar date.
+ */
+const GAME_DAY_TIME_ZONE = 'America/New_York';
+
+export function toGameDay(timestamp: string): string {
+  // Plain dates (box scores) are already game days
+  if (/^\d{4}-\d{2}-\d{2}$/.test(timestamp)) return timestamp;
+
+  return new Date(timestamp).toLocaleDateString('en-CA', {
+    timeZone: GAME_DAY_TIME_ZONE,
+  });
+}
+
+export function gradeOutcome(line: number, actual: number): PropOutcome {
+  if (actual > line) return 'Over';
+  if (actual < line) return 'Under';
+  return 'Push';
+}
+
+function resultKey(playerId: string, statType: string, gameDay: string): string {
+  return `${playerId}|${statType}|${gameDay}`;
+}
+
+/**
+ * Grades every (prop, book) closing line that has a final stat line
+ */
+export function gradeSnapshots(
+  snapshots: OddsSnapshotRow[],
+  finalStats: PlayerGameLog[],
+  gradedAt: Date = new Date()
+): GradedProp[] {
+  const results = new Map<string, number>();
+
+  for (const stat of finalStats) {
+    results.set(resultKey(stat.player_id, stat.stat_type, toGameDay(stat.game_date)), stat.value);
+  }
+
+  const closing = selectClosingSnapshots(snapshots);
+  const graded: GradedProp[] = [];
+
+  for (const row of closing) {
+    const actual = results.get(
+      resultKey(row.player_id, row.stat_type, toGameDay(row.game_date!))
+    );
+    if (actual === undefined) continue;
+
+    graded.push({
+      player_id: row.player_id,
+      player_name: row.player_name,
+      sport: row.sport,
+      stat_type: row.stat_type,
+      game_date: row.game_date!,
+      sportsbook: row.sportsbook,
+      line: row.line,
+      over_odds: row.over_odds,
+      under_odds: row.under_odds,
+      actual_value: actual,
+      outcome: gradeOutcome(row.line, actual),
+      graded_at: gradedAt.toISOString(),
+    });
+  }
+
+  return graded;
+}
@@ -0,0 +1,99 @@
+/**
+ * Hit-Rate History
+ *
+ * How often a player's past games cleared a given line, overall and
+ * across the splits bettors check before placing a prop.
+ */
+
+import { isSameTeam } from '@/lib/teams';
+import type { PlayerGameLog } from '@/types';
+
+export interface HitRate {
+  games: number;
+  hits: number;
+  pushes: number;
+  /** Hits over graded (non-push) games, or null with no graded games */
+  rate: number | null;
+}
+
+export interface HitRateSplits {
+  l5: HitRate;
+  l10: HitRate;
+  season: HitRate;
+  home: HitRate;
+  away: HitRate;
+  vsOpponent: HitRate | null;
+}
+
+export function calculateHitRate(
+  logs: PlayerGameLog[],
+  line: number,
+  direction: 'Over' | 'Under'
+): HitRate {
+  let hits = 0;
+  let pushes = 0;
+
+  for (const log of logs) {
+    if (log.value === line) {
+      pushes++;
+    } else if (direction === 'Over' ? log.value > line : log.value < line) {
+      hits++;
+    }
+  }
+
+  const graded = logs.length - pushes;
+
+  return {
+    games: logs.length,
+    hits,
+    pushes,
+    rate: graded > 0 ? hits / graded : null,
+  };
+}
+
+/**
+ * Odds snapshots store the matchup as "Away @ Home", while box scores
+ * store the opponent alone, often abbreviated; match when the opponent
+ * is either team in the matchup.
+ */
+export function matchesOpponent(logOpponent: string, matchup: string): boolean {
+  return matchup
+    .split(/\s+(?:@|vs\.?|at)\s+/i)
+    .some((team) => isSameTeam(logOpponent, team));
+}
+
+/**
+ * Most recent games first
+ */
+export function sortGameLogs(logs: PlayerGameLog[]): PlayerGameLog[] {
+  return [...logs].sort((a, b) => b.game_date.localeCompare(a.game_date));
+}
+
+export function calculateHitRateSplits(
+  logs: PlayerGameLog[],
+  line: number,
+  direction: 'Over' | 'Under',
+  opponent?: string
+): HitRateSplits {
+  const recent = sortGameLogs(logs);
+  const currentSeason = recent[0]?.season;
+
+  const seasonLogs = currentSeason
+    ? recent.filter((log) => log.season === currentSeason)
+    : recent;
+
+  return {
+    l5: calculateHitRate(recent.slice(0, 5), line, direction),
+    l10: calculateHitRate(recent.slice(0, 10), line, direction),
+    season: calculateHitRate(seasonLogs, line, direction),
+    home: calculateHitRate(seasonLogs.filter((log) => log.is_home), line, direction),
+    away: calculateHitRate(seasonLogs.filter((log) => !log.is_home), line, direction),
+    vsOpponent: opponent
+      ? calculateHitRate(
+          recent.filter((log) => matchesOpponent(log.opponent, opponent)),
+          line,
+          direction
+        )
+      : null,
+  };
+}
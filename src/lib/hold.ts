@@ -0,0 +1,141 @@
+/**
+ * Market Hold
+ *
+ * Hold is the book's theoretical margin on a two-way market: the share
+ * of a balanced handle it keeps, 1 - 1 / (over implied + under implied).
+ * It is computed from the same overround `removeVig` reports.
+ */
+
+import { convertAmericanToProbability, removeVig } from '@/lib/evCalculator';
+
+interface HoldRow {
+  over_odds: number;
+  under_odds: number;
+  hold_pct?: number | null;
+}
+
+export interface HoldAggregate {
+  key: string;
+  count: number;
+  avgHold: number;
+  minHold: number;
+}
+
+export interface HoldSeries {
+  keys: string[];
+  /** One point per day, keyed by group, for charting */
+  points: Array<Record<string, number | string>>;
+}
+
+export function calculateHold(overOdds: number, underOdds: number): number {
+  const { vigPercent } = removeVig(
+    convertAmericanToProbability(overOdds),
+    convertAmericanToProbability(underOdds)
+  );
+
+  return (vigPercent / (100 + vigPercent)) * 100;
+}
+
+/**
+ * Stored hold, or computed from the prices for rows written before
+ * hold was stored
+ */
+export function snapshotHold(row: HoldRow): number {
+  return row.hold_pct ?? calculateHold(row.over_odds, row.under_odds);
+}
+
+export function rankByHold<T extends HoldRow>(rows: T[], limit?: number): Array<T & { hold: number }> {
+  const ranked = rows
+    .map((row) => ({ ...row, hold: snapshotHold(row) }))
+    .sort((a, b) => a.hold - b.hold);
+
+  return limit ? ranked.slice(0, limit) : ranked;
+}
+
+export function aggregateHold<T extends HoldRow>(
+  rows: T[],
+  keyOf: (row: T) => string
+): HoldAggregate[] {
+  const groups = new Map<string, number[]>();
+
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(snapshotHold(row));
+  }
+
+  return [...groups.entries()]
+    .map(([key, holds]) => ({
+      key,
+      count: holds.length,
+      avgHold: holds.reduce((sum, hold) => sum + hold, 0) / holds.length,
+      minHold: Math.min(...holds),
+    }))
+    .sort((a, b) => a.avgHold - b.avgHold);
+}
+
+/**
+ * The UTC days from `from` through `to`, as YYYY-MM-DD
+ */
+function daysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  const last = to.slice(0, 10);
+
+  for (
+    let day = new Date(`${from.slice(0, 10)}T00:00:00Z`);
+    day.toISOString().slice(0, 10) <= last;
+    day.setUTCDate(day.getUTCDate() + 1)
+  ) {
+    days.push(day.toISOString().slice(0, 10));
+  }
+
+  return days;
+}
+
+/**
+ * Daily average hold per group. A change-only snapshot stands for its
+ * price from created_at until last_confirmed_at, so it counts on every
+ * day in that span; days before `since` are left out.
+ */
+export function buildHoldSeries<
+  T extends HoldRow & { created_at?: string | null; last_confirmed_at?: string | null },
+>(rows: T[], keyOf: (row: T) => string, since?: string): HoldSeries {
+  const days = new Map<string, Map<string, number[]>>();
+  const keys = new Set<string>();
+  const firstDay = since?.slice(0, 10);
+
+  for (const row of rows) {
+    if (!row.created_at) continue;
+
+    const key = keyOf(row);
+    const hold = snapshotHold(row);
+
+    for (const day of daysBetween(row.created_at, row.last_confirmed_at ?? row.created_at)) {
+      if (firstDay && day < firstDay) continue;
+
+      keys.add(key);
+      if (!days.has(day)) {
+        days.set(day, new Map());
+      }
+      const byKey = days.get(day)!;
+      if (!byKey.has(key)) {
+        byKey.set(key, []);
+      }
+      byKey.get(key)!.push(hold);
+    }
+  }
+
+  const points = [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, byKey]) => {
+      const point: Record<string, number | string> = { date: day };
+      for (const [key, holds] of byKey) {
+        point[key] = holds.reduce((sum, hold) => sum + hold, 0) / holds.length;
+      }
+      return point;
+    });
+
+  return { keys: [...keys].sort(), points };
+}
@@ -0,0 +1,181 @@
+/**
+ * Alternate Line Model
+ *
+ * Books often post the same prop at different lines (24.5 vs 25.5).
+ * Each stat gets a distribution family; fitting its mean to a book's line
+ * and no-vig Over probability lets us price that book's view at any
+ * other line, so every posted line can share one consensus.
+ *
+ * Whole-number lines can push. Sportsbooks refund pushes, so a devigged
+ * Over probability on a whole line is conditional on no push; the model
+ * works in that space and exposes the push probability separately.
+ */
+
+import {
+  bisect,
+  negativeBinomialCdf,
+  negativeBinomialPmf,
+  normalCdf,
+  poissonCdf,
+  poissonPmf,
+} from '@/lib/distributions';
+
+export type LineDistribution = 'poisson' | 'negativeBinomial' | 'normal';
+
+export interface StatLineModel {
+  distribution: LineDistribution;
+  /** Negative binomial shape r (variance = mean + mean² / r) */
+  shape?: number;
+  /** Normal standard deviation as a fraction of the mean */
+  cv?: number;
+}
+
+/**
+ * Counting stats use Poisson, or negative binomial where game-to-game
+ * variance is clearly wider than the mean. Yardage is modelled as normal.
+ */
+export const STAT_LINE_MODELS: Record<string, StatLineModel> = {
+  'Points': { distribution: 'negativeBinomial', shape: 15 },
+  'Rebounds': { distribution: 'negativeBinomial', shape: 12 },
+  'Assists': { distribution: 'negativeBinomial', shape: 10 },
+  'PRA': { distribution: 'negativeBinomial', shape: 25 },
+  'Steals': { distribution: 'poisson' },
+  'Blocks': { distribution: 'poisson' },
+  '3-Pointers': { distribution: 'poisson' },
+  'Touchdowns': { distribution: 'poisson' },
+  'Strikeouts': { distribution: 'poisson' },
+  'Hits': { distribution: 'poisson' },
+  'Goals': { distribution: 'poisson' },
+  'Saves': { distribution: 'negativeBinomial', shape: 30 },
+  'Passing Yards': { distribution: 'normal', cv: 0.3 },
+  'Rushing Yards': { distribution: 'normal', cv: 0.45 },
+};
+
+const DEFAULT_LINE_MODEL: StatLineModel = { distribution: 'normal', cv: 0.35 };
+
+// Keep projected probabilities strictly inside (0, 1) for the EV math
+const MIN_PROBABILITY = 0.0001;
+
+export function getLineModel(statType: string): StatLineModel {
+  return STAT_LINE_MODELS[statType] ?? DEFAULT_LINE_MODEL;
+}
+
+export function isWholeLine(line: number): boolean {
+  return Number.isInteger(line);
+}
+
+function normalSd(model: StatLineModel, mean: number): number {
+  return Math.max((model.cv ?? 0.35) * mean, 0.5);
+}
+
+/**
+ * P(X > line) for a model with the given mean. Normal models apply a
+ * continuity correction on whole lines.
+ */
+export function probabilityOver(
+  model: StatLineModel,
+  mean: number,
+  line: number
+): number {
+  switch (model.distribution) {
+    case 'poisson':
+      return 1 - poissonCdf(Math.floor(line), mean);
+    case 'negativeBinomial':
+      return 1 - negativeBinomialCdf(Math.floor(line), mean, model.shape ?? 10);
+    case 'normal': {
+      const cutoff = isWholeLine(line) ? line + 0.5 : line;
+      return 1 - normalCdf((cutoff - mean) / normalSd(model, mean));
+    }
+  }
+}
+
+/**
+ * P(X = line); zero for half-point lines
+ */
+export function probabilityPush(
+  model: StatLineModel,
+  mean: number,
+  line: number
+): number {
+  if (!isWholeLine(line)) return 0;
+
+  switch (model.distribution) {
+    case 'poisson':
+      return poissonPmf(line, mean);
+    case 'negativeBinomial':
+      return negativeBinomialPmf(line, mean, model.shape ?? 10);
+    case 'normal': {
+      const sd = normalSd(model, mean);
+      return (
+        normalCdf((line + 0.5 - mean) / sd) -
+        normalCdf((line - 0.5 - mean) / sd)
+      );
+    }
+  }
+}
+
+/**
+ * P(X > line | X ≠ line), the quantity a devigged Over price represents
+ */
+export function probabilityOverNoPush(
+  model: StatLineModel,
+  mean: number,
+  line: number
+): number {
+  const push = probabilityPush(model, mean, line);
+  if (push >= 1) return 0;
+
+  return probabilityOver(model, mean, line) / (1 - push);
+}
+
+/**
+ * Finds the mean at which the no-push Over probability at `line` equals
+ * the given (devigged) Over probability
+ */
+export function fitMean(
+  model: StatLineModel,
+  line: number,
+  overProbability: number
+): number {
+  return bisect(
+    (mean) => probabilityOverNoPush(model, mean, line) - overProbability,
+    1e-6,
+    Math.max(10, line * 4 + 10),
+    60
+  );
+}
+
+/**
+ * Re-prices a no-vig Over probability posted at `fromLine` at `toLine`
+ */
+export function projectOverProbability(
+  statType: string,
+  fromLine: number,
+  overProbability: number,
+  toLine: number
+): number {
+  if (fromLine === toLine) return overProbability;
+
+  const model = getLineModel(statType);
+  const mean = fitMean(model, fromLine, overProbability);
+  const projected = probabilityOverNoPush(model, mean, toLine);
+
+  return Math.min(1 - MIN_PROBABILITY, Math.max(MIN_PROBABILITY, projected));
+}
+
+/**
+ * Push probability at a whole-number line, using the mean implied by the
+ * no-push Over probability at that line
+ */
+export function estimatePushProbability(
+  statType: string,
+  line: number,
+  overProbability: number
+): number {
+  if (!isWholeLine(line)) return 0;
+
+  const model = getLineModel(statType);
+  const mean = fitMean(model, line, overProbability);
+
+  return probabilityPush(model, mean, line);
+}
@@ -0,0 +1,121 @@
+/**
+ * Line Movement
+ *
+ * Turns a prop's snapshot history into per-book series for charting,
+ * opening vs current numbers, and the large moves worth reacting to
+ * before betting (steam).
+ */
+
+import { convertAmericanToProbability, removeVig } from '@/lib/evCalculator';
+import type { OddsSnapshotRow } from '@/types';
+
+/** A line change of at least this many points counts as a large move */
+export const LARGE_LINE_MOVE = 1;
+
+/** A no-vig Over probability change of at least this counts as a large move */
+export const LARGE_PRICE_MOVE = 0.04;
+
+export type MovementMetric = 'line' | 'price';
+
+export interface MovementPoint {
+  time: number;
+  [sportsbook: string]: number;
+}
+
+export interface BookMovement {
+  sportsbook: string;
+  opening: OddsSnapshotRow;
+  current: OddsSnapshotRow;
+  lineChange: number;
+  /** Change in no-vig Over probability */
+  priceChange: number;
+}
+
+export interface LargeMove {
+  sportsbook: string;
+  time: number;
+  kind: 'line' | 'price';
+  from: number;
+  to: number;
+}
+
+export interface LineMovement {
+  books: string[];
+  points: Record<MovementMetric, MovementPoint[]>;
+  summary: BookMovement[];
+  largeMoves: LargeMove[];
+}
+
+export function noVigOver(row: Pick<OddsSnapshotRow, 'over_odds' | 'under_odds'>): number {
+  return removeVig(
+    convertAmericanToProbability(row.over_odds),
+    convertAmericanToProbability(row.under_odds)
+  ).over;
+}
+
+export function buildLineMovement(rows: OddsSnapshotRow[]): LineMovement {
+  const byBook = new Map<string, OddsSnapshotRow[]>();
+
+  const sorted = rows
+    .filter((row) => row.created_at)
+    .sort((a, b) => Date.parse(a.created_at!) - Date.parse(b.created_at!));
+
+  for (const row of sorted) {
+    if (!byBook.has(row.sportsbook)) {
+      byBook.set(row.sportsbook, []);
+    }
+    byBook.get(row.sportsbook)!.push(row);
+  }
+
+  const linePoints = new Map<number, MovementPoint>();
+  const pricePoints = new Map<number, MovementPoint>();
+  const summary: BookMovement[] = [];
+  const largeMoves: LargeMove[] = [];
+
+  for (const [sportsbook, history] of byBook) {
+    for (let i = 0; i < history.length; i++) {
+      const row = history[i];
+      const time = Date.parse(row.created_at!);
+      const price = noVigOver(row);
+
+      if (!linePoints.has(time)) linePoints.set(time, { time });
+      if (!pricePoints.has(time)) pricePoints.set(time, { time });
+      linePoints.get(time)![sportsbook] = row.line;
+      pricePoints.get(time)![sportsbook] = price;
+
+      if (i === 0) continue;
+
+      const previous = history[i - 1];
+      const previousPrice = noVigOver(previous);
+
+      if (Math.abs(row.line - previous.line) >= LARGE_LINE_MOVE) {
+        largeMoves.push({ sportsbook, time, kind: 'line', from: previous.line, to: row.line });
+      } else if (Math.abs(price - previousPrice) >= LARGE_PRICE_MOVE) {
+        largeMoves.push({ sportsbook, time, kind: 'price', from: previousPrice, to: price });
+      }
+    }
+
+    const opening = history[0];
+    const current = history[history.length - 1];
+
+    summary.push({
+      sportsbook,
+      opening,
+      current,
+      lineChange: current.line - opening.line,
+      priceChange: noVigOver(current) - noVigOver(opening),
+    });
+  }
+
+  const byTime = (a: MovementPoint, b: MovementPoint) => a.time - b.time;
+
+  return {
+    books: [...byBook.keys()],
+    points: {
+      line: [...linePoints.values()].sort(byTime),
+      price: [...pricePoints.values()].sort(byTime),
+    },
+    summary,
+    largeMoves: largeMoves.sort((a, b) => a.time - b.time),
+  };
+}
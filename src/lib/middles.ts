@@ -0,0 +1,184 @@
+/**
+ * Middle Finder
+ *
+ * An Over at a low line at one book and an Under at a higher line at
+ * another both win when the stat lands between the lines. Stakes are
+ * split so either side alone returns the same amount, and the chance
+ * of landing in the window comes from the stat's line model, fitted to
+ * the market consensus for the prop.
+ */
+
+import {
+  calculateMarketConsensus,
+  convertAmericanToDecimal,
+  type DevigMethod,
+} from '@/lib/evCalculator';
+import {
+  fitMean,
+  getLineModel,
+  probabilityOver,
+  probabilityPush,
+  projectOverProbability,
+} from '@/lib/lineModel';
+import type { OddsSnapshotRow } from '@/types';
+
+export interface MiddleSide {
+  sportsbook: string;
+  line: number;
+  odds: number;
+}
+
+export interface MiddleOutcome {
+  /** P(over line < X < under line) */
+  middleProbability: number;
+  /** Share of the total stake on the Over */
+  overStakeShare: number;
+  /** Profit per unit staked when both sides win */
+  middleProfit: number;
+  /** Profit per unit staked when one side wins and the other loses */
+  sideProfit: number;
+  /** Expected profit per unit staked, as a percentage */
+  evPct: number;
+}
+
+export interface MiddleOpportunity extends MiddleOutcome {
+  id: string;
+  player_id: string;
+  player_name: string;
+  sport: string;
+  stat_type: string;
+  game_date: string | null;
+  opponent: string | null;
+  over: MiddleSide;
+  under: MiddleSide;
+  window: number;
+  /** Consensus-implied mean of the stat */
+  projectedMean: number;
+}
+
+export interface MiddleScanOptions {
+  method?: DevigMethod;
+  /** Only keep middles at or above this EV% */
+  minEvPct?: number;
+}
+
+/**
+ * EV of a middle for a stat with the given mean
+ */
+export function calculateMiddle(
+  statType: string,
+  mean: number,
+  over: MiddleSide,
+  under: MiddleSide
+): MiddleOutcome {
+  const model = getLineModel(statType);
+
+  const overDecimal = convertAmericanToDecimal(over.odds);
+  const underDecimal = convertAmericanToDecimal(under.odds);
+
+  // Equal returns from either side: overStake * overDecimal = underStake * underDecimal
+  const overStakeShare = underDecimal / (overDecimal + underDecimal);
+  const underStakeShare = 1 - overStakeShare;
+  const sideReturn = overStakeShare * overDecimal;
+
+  const overPush = probabilityPush(model, mean, over.line);
+  const underPush = probabilityPush(model, mean, under.line);
+  const middleProbability = Math.max(
+    0,
+    probabilityOver(model, mean, over.line) - probabilityOver(model, mean, under.line) - underPush
+  );
+  const oneSideProbability = Math.max(0, 1 - middleProbability - overPush - underPush);
+
+  const middleProfit = 2 * sideReturn - 1;
+  const sideProfit = sideReturn - 1;
+
+  const expected =
+    middleProbability * middleProfit +
+    oneSideProbability * sideProfit +
+    overPush * (overStakeShare + sideProfit) +
+    underPush * (underStakeShare + sideProfit);
+
+  return {
+    middleProbability,
+    overStakeShare,
+    middleProfit,
+    sideProfit,
+    evPct: expected * 100,
+  };
+}
+
+/**
+ * Every cross-book Over-low / Under-high pairing, ranked by EV
+ */
+export function findMiddles(
+  rows: OddsSnapshotRow[],
+  options: MiddleScanOptions = {}
+): MiddleOpportunity[] {
+  const minEvPct = options.minEvPct ?? 0;
+  const props = new Map<string, OddsSnapshotRow[]>();
+
+  for (const row of rows) {
+    const key = `${row.player_id}|${row.stat_type}|${row.game_date ?? ''}`;
+    if (!props.has(key)) {
+      props.set(key, []);
+    }
+    props.get(key)!.push(row);
+  }
+
+  const middles: MiddleOpportunity[] = [];
+
+  for (const [key, books] of props) {
+    const lines = new Set(books.map((book) => book.line));
+    if (lines.size < 2) continue;
+
+    const statType = books[0].stat_type;
+    const anchorLine = books[0].line;
+
+    const consensus = calculateMarketConsensus(
+      books.map((book) => ({
+        sportsbook: book.sportsbook,
+        overOdds: book.over_odds,
+        underOdds: book.under_odds,
+        line: book.line,
+      })),
+      options.method,
+      undefined,
+      {
+        targetLine: anchorLine,
+        projectOver: (overProbability, fromLine) =>
+          projectOverProbability(statType, fromLine, overProbability, anchorLine),
+      }
+    );
+
+    const mean = fitMean(getLineModel(statType), anchorLine, consensus.over);
+
+    for (const low of books) {
+      for (const high of books) {
+        if (high.line <= low.line || high.sportsbook === low.sportsbook) continue;
+
+        const over = { sportsbook: low.sportsbook, line: low.line, odds: low.over_odds };
+        const under = { sportsbook: high.sportsbook, line: high.line, odds: high.under_odds };
+        const outcome = calculateMiddle(statType, mean, over, under);
+
+        if (outcome.evPct < minEvPct) continue;
+
+        middles.push({
+          ...outcome,
+          id: `${key}|${low.sportsbook}|${high.sportsbook}`,
+          player_id: low.player_id,
+          player_name: low.player_name,
+          sport: low.sport,
+          stat_type: statType,
+          game_date: low.game_date ?? null,
+          opponent: low.opponent ?? null,
+          over,
+          under,
+          window: high.line - low.line,
+          projectedMean: mean,
+        });
+      }
+    }
+  }
+
+  return middles.sort((a, b) => b.evPct - a.evPct);
+}
@@ -5,6 +5,9 @@
  * Handles multiple sportsbook formats and missing data safely.
  */
 
+import { getSportByKey, getStatType } from '@/lib/sportsConfig';
+import type { PropRejection } from '@/types';
+
 export interface NormalizedProp {
   playerId: string;
   playerName: string;
@@ -15,6 +18,8 @@ export interface NormalizedProp {
   underOdds: number;
   sportsbook: string;
   timestamp: string;
+  gameDate?: string;
+  opponent?: string;
 }
 
 /**
@@ -38,10 +43,12 @@ interface PrizePicksRawProp {
 }
 
 // Example: The Odds API format
-interface TheOddsApiRawProp {
+export interface TheOddsApiRawProp {
   id?: string;
   sport_key?: string;
   commence_time?: string;
+  home_team?: string;
+  away_team?: string;
   bookmakers?: Array<{
     key?: string;
     title?: string;
@@ -181,28 +188,109 @@ class TheOddsApiNormalizer {
     return normalized;
   }
 
+  /**
+   * Every player's Over/Under pair in an event odds response, for the
+   * markets mapped in the sport config. A book posting several lines
+   * for a player yields one pair per line. Anything that cannot be
+   * paired is pushed onto `rejections`.
+   */
+  normalizeEvent(raw: TheOddsApiRawProp, rejections: PropRejection[] = []): NormalizedProp[] {
+    const normalized: NormalizedProp[] = [];
+    const config = raw.sport_key ? getSportByKey(raw.sport_key) : undefined;
+
+    if (!config) return normalized;
+
+    const opponent =
+      raw.away_team && raw.home_team ? `${raw.away_team} @ ${raw.home_team}` : undefined;
+
+    for (const bookmaker of raw.bookmakers || []) {
+      const sportsbook = this.normalizeSportsbook(bookmaker.key ?? bookmaker.title ?? '');
+
+      for (const market of bookmaker.markets || []) {
+        const reject = (playerName: string | null, reason: string) =>
+          rejections.push({ sportsbook, market: market.key ?? '', player_name: playerName, reason });
+
+        const statType = getStatType(market.key ?? '', config.sport);
+        if (!statType) {
+          reject(null, 'unmapped market');
+          continue;
+        }
+
+        // Keyed by player and line, so alternate lines pair up separately
+        const pairs = new Map<
+          string,
+          { playerName: string; line?: number; overOdds?: number; underOdds?: number }
+        >();
+
+        for (const outcome of market.outcomes || []) {
+          if (!outcome.description) {
+            reject(null, 'outcome without a player');
+            continue;
+          }
+
+          const key = `${outcome.description}|${outcome.point ?? ''}`;
+          if (!pairs.has(key)) {
+            pairs.set(key, { playerName: outcome.description, line: outcome.point });
+          }
+          const pair = pairs.get(key)!;
+
+          if (outcome.name === 'Over') {
+            pair.overOdds = outcome.price;
+          } else if (outcome.name === 'Under') {
+            pair.underOdds = outcome.price;
+          }
+        }
+
+        for (const { playerName, ...player } of pairs.values()) {
+          if (!player.overOdds || !player.underOdds) {
+            reject(playerName, 'missing Over or Under price');
+            continue;
+          }
+          if (!player.line) {
+            reject(playerName, 'missing line');
+            continue;
+          }
+
+          normalized.push({
+            playerId: playerName.toLowerCase().replace(/\s+/g, '-'),
+            playerName,
+            sport: config.sport,
+            statType,
+            line: player.line,
+            overOdds: player.overOdds,
+            underOdds: player.underOdds,
+            sportsbook,
+            timestamp: new Date().toISOString(),
+            gameDate: raw.commence_time,
+            opponent,
+          });
+        }
+      }
+    }
+
+    return normalized;
+  }
+
   private normalizeSport(sportKey: string): string {
-    const sportMap: Record<string, string> = {
-      'basketball_nba': 'NBA',
-      'americanfootball_nfl': 'NFL',
-      'baseball_mlb': 'MLB',
-      'icehockey_nhl': 'NHL',
-      'basketball_wnba': 'WNBA',
-      'soccer_epl': 'Soccer',
-    };
-    return sportMap[sportKey] || sportKey;
+    return getSportByKey(sportKey)?.sport ?? sportKey;
   }
 
   private normalizeStatType(marketKey: string): string {
-    const statMap: Record<string, string> = {
-      'player_points': 'Points',
-      'player_rebounds': 'Rebounds',
-      'player_assists': 'Assists',
-      'player_points_rebounds_assists': 'PRA',
-      'player_pass_yds': 'Passing Yards',
-      'player_rush_yds': 'Rushing Yards',
+    return getStatType(marketKey) ?? marketKey;
+  }
+
+  private normalizeSportsbook(bookmakerKey: string): string {
+    const sportsbookMap: Record<string, string> = {
+      'fanduel': 'FanDuel',
+      'draftkings': 'DraftKings',
+      'betmgm': 'BetMGM',
+      'caesars': 'Caesars',
+      'pointsbetus': 'PointsBet',
+      'prizepicks': 'PrizePicks',
+      'pinnacle': 'Pinnacle',
+      'circasports': 'Circa',
     };
-    return statMap[marketKey] || marketKey;
+    return sportsbookMap[bookmakerKey] || bookmakerKey;
   }
 }
 
@@ -290,6 +378,16 @@ export class OddsNormalizer {
     return this.theOddsApiNormalizer.normalize(raw, playerId, playerName);
   }
 
+  /**
+   * Normalize a full event odds response from The Odds API
+   */
+  normalizeTheOddsApiEvent(
+    raw: TheOddsApiRawProp,
+    rejections?: PropRejection[]
+  ): NormalizedProp[] {
+    return this.theOddsApiNormalizer.normalizeEvent(raw, rejections);
+  }
+
   /**
    * Normalize data from DraftKings
    */
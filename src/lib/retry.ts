@@ -0,0 +1,131 @@
+/**
+ * Retry with Exponential Backoff
+ *
+ * Rate limits (429) and server errors (5xx) are usually transient, so
+ * they are retried with a doubling delay. A 429's Retry-After header
+ * replaces the backoff and is waited out in full, up to its own cap
+ * (maxRetryAfterMs); a longer wait returns the 429 rather than retrying
+ * early. Other 4xx responses are returned as is.
+ */
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_BASE_DELAY_MS = 500;
+export const DEFAULT_MAX_DELAY_MS = 8000;
+export const DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Longest Retry-After waited out before giving up on a 429 */
+  maxRetryAfterMs?: number;
+  /** Called as each attempt starts, including one that ends up throwing */
+  onAttempt?: (attempt: number) => void;
+  /**
+   * Waits for a rate-limit slot before each retried request, so retries
+   * count against the same limit as first attempts (fetchWithRetry only)
+   */
+  acquire?: () => Promise<void>;
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RetriedResponse {
+  response: Response;
+  attempts: number;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based)
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs: number = DEFAULT_MAX_DELAY_MS
+): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Fetch, retrying network errors and 429/5xx responses. The last
+ * response is returned even if it is still an error; a network error
+ * on the last attempt is thrown.
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RetryOptions = {}
+): Promise<RetriedResponse> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    if (attempt > 1) await options.acquire?.();
+    options.onAttempt?.(attempt);
+
+    let response: Response;
+
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      if (attempt >= maxAttempts) throw error;
+      await sleep(backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs));
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= maxAttempts) {
+      return { response, attempts: attempt };
+    }
+
+    const retryAfter = response.status === 429 ? retryAfterMs(response) : null;
+    const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+
+    if (retryAfter !== null && retryAfter > maxRetryAfterMs) {
+      return { response, attempts: attempt };
+    }
+
+    // Release the connection; the body of a response we retry is never read
+    await response.body?.cancel();
+    await sleep(retryAfter ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs));
+  }
+}
+
+/**
+ * Run `fn`, retrying whatever it throws
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    options.onAttempt?.(attempt);
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxAttempts) throw error;
+      await sleep(backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs));
+    }
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Odds Snapshot Selection
+ *
+ * odds_snapshots only gains a row when a book's line or prices change;
+ * an unchanged price just has its last_confirmed_at moved forward. So
+ * a row's price is current from created_at until the next row for the
+ * same (prop, book), and it is fresh as of last_confirmed_at. Pricing
+ * should only ever see each book's current number.
+ *
+ * A (prop, book) holds one line at a time. When a book posts several
+ * lines for a prop in one fetch, only its main line (the most evenly
+ * priced) is stored; the rest are alternates.
+ */
+
+import { convertAmericanToProbability } from '@/lib/evCalculator';
+
+export const DEFAULT_MAX_SNAPSHOT_AGE_MINUTES = 180;
+
+interface SnapshotLike {
+  player_id: string;
+  stat_type: string;
+  sportsbook: string;
+  created_at?: string | null;
+  last_confirmed_at?: string | null;
+  game_date?: string | null;
+}
+
+interface PricedSnapshot extends SnapshotLike {
+  line: number;
+  over_odds: number;
+  under_odds: number;
+}
+
+export interface SnapshotSelectionOptions {
+  /** Drop snapshots older than this; 0 or undefined keeps everything */
+  maxAgeMinutes?: number;
+  /** Drop snapshots for games that have already started */
+  excludeStarted?: boolean;
+  now?: Date;
+}
+
+export function snapshotKey(row: SnapshotLike): string {
+  return `${row.player_id}|${row.stat_type}|${row.game_date ?? ''}|${row.sportsbook}`;
+}
+
+/**
+ * When the book was last seen offering this price
+ */
+function lastSeen(row: SnapshotLike): number {
+  const confirmed = row.last_confirmed_at ?? row.created_at;
+  return confirmed ? Date.parse(confirmed) : NaN;
+}
+
+export function isSamePrice(a: PricedSnapshot, b: PricedSnapshot): boolean {
+  return a.line === b.line && a.over_odds === b.over_odds && a.under_odds === b.under_odds;
+}
+
+/**
+ * Reduces snapshots to the most recent one per (prop, book), after
+ * dropping stale prices and games that are already underway
+ */
+export function selectLatestSnapshots<T extends SnapshotLike>(
+  rows: T[],
+  options: SnapshotSelectionOptions = {}
+): T[] {
+  const now = (options.now ?? new Date()).getTime();
+  const excludeStarted = options.excludeStarted ?? true;
+  const maxAgeMs = options.maxAgeMinutes
+    ? options.maxAgeMinutes * 60 * 1000
+    : Infinity;
+
+  const latest = new Map<string, T>();
+
+  for (const row of rows) {
+    const seenAt = row.created_at ? Date.parse(row.created_at) : NaN;
+    const confirmedAt = lastSeen(row);
+
+    if (!isNaN(confirmedAt) && now - confirmedAt > maxAgeMs) continue;
+
+    if (excludeStarted && row.game_date) {
+      const startsAt = Date.parse(row.game_date);
+      if (!isNaN(startsAt) && startsAt <= now) continue;
+    }
+
+    const key = snapshotKey(row);
+    const current = latest.get(key);
+    const currentSeenAt = current?.created_at ? Date.parse(current.created_at) : -Infinity;
+
+    if (!current || (isNaN(seenAt) ? -Infinity : seenAt) >= currentSeenAt) {
+      latest.set(key, row);
+    }
+  }
+
+  return [...latest.values()];
+}
+
+/**
+ * The closing line: each book's last snapshot taken before its game
+ * started. Snapshots without a game date have no close and are dropped.
+ */
+export function selectClosingSnapshots<T extends SnapshotLike>(rows: T[]): T[] {
+  const preGame = rows.filter(
+    (row) =>
+      row.game_date &&
+      (!row.created_at || Date.parse(row.created_at) <= Date.parse(row.game_date))
+  );
+
+  return selectLatestSnapshots(preGame, { excludeStarted: false });
+}
+
+/**
+ * How far a line's two sides are from an even split; the main line is
+ * the one closest to it
+ */
+function lineImbalance(row: PricedSnapshot): number {
+  return Math.abs(
+    convertAmericanToProbability(row.over_odds) - convertAmericanToProbability(row.under_odds)
+  );
+}
+
+/**
+ * Keeps one line per (prop, book): the most evenly priced, or the first
+ * of equally priced ones
+ */
+export function collapseAlternateLines<T extends PricedSnapshot>(rows: T[]): T[] {
+  const main = new Map<string, T>();
+
+  for (const row of rows) {
+    const key = snapshotKey(row);
+    const current = main.get(key);
+
+    if (!current || lineImbalance(row) < lineImbalance(current)) {
+      main.set(key, row);
+    }
+  }
+
+  return [...main.values()];
+}
+
+export interface SnapshotDiff<S, T> {
+  /** Incoming rows whose price differs from the stored one, or is new */
+  changed: T[];
+  /** Stored rows the incoming prices confirm */
+  confirmed: S[];
+}
+
+/**
+ * Compare freshly fetched prices against each book's latest stored
+ * snapshot, so only changes are written. Alternate lines in `incoming`
+ * are collapsed to the main line first.
+ */
+export function diffSnapshots<S extends PricedSnapshot, T extends PricedSnapshot>(
+  stored: S[],
+  incoming: T[]
+): SnapshotDiff<S, T> {
+  const latest = new Map(
+    selectLatestSnapshots(stored, { excludeStarted: false }).map((row) => [snapshotKey(row), row])
+  );
+
+  const changed: T[] = [];
+  const confirmed: S[] = [];
+
+  for (const row of collapseAlternateLines(incoming)) {
+    const previous = latest.get(snapshotKey(row));
+
+    if (previous && isSamePrice(previous, row)) {
+      confirmed.push(previous);
+    } else {
+      changed.push(row);
+    }
+  }
+
+  return { changed, confirmed };
+}
+
+export interface CompactionUpdate {
+  id: string;
+  last_confirmed_at: string;
+  is_closing: boolean;
+}
+
+export interface CompactionPlan {
+  /** Repeats of the previous price for the same (prop, book) */
+  deleteIds: string[];
+  /** Kept rows that absorb their repeats' confirmation time and closing flag */
+  updates: CompactionUpdate[];
+}
+
+/**
+ * Collapse each run of identical consecutive prices for a (prop, book)
+ * into its first row, as change-only storage would have written it
+ */
+export function planCompaction<
+  T extends PricedSnapshot & { id?: string; is_closing?: boolean | null }
+>(rows: T[]): CompactionPlan {
+  const byKey = new Map<string, T[]>();
+
+  for (const row of rows) {
+    if (!row.id || !row.created_at) continue;
+
+    const key = snapshotKey(row);
+    if (!byKey.has(key)) {
+      byKey.set(key, []);
+    }
+    byKey.get(key)!.push(row);
+  }
+
+  const deleteIds: string[] = [];
+  const updates: CompactionUpdate[] = [];
+
+  for (const history of byKey.values()) {
+    history.sort((a, b) => Date.parse(a.created_at!) - Date.parse(b.created_at!));
+
+    let kept = history[0];
+    let update: CompactionUpdate | null = null;
+
+    for (const row of history.slice(1)) {
+      if (!isSamePrice(kept, row)) {
+        if (update) updates.push(update);
+        kept = row;
+        update = null;
+        continue;
+      }
+
+      deleteIds.push(row.id!);
+      update = {
+        id: kept.id!,
+        last_confirmed_at: row.last_confirmed_at ?? row.created_at!,
+        is_closing: Boolean(update?.is_closing || kept.is_closing || row.is_closing),
+      };
+    }
+
+    if (update) updates.push(update);
+  }
+
+  return { deleteIds, updates };
+}
@@ -0,0 +1,103 @@
+/**
+ * Sport Configuration
+ *
+ * Which sports the odds pipeline fetches, their Odds API sport keys, and
+ * how each player-prop market maps onto our stat types.
+ */
+
+import type { Sport, StatType } from '@/types';
+
+export interface SportConfig {
+  sport: Sport;
+  /** The Odds API sport key */
+  sportKey: string;
+  /** Odds API market key -> stat type */
+  markets: Record<string, StatType>;
+  enabled: boolean;
+}
+
+const BASKETBALL_MARKETS: Record<string, StatType> = {
+  player_points: 'Points',
+  player_rebounds: 'Rebounds',
+  player_assists: 'Assists',
+  player_threes: '3-Pointers',
+  player_blocks: 'Blocks',
+  player_steals: 'Steals',
+  player_points_rebounds_assists: 'PRA',
+};
+
+export const SPORT_CONFIGS: Record<Sport, SportConfig> = {
+  NBA: {
+    sport: 'NBA',
+    sportKey: 'basketball_nba',
+    markets: BASKETBALL_MARKETS,
+    enabled: true,
+  },
+  WNBA: {
+    sport: 'WNBA',
+    sportKey: 'basketball_wnba',
+    markets: BASKETBALL_MARKETS,
+    enabled: true,
+  },
+  NFL: {
+    sport: 'NFL',
+    sportKey: 'americanfootball_nfl',
+    markets: {
+      player_pass_yds: 'Passing Yards',
+      player_rush_yds: 'Rushing Yards',
+    },
+    enabled: true,
+  },
+  MLB: {
+    sport: 'MLB',
+    sportKey: 'baseball_mlb',
+    markets: {
+      pitcher_strikeouts: 'Strikeouts',
+      batter_hits: 'Hits',
+    },
+    enabled: true,
+  },
+  NHL: {
+    sport: 'NHL',
+    sportKey: 'icehockey_nhl',
+    markets: {
+      player_points: 'Points',
+      player_goals: 'Goals',
+      player_total_saves: 'Saves',
+    },
+    enabled: true,
+  },
+  // No over/under player markets mapped yet
+  Soccer: {
+    sport: 'Soccer',
+    sportKey: 'soccer_epl',
+    markets: {},
+    enabled: false,
+  },
+};
+
+export function getEnabledSports(): SportConfig[] {
+  return Object.values(SPORT_CONFIGS).filter(
+    (config) => config.enabled && Object.keys(config.markets).length > 0
+  );
+}
+
+export function getSportByKey(sportKey: string): SportConfig | undefined {
+  return Object.values(SPORT_CONFIGS).find((config) => config.sportKey === sportKey);
+}
+
+/**
+ * Stat type for a market key, preferring the given sport's mapping
+ */
+export function getStatType(marketKey: string, sport?: Sport): StatType | undefined {
+  if (sport) {
+    const mapped = SPORT_CONFIGS[sport].markets[marketKey];
+    if (mapped) return mapped;
+  }
+
+  for (const config of Object.values(SPORT_CONFIGS)) {
+    if (config.markets[marketKey]) return config.markets[marketKey];
+  }
+
+  return undefined;
+}
@@ -4,3 +4,15 @@ export const supabase = createClient(
   import.meta.env.VITE_SUPABASE_URL!,
   import.meta.env.VITE_SUPABASE_ANON_KEY!
 );
+
+/**
+ * Bets belong to the signed-in user; a browser without an account is
+ * signed in anonymously, so its ledger stays private to it
+ */
+export async function ensureSession(): Promise<void> {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return;
+
+  const { error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+}
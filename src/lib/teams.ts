@@ -0,0 +1,225 @@
+/**
+ * Team Names
+ *
+ * Odds feeds name teams in full ("New York Knicks") while box scores
+ * often use abbreviations ("NYK") or nicknames ("Knicks"). Each team is
+ * listed with its full name first, followed by the other names and
+ * abbreviations sources commonly use for it.
+ */
+
+const NBA_TEAMS = [
+  ['Atlanta Hawks', 'ATL'],
+  ['Boston Celtics', 'BOS'],
+  ['Brooklyn Nets', 'BKN', 'BRK'],
+  ['Charlotte Hornets', 'CHA', 'CHO'],
+  ['Chicago Bulls', 'CHI'],
+  ['Cleveland Cavaliers', 'CLE'],
+  ['Dallas Mavericks', 'DAL'],
+  ['Denver Nuggets', 'DEN'],
+  ['Detroit Pistons', 'DET'],
+  ['Golden State Warriors', 'GSW', 'GS'],
+  ['Houston Rockets', 'HOU'],
+  ['Indiana Pacers', 'IND'],
+  ['Los Angeles Clippers', 'LA Clippers', 'LAC'],
+  ['Los Angeles Lakers', 'LAL'],
+  ['Memphis Grizzlies', 'MEM'],
+  ['Miami Heat', 'MIA'],
+  ['Milwaukee Bucks', 'MIL'],
+  ['Minnesota Timberwolves', 'MIN'],
+  ['New Orleans Pelicans', 'NOP', 'NO'],
+  ['New York Knicks', 'NYK', 'NY'],
+  ['Oklahoma City Thunder', 'OKC'],
+  ['Orlando Magic', 'ORL'],
+  ['Philadelphia 76ers', 'PHI'],
+  ['Phoenix Suns', 'PHX', 'PHO'],
+  ['Portland Trail Blazers', 'POR'],
+  ['Sacramento Kings', 'SAC'],
+  ['San Antonio Spurs', 'SAS', 'SA'],
+  ['Toronto Raptors', 'TOR'],
+  ['Utah Jazz', 'UTA'],
+  ['Washington Wizards', 'WAS'],
+];
+
+const WNBA_TEAMS = [
+  ['Atlanta Dream', 'ATL'],
+  ['Chicago Sky', 'CHI'],
+  ['Connecticut Sun', 'CON'],
+  ['Dallas Wings', 'DAL'],
+  ['Golden State Valkyries', 'GSV', 'GS'],
+  ['Indiana Fever', 'IND'],
+  ['Las Vegas Aces', 'LVA', 'LV'],
+  ['Los Angeles Sparks', 'LAS', 'LA'],
+  ['Minnesota Lynx', 'MIN'],
+  ['New York Liberty', 'NYL', 'NY'],
+  ['Phoenix Mercury', 'PHX', 'PHO'],
+  ['Portland Fire', 'POR'],
+  ['Seattle Storm', 'SEA'],
+  ['Toronto Tempo', 'TOR'],
+  ['Washington Mystics', 'WAS'],
+];
+
+const NFL_TEAMS = [
+  ['Arizona Cardinals', 'ARI'],
+  ['Atlanta Falcons', 'ATL'],
+  ['Baltimore Ravens', 'BAL'],
+  ['Buffalo Bills', 'BUF'],
+  ['Carolina Panthers', 'CAR'],
+  ['Chicago Bears', 'CHI'],
+  ['Cincinnati Bengals', 'CIN'],
+  ['Cleveland Browns', 'CLE'],
+  ['Dallas Cowboys', 'DAL'],
+  ['Denver Broncos', 'DEN'],
+  ['Detroit Lions', 'DET'],
+  ['Green Bay Packers', 'GB', 'GNB'],
+  ['Houston Texans', 'HOU'],
+  ['Indianapolis Colts', 'IND'],
+  ['Jacksonville Jaguars', 'JAX', 'JAC'],
+  ['Kansas City Chiefs', 'KC', 'KAN'],
+  ['Las Vegas Raiders', 'LV', 'LVR'],
+  ['Los Angeles Chargers', 'LAC'],
+  ['Los Angeles Rams', 'LAR', 'LA'],
+  ['Miami Dolphins', 'MIA'],
+  ['Minnesota Vikings', 'MIN'],
+  ['New England Patriots', 'NE', 'NWE'],
+  ['New Orleans Saints', 'NO', 'NOR'],
+  ['New York Giants', 'NYG'],
+  ['New York Jets', 'NYJ'],
+  ['Philadelphia Eagles', 'PHI'],
+  ['Pittsburgh Steelers', 'PIT'],
+  ['San Francisco 49ers', 'SF', 'SFO'],
+  ['Seattle Seahawks', 'SEA'],
+  ['Tampa Bay Buccaneers', 'TB', 'TAM'],
+  ['Tennessee Titans', 'TEN'],
+  ['Washington Commanders', 'WAS', 'WSH'],
+];
+
+const MLB_TEAMS = [
+  ['Arizona Diamondbacks', 'ARI', 'AZ'],
+  ['Athletics', 'Oakland Athletics', 'ATH', 'OAK'],
+  ['Atlanta Braves', 'ATL'],
+  ['Baltimore Orioles', 'BAL'],
+  ['Boston Red Sox', 'BOS'],
+  ['Chicago Cubs', 'CHC'],
+  ['Chicago White Sox', 'CWS', 'CHW'],
+  ['Cincinnati Reds', 'CIN'],
+  ['Cleveland Guardians', 'CLE'],
+  ['Colorado Rockies', 'COL'],
+  ['Detroit Tigers', 'DET'],
+  ['Houston Astros', 'HOU'],
+  ['Kansas City Royals', 'KC', 'KCR'],
+  ['Los Angeles Angels', 'LAA'],
+  ['Los Angeles Dodgers', 'LAD'],
+  ['Miami Marlins', 'MIA'],
+  ['Milwaukee Brewers', 'MIL'],
+  ['Minnesota Twins', 'MIN'],
+  ['New York Mets', 'NYM'],
+  ['New York Yankees', 'NYY'],
+  ['Philadelphia Phillies', 'PHI'],
+  ['Pittsburgh Pirates', 'PIT'],
+  ['San Diego Padres', 'SD', 'SDP'],
+  ['San Francisco Giants', 'SF', 'SFG'],
+  ['Seattle Mariners', 'SEA'],
+  ['St. Louis Cardinals', 'STL'],
+  ['Tampa Bay Rays', 'TB', 'TBR'],
+  ['Texas Rangers', 'TEX'],
+  ['Toronto Blue Jays', 'TOR'],
+  ['Washington Nationals', 'WSH', 'WAS'],
+];
+
+const NHL_TEAMS = [
+  ['Anaheim Ducks', 'ANA'],
+  ['Boston Bruins', 'BOS'],
+  ['Buffalo Sabres', 'BUF'],
+  ['Calgary Flames', 'CGY'],
+  ['Carolina Hurricanes', 'CAR'],
+  ['Chicago Blackhawks', 'CHI'],
+  ['Colorado Avalanche', 'COL'],
+  ['Columbus Blue Jackets', 'CBJ'],
+  ['Dallas Stars', 'DAL'],
+  ['Detroit Red Wings', 'DET'],
+  ['Edmonton Oilers', 'EDM'],
+  ['Florida Panthers', 'FLA'],
+  ['Los Angeles Kings', 'LAK', 'LA'],
+  ['Minnesota Wild', 'MIN'],
+  ['Montréal Canadiens', 'MTL'],
+  ['Nashville Predators', 'NSH'],
+  ['New Jersey Devils', 'NJD', 'NJ'],
+  ['New York Islanders', 'NYI'],
+  ['New York Rangers', 'NYR'],
+  ['Ottawa Senators', 'OTT'],
+  ['Philadelphia Flyers', 'PHI'],
+  ['Pittsburgh Penguins', 'PIT'],
+  ['San Jose Sharks', 'SJS', 'SJ'],
+  ['Seattle Kraken', 'SEA'],
+  ['St. Louis Blues', 'STL'],
+  ['Tampa Bay Lightning', 'TBL', 'TB'],
+  ['Toronto Maple Leafs', 'TOR'],
+  ['Utah Mammoth', 'Utah Hockey Club', 'UTA'],
+  ['Vancouver Canucks', 'VAN'],
+  ['Vegas Golden Knights', 'VGK'],
+  ['Washington Capitals', 'WSH'],
+  ['Winnipeg Jets', 'WPG'],
+];
+
+/**
+ * Lower case, accents and punctuation dropped, words single-spaced
+ */
+function normalizeTeamName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const TEAMS = [...NBA_TEAMS, ...WNBA_TEAMS, ...NFL_TEAMS, ...MLB_TEAMS, ...NHL_TEAMS].map(
+  (names) => names.map(normalizeTeamName)
+);
+
+/** Normalized name or abbreviation -> every team it can stand for */
+const TEAMS_BY_NAME = new Map<string, string[][]>();
+for (const team of TEAMS) {
+  for (const name of team) {
+    TEAMS_BY_NAME.set(name, [...(TEAMS_BY_NAME.get(name) || []), team]);
+  }
+}
+
+/**
+ * Whether `short` is the last words of `long`, e.g. a nickname
+ */
+function endsWithWords(long: string, short: string): boolean {
+  const longWords = long.split(' ');
+  const shortWords = short.split(' ');
+
+  return (
+    shortWords.length < longWords.length &&
+    shortWords.every((word, i) => word === longWords[longWords.length - shortWords.length + i])
+  );
+}
+
+/**
+ * Whether two names refer to the same team: equal once normalized, an
+ * abbreviation of the same team, or one the other's nickname. Words are
+ * compared whole, so "LA" never matches "Atlanta".
+ */
+export function isSameTeam(a: string, b: string): boolean {
+  const first = normalizeTeamName(a);
+  const second = normalizeTeamName(b);
+  if (!first || !second) return false;
+  if (first === second) return true;
+
+  const firstTeams = TEAMS_BY_NAME.get(first) || [];
+  const secondTeams = TEAMS_BY_NAME.get(second) || [];
+  if (firstTeams.some((team) => secondTeams.includes(team))) return true;
+
+  // Fall back to the names themselves for teams we do not list
+  const fullNames = (name: string, teams: string[][]) =>
+    teams.length > 0 ? teams.map((team) => team[0]) : [name];
+
+  return (
+    fullNames(first, firstTeams).some((full) => endsWithWords(full, second)) ||
+    fullNames(second, secondTeams).some((full) => endsWithWords(full, first))
+  );
+}
@@ -1,5 +1,36 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import {
+  createOddsRepository,
+  resolveDataBackend,
+  setOddsRepository,
+} from "./services/oddsRepository";
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = createRoot(document.getElementById("root")!);
+
+// resolveDataBackend throws synchronously, so it runs inside the chain
+Promise.resolve()
+  .then(() =>
+    createOddsRepository(
+      resolveDataBackend(import.meta.env.VITE_DATA_BACKEND),
+      import.meta.env.VITE_LOCAL_DATA_URL
+    )
+  )
+  .then((repository) => {
+    setOddsRepository(repository);
+    root.render(<App />);
+  })
+  .catch((error) => {
+    console.error("Failed to start:", error);
+    root.render(
+      <div className="flex min-h-screen items-center justify-center p-6">
+        <div className="max-w-md space-y-2 text-center">
+          <h1 className="text-lg font-semibold">The dashboard could not start</h1>
+          <p className="text-sm text-muted-foreground">
+            {error instanceof Error ? error.message : String(error)}
+          </p>
+        </div>
+      </div>
+    );
+  });
@@ -0,0 +1,238 @@
+import { useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+  ReferenceLine,
+} from 'recharts';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useBets, useSetBetStatus } from '@/hooks/useBets';
+import { buildProfitCurve, summarizeBets } from '@/lib/betLedger';
+import { formatEV, formatOdds, formatStake } from '@/lib/evCalculator';
+import { cn } from '@/lib/utils';
+import type { Bet, BetStatus } from '@/types';
+
+const SETTLE_OPTIONS: Array<{ value: BetStatus; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'push', label: 'Push' },
+  { value: 'void', label: 'Void' },
+];
+
+function formatProfit(profit: number): string {
+  return `${profit >= 0 ? '+' : '-'}${formatStake(Math.abs(profit))}`;
+}
+
+function describeBet(bet: Bet): string {
+  return bet.legs
+    .map((leg) => `${leg.player_name} ${leg.direction} ${leg.line} ${leg.stat_type}`)
+    .join(' • ');
+}
+
+function BetRow({ bet }: { bet: Bet }) {
+  const setStatus = useSetBetStatus();
+
+  return (
+    <tr className="border-b border-border last:border-0">
+      <td className="px-3 py-2 text-xs text-muted-foreground">
+        {format(new Date(bet.placed_at), 'MMM d')}
+      </td>
+      <td className="px-3 py-2">
+        {bet.kind === 'parlay' && (
+          <Badge variant="secondary" className="mr-2 text-[10px]">{bet.legs.length}-leg</Badge>
+        )}
+        <span className="text-sm">{describeBet(bet)}</span>
+      </td>
+      <td className="px-3 py-2 text-sm">{bet.sportsbook}</td>
+      <td className="px-3 py-2 text-right font-mono text-sm">{formatOdds(bet.odds)}</td>
+      <td className="px-3 py-2 text-right font-mono text-sm">{formatStake(bet.stake)}</td>
+      <td className="px-3 py-2 text-right font-mono text-sm">{formatEV(bet.ev_pct)}</td>
+      <td
+        className={cn(
+          'px-3 py-2 text-right font-mono text-sm',
+          bet.profit !== null && (bet.profit >= 0 ? 'text-ev-positive' : 'text-ev-negative')
+        )}
+      >
+        {bet.profit !== null ? formatProfit(bet.profit) : '—'}
+      </td>
+      <td className="px-3 py-2 text-right">
+        <Select
+          value={bet.status}
+          onValueChange={(status) => setStatus.mutate({ bet, status: status as BetStatus })}
+        >
+          <SelectTrigger className="ml-auto h-7 w-24 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SETTLE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </td>
+    </tr>
+  );
+}
+
+function BetTable({ title, bets }: { title: string; bets: Bet[] }) {
+  return (
+    <div>
+      <h3 className="mb-2 text-sm font-semibold">{title}</h3>
+      {bets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">None yet.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border bg-secondary/30 text-xs text-muted-foreground">
+                <th className="px-3 py-2 text-left">Placed</th>
+                <th className="px-3 py-2 text-left">Bet</th>
+                <th className="px-3 py-2 text-left">Book</th>
+                <th className="px-3 py-2 text-right">Odds</th>
+                <th className="px-3 py-2 text-right">Stake</th>
+                <th className="px-3 py-2 text-right">EV</th>
+                <th className="px-3 py-2 text-right">P&amp;L</th>
+                <th className="px-3 py-2 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bets.map((bet) => (
+                <BetRow key={bet.id} bet={bet} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const Bets = () => {
+  const { data: bets = [], isLoading, error } = useBets();
+
+  // Force dark mode
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+  }, []);
+
+  const summary = useMemo(() => summarizeBets(bets), [bets]);
+  const profitCurve = useMemo(() => buildProfitCurve(bets), [bets]);
+  const openBets = bets.filter((bet) => bet.status === 'open');
+  const settledBets = bets.filter((bet) => bet.status !== 'open');
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <DashboardHeader />
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-lg">Loading bets...</div>
+        </div>
+      ) : error ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="text-lg text-red-500 mb-4">Error loading bets</div>
+            <div className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Please try again'}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 px-4 py-4 md:px-6">
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Open Bets</p>
+              <p className="text-xl font-bold font-mono">{summary.openBets}</p>
+              <p className="text-[10px] text-muted-foreground">{formatStake(summary.openStake)} at risk</p>
+            </div>
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Settled P&amp;L</p>
+              <p
+                className={cn(
+                  'text-xl font-bold font-mono',
+                  summary.profit >= 0 ? 'text-ev-positive' : 'text-ev-negative'
+                )}
+              >
+                {formatProfit(summary.profit)}
+              </p>
+              <p className="text-[10px] text-muted-foreground">{summary.settledBets} settled</p>
+            </div>
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">ROI</p>
+              <p className="text-xl font-bold font-mono">
+                {summary.roi !== null ? formatEV(summary.roi * 100) : '—'}
+              </p>
+              <p className="text-[10px] text-muted-foreground">on {formatStake(summary.settledStake)}</p>
+            </div>
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Expected vs Actual</p>
+              <p className="text-xl font-bold font-mono">{formatProfit(summary.expectedProfit)}</p>
+              <p className="text-[10px] text-muted-foreground">
+                {formatProfit(summary.profit - summary.expectedProfit)} vs expectation
+              </p>
+            </div>
+          </div>
+
+          {profitCurve.length > 0 && (
+            <div className="h-64 w-full rounded-lg border border-border p-2">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={profitCurve}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="settled_at"
+                    tick={{ fontSize: 10 }}
+                    tickFormatter={(v) => format(new Date(v), 'MMM d')}
+                  />
+                  <YAxis tick={{ fontSize: 10 }} />
+                  <Tooltip
+                    labelFormatter={(v) => format(new Date(v), 'MMM d, h:mm a')}
+                    formatter={(value: number) => formatProfit(value)}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <ReferenceLine y={0} strokeDasharray="4 4" />
+                  <Line
+                    type="stepAfter"
+                    dataKey="profit"
+                    name="Actual"
+                    stroke="hsl(var(--primary))"
+                    dot={false}
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey="expected"
+                    name="Expected"
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <BetTable title="Open Bets" bets={openBets} />
+          <BetTable title="Settled Bets" bets={settledBets} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Bets;
@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { ReliabilityDiagram } from '@/components/dashboard/ReliabilityDiagram';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCalibrationSamples } from '@/hooks/useCalibration';
+import {
+  buildConfidenceModel,
+  MAX_CONFIDENCE_BOOKS,
+  summarizeCalibration,
+  type CalibrationSample,
+} from '@/lib/calibration';
+import { DEVIG_METHOD_LABELS, type DevigMethod } from '@/lib/evCalculator';
+
+type Grouping = 'method' | 'sport' | 'stat';
+
+const GROUP_KEYS: Record<Grouping, (sample: CalibrationSample) => string> = {
+  method: (s) => DEVIG_METHOD_LABELS[s.method],
+  sport: (s) => s.sport,
+  stat: (s) => s.stat_type,
+};
+
+const DIAGRAM_SERIES = 5;
+
+const devigMethods = Object.keys(DEVIG_METHOD_LABELS) as DevigMethod[];
+
+const Calibration = () => {
+  const { data: samples = [], isLoading, error } = useCalibrationSamples();
+  const [grouping, setGrouping] = useState<Grouping>('method');
+  const [method, setMethod] = useState<DevigMethod>('multiplicative');
+
+  // Force dark mode
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+  }, []);
+
+  const methodSamples = useMemo(
+    () => samples.filter((s) => s.method === method),
+    [samples, method]
+  );
+
+  // Sport and stat splits are shown for one devig method at a time
+  const summaries = useMemo(
+    () =>
+      summarizeCalibration(
+        grouping === 'method' ? samples : methodSamples,
+        GROUP_KEYS[grouping]
+      ),
+    [samples, methodSamples, grouping]
+  );
+
+  const confidenceModel = useMemo(() => buildConfidenceModel(methodSamples), [methodSamples]);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <DashboardHeader />
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-lg">Loading graded props...</div>
+        </div>
+      ) : error ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="text-lg text-red-500 mb-4">Error loading calibration</div>
+            <div className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Please try again'}
+            </div>
+          </div>
+        </div>
+      ) : samples.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-sm text-muted-foreground">
+            No graded props with two or more books yet. Import box scores with the ingestion worker to grade props.
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 px-4 py-4 md:px-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Tabs value={grouping} onValueChange={(v) => setGrouping(v as Grouping)}>
+              <TabsList>
+                <TabsTrigger value="method">By Devig Method</TabsTrigger>
+                <TabsTrigger value="sport">By Sport</TabsTrigger>
+                <TabsTrigger value="stat">By Stat</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <Select value={method} onValueChange={(v) => setMethod(v as DevigMethod)}>
+              <SelectTrigger className="h-9 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {devigMethods.map((m) => (
+                  <SelectItem key={m} value={m}>{DEVIG_METHOD_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ReliabilityDiagram summaries={summaries.slice(0, DIAGRAM_SERIES)} />
+
+          <div className="rounded-lg border border-border overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border bg-secondary/30 text-xs text-muted-foreground">
+                  <th className="px-3 py-2 text-left">Group</th>
+                  <th className="px-3 py-2 text-right">Samples</th>
+                  <th className="px-3 py-2 text-right">Brier</th>
+                  <th className="px-3 py-2 text-right">Log-Loss</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map((summary) => (
+                  <tr key={summary.key} className="border-b border-border last:border-0">
+                    <td className="px-3 py-2 font-medium">{summary.key}</td>
+                    <td className="px-3 py-2 text-right font-mono">{summary.count}</td>
+                    <td className="px-3 py-2 text-right font-mono">{summary.brier.toFixed(4)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{summary.logLoss.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="mb-1 text-sm font-semibold">Empirical Confidence</h3>
+            <p className="mb-2 text-xs text-muted-foreground">
+              Share of the predicted edge over each book's own no-vig price that showed up in
+              results ({DEVIG_METHOD_LABELS[method]}). Used as the confidence score when
+              "Calibrated conf." is on.
+            </p>
+            <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+              {Array.from({ length: MAX_CONFIDENCE_BOOKS }, (_, i) => i + 1).map((books) => (
+                <div key={books} className="rounded-lg border border-border p-2 text-center">
+                  <p className="text-[10px] text-muted-foreground">
+                    {books}
+                    {books === MAX_CONFIDENCE_BOOKS ? '+' : ''} book{books === 1 ? '' : 's'}
+                  </p>
+                  <p className="font-mono text-sm font-bold">
+                    {confidenceModel.byBooks[books] !== undefined
+                      ? Math.round(confidenceModel.byBooks[books] * 100)
+                      : '—'}
+                  </p>
+                </div>
+              ))}
+              <div className="rounded-lg border border-border p-2 text-center">
+                <p className="text-[10px] text-muted-foreground">Overall</p>
+                <p className="font-mono text-sm font-bold">
+                  {confidenceModel.overall !== null ? Math.round(confidenceModel.overall * 100) : '—'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Calibration;
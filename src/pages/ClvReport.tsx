@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from 'react';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { ClvAggregateTable } from '@/components/dashboard/ClvAggregateTable';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useClvReport } from '@/hooks/useClvReport';
+import { aggregateClv, formatCents, formatClvPct } from '@/lib/clv';
+import { formatOdds, formatProbability } from '@/lib/evCalculator';
+import { cn } from '@/lib/utils';
+
+const RECENT_ENTRIES = 50;
+
+const ClvReport = () => {
+  const { data: entries = [], isLoading, error } = useClvReport();
+
+  // Force dark mode
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+  }, []);
+
+  const byBook = useMemo(() => aggregateClv(entries, (e) => e.sportsbook), [entries]);
+  const bySport = useMemo(() => aggregateClv(entries, (e) => e.sport), [entries]);
+  const byStat = useMemo(() => aggregateClv(entries, (e) => e.stat_type), [entries]);
+  const bySource = useMemo(
+    () => aggregateClv(entries, (e) => (e.source === 'bet' ? 'Bets' : 'Surfaced')),
+    [entries]
+  );
+  const [overall] = useMemo(() => aggregateClv(entries, () => 'All'), [entries]);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <DashboardHeader />
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-lg">Loading CLV report...</div>
+        </div>
+      ) : error ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="text-lg text-red-500 mb-4">Error loading CLV report</div>
+            <div className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Please try again'}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 px-4 py-4 md:px-6">
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Closed Edges</p>
+              <p className="text-xl font-bold font-mono">{entries.length}</p>
+            </div>
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Avg Cents</p>
+              <p className="text-xl font-bold font-mono">{formatCents(overall?.avgCents ?? null)}</p>
+            </div>
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Avg No-Vig CLV</p>
+              <p
+                className={cn(
+                  'text-xl font-bold font-mono',
+                  overall && (overall.avgProbabilityClv > 0 ? 'text-ev-positive' : 'text-ev-negative')
+                )}
+              >
+                {overall ? formatClvPct(overall.avgProbabilityClv) : '—'}
+              </p>
+            </div>
+            <div className="rounded-lg border border-border p-2.5">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Beat Close</p>
+              <p className="text-xl font-bold font-mono">
+                {overall ? formatProbability(overall.beatCloseRate) : '—'}
+              </p>
+            </div>
+          </div>
+
+          <Tabs defaultValue="book">
+            <TabsList>
+              <TabsTrigger value="book">By Book</TabsTrigger>
+              <TabsTrigger value="sport">By Sport</TabsTrigger>
+              <TabsTrigger value="stat">By Stat</TabsTrigger>
+              <TabsTrigger value="source">By Source</TabsTrigger>
+            </TabsList>
+            <TabsContent value="book">
+              <ClvAggregateTable label="Book" aggregates={byBook} />
+            </TabsContent>
+            <TabsContent value="sport">
+              <ClvAggregateTable label="Sport" aggregates={bySport} />
+            </TabsContent>
+            <TabsContent value="stat">
+              <ClvAggregateTable label="Stat" aggregates={byStat} />
+            </TabsContent>
+            <TabsContent value="source">
+              <ClvAggregateTable label="Source" aggregates={bySource} />
+            </TabsContent>
+          </Tabs>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold">Recent Closed Edges</h3>
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border bg-secondary/30 text-xs text-muted-foreground">
+                    <th className="px-3 py-2 text-left">Player</th>
+                    <th className="px-3 py-2 text-left">Stat</th>
+                    <th className="px-3 py-2 text-left">Book</th>
+                    <th className="px-3 py-2 text-right">Taken</th>
+                    <th className="px-3 py-2 text-right">Close</th>
+                    <th className="px-3 py-2 text-right">Cents</th>
+                    <th className="px-3 py-2 text-right">Close No-Vig</th>
+                    <th className="px-3 py-2 text-right">CLV</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.slice(0, RECENT_ENTRIES).map((entry) => (
+                    <tr key={`${entry.source}-${entry.id}`} className="border-b border-border last:border-0">
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{entry.player_name}</span>
+                        <Badge variant="secondary" className="ml-2 text-[10px]">{entry.sport}</Badge>
+                        {entry.source === 'bet' && (
+                          <Badge variant="outline" className="ml-1 text-[10px]">Bet</Badge>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">{entry.stat_type}</td>
+                      <td className="px-3 py-2">{entry.sportsbook}</td>
+                      <td className="px-3 py-2 text-right font-mono">
+                        {entry.direction} {entry.line} ({formatOdds(entry.odds)})
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono text-muted-foreground">
+                        {entry.clv.closingOdds !== null
+                          ? `${entry.clv.closingLine} (${formatOdds(entry.clv.closingOdds)})`
+                          : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{formatCents(entry.clv.cents)}</td>
+                      <td className="px-3 py-2 text-right font-mono">
+                        {formatProbability(entry.clv.closingProbability)}
+                      </td>
+                      <td
+                        className={cn(
+                          'px-3 py-2 text-right font-mono',
+                          entry.clv.probabilityClv > 0 ? 'text-ev-positive' : 'text-ev-negative'
+                        )}
+                      >
+                        {formatClvPct(entry.clv.probabilityClv)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClvReport;
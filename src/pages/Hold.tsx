@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+} from 'recharts';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCurrentMarkets, useHoldHistory } from '@/hooks/useHold';
+import { formatOdds } from '@/lib/evCalculator';
+import { aggregateHold, buildHoldSeries, rankByHold } from '@/lib/hold';
+import {
+  DEFAULT_HOLD_HISTORY_DAYS,
+  holdHistoryStart,
+  type HoldHistoryRow,
+} from '@/services/holdService';
+
+type Grouping = 'book' | 'sport' | 'stat';
+
+const GROUP_KEYS: Record<Grouping, (row: HoldHistoryRow) => string> = {
+  book: (row) => row.sportsbook,
+  sport: (row) => row.sport,
+  stat: (row) => row.stat_type,
+};
+
+const GROUP_LABELS: Record<Grouping, string> = {
+  book: 'Book',
+  sport: 'Sport',
+  stat: 'Stat',
+};
+
+const LOWEST_HOLD_LIMIT = 50;
+
+const SERIES_COLORS = [
+  'hsl(142 70% 45%)',
+  'hsl(217 91% 60%)',
+  'hsl(38 92% 50%)',
+  'hsl(280 65% 60%)',
+  'hsl(0 72% 51%)',
+  'hsl(180 60% 45%)',
+  'hsl(330 80% 60%)',
+];
+
+function formatHold(hold: number): string {
+  return `${hold.toFixed(2)}%`;
+}
+
+const Hold = () => {
+  const [grouping, setGrouping] = useState<Grouping>('book');
+  const { data: markets = [], isLoading: marketsLoading } = useCurrentMarkets();
+  const { data: history = [], isLoading: historyLoading } = useHoldHistory();
+
+  // Force dark mode
+  useEffect(() => {
+    document.documentElement.classList.add('dark');
+  }, []);
+
+  const lowestHold = useMemo(() => rankByHold(markets, LOWEST_HOLD_LIMIT), [markets]);
+  const aggregates = useMemo(() => aggregateHold(history, GROUP_KEYS[grouping]), [history, grouping]);
+  const series = useMemo(
+    () => buildHoldSeries(history, GROUP_KEYS[grouping], holdHistoryStart()),
+    [history, grouping]
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <DashboardHeader />
+
+      <div className="space-y-6 px-4 py-4 md:px-6">
+        <section>
+          <h3 className="mb-2 text-sm font-semibold">Lowest-Hold Markets Now</h3>
+          {marketsLoading ? (
+            <p className="text-xs text-muted-foreground">Loading markets...</p>
+          ) : lowestHold.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No current markets.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border bg-secondary/30 text-xs text-muted-foreground">
+                    <th className="px-3 py-2 text-left">Player</th>
+                    <th className="px-3 py-2 text-left">Stat</th>
+                    <th className="px-3 py-2 text-left">Book</th>
+                    <th className="px-3 py-2 text-right">Line</th>
+                    <th className="px-3 py-2 text-right">Over / Under</th>
+                    <th className="px-3 py-2 text-right">Hold</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lowestHold.map((market) => (
+                    <tr
+                      key={`${market.player_id}-${market.stat_type}-${market.sportsbook}`}
+                      className="border-b border-border last:border-0"
+                    >
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{market.player_name}</span>
+                        <Badge variant="secondary" className="ml-2 text-[10px]">{market.sport}</Badge>
+                      </td>
+                      <td className="px-3 py-2">{market.stat_type}</td>
+                      <td className="px-3 py-2">{market.sportsbook}</td>
+                      <td className="px-3 py-2 text-right font-mono">{market.line}</td>
+                      <td className="px-3 py-2 text-right font-mono">
+                        {formatOdds(market.over_odds)} / {formatOdds(market.under_odds)}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono font-semibold">
+                        {formatHold(market.hold)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section>
+          <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-sm font-semibold">
+              Average Hold, Last {DEFAULT_HOLD_HISTORY_DAYS} Days
+            </h3>
+            <Tabs value={grouping} onValueChange={(v) => setGrouping(v as Grouping)}>
+              <TabsList>
+                <TabsTrigger value="book">By Book</TabsTrigger>
+                <TabsTrigger value="sport">By Sport</TabsTrigger>
+                <TabsTrigger value="stat">By Stat</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {historyLoading ? (
+            <p className="text-xs text-muted-foreground">Loading history...</p>
+          ) : aggregates.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No snapshots in this window.</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="h-64 w-full rounded-lg border border-border p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={series.points}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tick={{ fontSize: 10 }} tickFormatter={(v) => v.slice(5)} />
+                    <YAxis tick={{ fontSize: 10 }} tickFormatter={(v) => `${v}%`} />
+                    <Tooltip formatter={(value: number) => formatHold(value)} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {series.keys.map((key, i) => (
+                      <Line
+                        key={key}
+                        type="monotone"
+                        dataKey={key}
+                        stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="rounded-lg border border-border overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border bg-secondary/30 text-xs text-muted-foreground">
+                      <th className="px-3 py-2 text-left">{GROUP_LABELS[grouping]}</th>
+                      <th className="px-3 py-2 text-right">Snapshots</th>
+                      <th className="px-3 py-2 text-right">Avg Hold</th>
+                      <th className="px-3 py-2 text-right">Lowest</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aggregates.map((row) => (
+                      <tr key={row.key} className="border-b border-border last:border-0">
+                        <td className="px-3 py-2 font-medium">{row.key}</td>
+                        <td className="px-3 py-2 text-right font-mono">{row.count}</td>
+                        <td className="px-3 py-2 text-right font-mono">{formatHold(row.avgHold)}</td>
+                        <td className="px-3 py-2 text-right font-mono">{formatHold(row.minHold)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Hold;
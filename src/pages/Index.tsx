@@ -5,7 +5,17 @@ import { StatsBar } from '@/components/dashboard/StatsBar';
 import { EVTable } from '@/components/dashboard/EVTable';
 import { PlayerDetailModal } from '@/components/dashboard/PlayerDetailModal';
 import { ParlayBuilder } from '@/components/dashboard/ParlayBuilder';
+import { LogBetDialog } from '@/components/dashboard/LogBetDialog';
+import { ArbitrageTable } from '@/components/dashboard/ArbitrageTable';
+import { MiddlesTable } from '@/components/dashboard/MiddlesTable';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useEVCalculations } from '@/hooks/useEVCalculations';
+import { useBankrollSettings } from '@/hooks/useBankrollSettings';
+import { useConfidenceModel } from '@/hooks/useCalibration';
+import { useArbitrages } from '@/hooks/useArbitrages';
+import { useMiddles } from '@/hooks/useMiddles';
+import { parlayBetDraft, straightBetDraft, type BetDraft } from '@/lib/betLedger';
+import { calculateKellyStake, convertAmericanToDecimal } from '@/lib/evCalculator';
 import type { EVCalculation, DashboardFilters } from '@/types';
 
 const Index = () => {
@@ -14,24 +24,53 @@ const Index = () => {
     statType: 'All',
     minEV: 0,
     search: '',
+    devigMethod: 'multiplicative',
+    consensusWeighting: 'equal',
+    leaveOneOut: false,
+    lineShopping: false,
+    empiricalConfidence: false,
     sortBy: 'ev_pct',
     sortDir: 'desc',
   });
 
   const [selectedEV, setSelectedEV] = useState<EVCalculation | null>(null);
   const [parlayLegs, setParlayLegs] = useState<EVCalculation[]>([]);
+  const [bankrollSettings, setBankrollSettings] = useBankrollSettings();
+  const [betDraft, setBetDraft] = useState<BetDraft | null>(null);
+  const [activeTab, setActiveTab] = useState('ev');
 
   // Force dark mode
   useEffect(() => {
     document.documentElement.classList.add('dark');
   }, []);
 
+  const { data: confidenceModel } = useConfidenceModel(
+    filters.devigMethod,
+    filters.empiricalConfidence
+  );
+
   // Fetch real data from Supabase (replaces mock data)
   const { data: allData = [], isLoading, error } = useEVCalculations({
     sport: filters.sport,
     minEV: filters.minEV,
+    devigMethod: filters.devigMethod,
+    consensusWeighting: filters.consensusWeighting,
+    leaveOneOut: filters.leaveOneOut,
+    lineShopping: filters.lineShopping,
+    confidenceModel: filters.empiricalConfidence ? confidenceModel : undefined,
   });
 
+  const { data: arbitrages = [], isLoading: arbsLoading } = useArbitrages(
+    filters.sport,
+    activeTab === 'arbs'
+  );
+
+  const { data: middles = [], isLoading: middlesLoading } = useMiddles(
+    filters.sport,
+    filters.devigMethod,
+    activeTab === 'middles'
+  );
+
   // IMPORTANT: useMemo must be ABOVE early returns (hooks order issue fix)
   const filteredData = useMemo(() => {
     let result = [...allData];
@@ -99,11 +138,24 @@ const Index = () => {
 
   const parlayIds = new Set(parlayLegs.map((l) => l.id));
 
+  const logStraightBet = (ev: EVCalculation) => {
+    const stake = calculateKellyStake(
+      ev.true_prob,
+      convertAmericanToDecimal(ev.best_odds),
+      bankrollSettings,
+      ev.confidence_score / 100
+    );
+    setBetDraft(straightBetDraft(ev, stake));
+  };
+
   // Loading state
   if (isLoading) {
     return (
       <div className="flex min-h-screen flex-col bg-background">
-        <DashboardHeader />
+        <DashboardHeader
+          bankrollSettings={bankrollSettings}
+          onBankrollSettingsChange={setBankrollSettings}
+        />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-lg">Loading odds data...</div>
         </div>
@@ -115,7 +167,10 @@ const Index = () => {
   if (error) {
     return (
       <div className="flex min-h-screen flex-col bg-background">
-        <DashboardHeader />
+        <DashboardHeader
+          bankrollSettings={bankrollSettings}
+          onBankrollSettingsChange={setBankrollSettings}
+        />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
             <div className="text-lg text-red-500 mb-4">Error loading data</div>
@@ -130,26 +185,57 @@ const Index = () => {
 
   return (
     <div className="flex min-h-screen flex-col bg-background">
-      <DashboardHeader />
+      <DashboardHeader
+        bankrollSettings={bankrollSettings}
+        onBankrollSettingsChange={setBankrollSettings}
+      />
       <Filters filters={filters} onChange={setFilters} />
       <StatsBar data={filteredData} />
-      <div className="flex-1 overflow-hidden">
-        <EVTable
-          data={filteredData}
-          filters={filters}
-          onSort={handleSort}
-          onSelectPlayer={setSelectedEV}
-          onAddToParlay={toggleParlay}
-          parlayIds={parlayIds}
-        />
-      </div>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 overflow-hidden">
+        <div className="border-b border-border px-4 py-2 md:px-6">
+          <TabsList>
+            <TabsTrigger value="ev">+EV</TabsTrigger>
+            <TabsTrigger value="arbs">
+              Arbitrage{arbitrages.length > 0 ? ` (${arbitrages.length})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="middles">
+              Middles{middles.length > 0 ? ` (${middles.length})` : ''}
+            </TabsTrigger>
+          </TabsList>
+        </div>
+
+        <TabsContent value="ev" className="mt-0">
+          <EVTable
+            data={filteredData}
+            filters={filters}
+            onSort={handleSort}
+            onSelectPlayer={setSelectedEV}
+            onAddToParlay={toggleParlay}
+            onLogBet={logStraightBet}
+            parlayIds={parlayIds}
+            bankrollSettings={bankrollSettings}
+          />
+        </TabsContent>
+
+        <TabsContent value="arbs" className="mt-0">
+          <ArbitrageTable data={arbitrages} isLoading={arbsLoading} />
+        </TabsContent>
+
+        <TabsContent value="middles" className="mt-0">
+          <MiddlesTable data={middles} isLoading={middlesLoading} />
+        </TabsContent>
+      </Tabs>
 
       <ParlayBuilder
         legs={parlayLegs}
         onRemove={(id) => setParlayLegs((p) => p.filter((l) => l.id !== id))}
         onClear={() => setParlayLegs([])}
+        onLogBet={(stake) => setBetDraft(parlayBetDraft(parlayLegs, stake))}
+        bankrollSettings={bankrollSettings}
       />
 
+      <LogBetDialog draft={betDraft} onClose={() => setBetDraft(null)} />
+
       <PlayerDetailModal
         ev={selectedEV}
         open={!!selectedEV}
@@ -0,0 +1,93 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { startOfUtcDay } from "@/lib/creditBudget";
+import { planCompaction } from "@/lib/snapshots";
+import type { OddsRepository, SnapshotQuery } from "@/services/oddsRepository";
+import type { Sport } from "@/types";
+
+/**
+ * One-off compaction of odds_snapshots history written before
+ * change-only storage: repeats of a book's previous price are deleted,
+ * and the row they repeat takes over their confirmation time and
+ * closing flag. Run by the worker (src/worker/compact.ts).
+ *
+ * History is read and compacted one UTC game day at a time, so memory
+ * stays bounded however large the table has grown. A game date is part
+ * of every (prop, book) key, so no history spans two batches.
+ */
+
+const UPDATE_CONCURRENCY = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CompactSnapshotsOptions {
+  repository: OddsRepository;
+  sport?: Sport;
+  /** Report what would change without writing */
+  dryRun?: boolean;
+}
+
+export interface CompactionResult {
+  scanned: number;
+  deleted: number;
+  updated: number;
+}
+
+/**
+ * One query per UTC game day in the stored range, then one for rows
+ * without a game date
+ */
+async function compactionBatches(
+  repository: OddsRepository,
+  sport?: Sport
+): Promise<SnapshotQuery[]> {
+  const range = await repository.getSnapshotGameDateRange(sport);
+  const queries: SnapshotQuery[] = [];
+
+  if (range) {
+    const last = Date.parse(range.last);
+
+    for (let day = startOfUtcDay(new Date(range.first)).getTime(); day <= last; day += DAY_MS) {
+      queries.push({
+        sport,
+        gameDateFrom: new Date(day).toISOString(),
+        gameDateBefore: new Date(day + DAY_MS).toISOString(),
+      });
+    }
+  }
+
+  return [...queries, { sport, noGameDate: true }];
+}
+
+export async function compactSnapshots({
+  repository,
+  sport,
+  dryRun = false,
+}: CompactSnapshotsOptions): Promise<CompactionResult> {
+  const result = { scanned: 0, deleted: 0, updated: 0 };
+
+  for (const query of await compactionBatches(repository, sport)) {
+    const rows = await repository.findSnapshots(query);
+    if (rows.length === 0) continue;
+
+    const plan = planCompaction(rows);
+    result.scanned += rows.length;
+    result.deleted += plan.deleteIds.length;
+    result.updated += plan.updates.length;
+
+    if (dryRun) continue;
+
+    // Update the kept rows first so a failed delete never loses a closing flag
+    await mapWithConcurrency(
+      plan.updates,
+      (update) =>
+        repository.updateSnapshots([update.id], {
+          last_confirmed_at: update.last_confirmed_at,
+          is_closing: update.is_closing,
+        }),
+      { concurrency: UPDATE_CONCURRENCY }
+    );
+
+    await repository.deleteSnapshots(plan.deleteIds);
+  }
+
+  return result;
+}
@@ -1,4 +1,48 @@
-import { supabase } from "@/lib/supabaseClient";
+import {
+  creditsAvailable,
+  DEFAULT_DAILY_CREDIT_CAP,
+  estimateEventCost,
+  estimateRefreshCost,
+  parseCreditHeaders,
+  planRefresh,
+  startOfUtcDay,
+  type CreditState,
+  type CreditUsage,
+} from "@/lib/creditBudget";
+import { createRateLimiter, mapWithConcurrency } from "@/lib/concurrency";
+import { calculateHold } from "@/lib/hold";
+import {
+  oddsNormalizer,
+  type NormalizedProp,
+  type TheOddsApiRawProp,
+} from "@/lib/oddsNormalizer";
+import {
+  fetchWithRetry,
+  withRetry,
+  type RetryOptions,
+} from "@/lib/retry";
+import { diffSnapshots, selectClosingSnapshots } from "@/lib/snapshots";
+import {
+  getEnabledSports,
+  SPORT_CONFIGS,
+  type SportConfig,
+} from "@/lib/sportsConfig";
+import type { OddsRepository } from "@/services/oddsRepository";
+import type {
+  EventIngestionReport,
+  IngestionRun,
+  OddsSnapshotRow,
+  Sport,
+  SportFetchResult,
+} from "@/types";
+
+/**
+ * Server-side odds ingestion, run by the ingestion worker
+ * (src/worker/ingest.ts). It needs the Odds API key, so the browser
+ * must never import it.
+ */
+
+export const ODDS_API_BASE_URL = 'https://api.the-odds-api.com/v4';
 
 const TARGET_BOOKS = [
   'fanduel',
@@ -7,182 +51,676 @@ const TARGET_BOOKS = [
   'caesars',
   'pointsbetus',
   'prizepicks',
+  'pinnacle',
+  'circasports',
 ].join(',');
 
-const NBA_MARKETS = [
-  'player_points',
-  'player_rebounds',
-  'player_assists',
-  'player_threes',
-  'player_blocks',
-  'player_steals',
-  'player_points_rebounds_assists',
-].join(',');
+const REGIONS = ['us'];
 
 const CACHE_WINDOW_MINUTES = 30;
 
-export async function fetchOdds() {
+export const DEFAULT_EVENT_CONCURRENCY = 4;
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+/**
+ * How far back the pipeline looks for started games to close out
+ */
+const CLOSING_LOOKBACK_HOURS = 48;
+
+export interface FetchOddsOptions {
+  apiKey: string;
+  /** Defaults to the live API; point at the stand-in for dev and tests */
+  baseUrl?: string;
+  /** Where snapshots and runs are stored; needs write access */
+  repository: OddsRepository;
+  /** Defaults to every enabled sport */
+  sports?: Sport[];
+  /** Most credits to spend per UTC day */
+  dailyCreditCap?: number;
+  /** Backoff for 429/5xx responses and failed inserts */
+  retry?: RetryOptions;
+  /** Events fetched at once */
+  concurrency?: number;
+  /** Most event requests started per second */
+  requestsPerSecond?: number;
+  /** Called once the run is planned, before any credits are spent */
+  onPlan?: (plan: IngestionPlan) => void;
+  /** Called as each event completes */
+  onProgress?: (progress: IngestionProgress) => void;
+  /** Injectable for tests; games that started before this are not fetched */
+  now?: Date;
+}
+
+export interface IngestionPlan {
+  /** Events to fetch this run */
+  events: number;
+  /** Events deferred to stay within the credit budget */
+  deferred: number;
+  /** Events already underway */
+  started: number;
+  estimatedCredits: number;
+}
+
+export interface IngestionProgress {
+  completed: number;
+  total: number;
+  event: EventIngestionReport;
+}
+
+interface OddsApiTarget {
+  apiKey: string;
+  baseUrl: string;
+  retry?: RetryOptions;
+  /** Rate limiter shared by every request and retry in the run */
+  acquire?: () => Promise<void>;
+}
+
+interface OddsApiEvent {
+  id: string;
+  commence_time: string;
+  home_team?: string;
+  away_team?: string;
+}
+
+interface PlannedEvent extends OddsApiEvent {
+  config: SportConfig;
+}
+
+/**
+ * Fetch and store props for the given sports. Sports fetched within the
+ * cache window are skipped, and the events to fetch are planned against
+ * the daily credit cap. Planned events are fetched in parallel, and
+ * every run is recorded in ingestion_runs with live progress.
+ */
+export async function fetchOdds({
+  apiKey,
+  baseUrl = ODDS_API_BASE_URL,
+  repository,
+  sports,
+  dailyCreditCap = DEFAULT_DAILY_CREDIT_CAP,
+  retry,
+  concurrency = DEFAULT_EVENT_CONCURRENCY,
+  requestsPerSecond = DEFAULT_REQUESTS_PER_SECOND,
+  onPlan,
+  onProgress,
+  now = new Date(),
+}: FetchOddsOptions) {
+  const api: OddsApiTarget = {
+    apiKey,
+    baseUrl,
+    retry,
+    acquire: requestsPerSecond > 0 ? createRateLimiter(requestsPerSecond) : undefined,
+  };
+  const runId = crypto.randomUUID();
+  const startedAt = new Date().toISOString();
+  const configs = sports
+    ? sports.map((sport) => SPORT_CONFIGS[sport])
+    : getEnabledSports();
+
+  const results = new Map<Sport, SportFetchResult>();
+  const candidates: PlannedEvent[] = [];
+  let credits: CreditUsage = { used: null, remaining: null, last: null };
+
+  // Event listings are free, so list every sport before spending anything
+  for (const config of configs) {
+    const listing = await listSportEvents(repository, api, config);
+    results.set(config.sport, listing.summary);
+    candidates.push(...listing.events.map((event) => ({ ...event, config })));
+    credits = mergeCredits(credits, listing.credits);
+  }
+
+  let creditState: CreditState;
+
+  // Without today's spend the cap cannot be enforced, so spend nothing
   try {
-    // Check latest snapshot
-    const { data: recentSnapshot } = await supabase
-      .from('odds_snapshots')
-      .select('created_at')
-      .eq('sport', 'NBA')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (recentSnapshot) {
-      const lastFetch = new Date(recentSnapshot.created_at);
-      const minutesSinceLastFetch =
-        (Date.now() - lastFetch.getTime()) / (1000 * 60);
-
-      if (minutesSinceLastFetch < CACHE_WINDOW_MINUTES) {
-        return {
-          success: true,
-          cached: true,
-          message: `Using cached odds from ${Math.round(
-            minutesSinceLastFetch
-          )} min ago.`,
-          nextRefreshIn: Math.round(
-            CACHE_WINDOW_MINUTES - minutesSinceLastFetch
-          ),
-        };
+    creditState = await getCreditState(repository, dailyCreditCap);
+  } catch (error) {
+    return {
+      success: false,
+      cached: false,
+      message: 'Failed to fetch odds',
+      error: `Could not read today's credit usage: ${errorMessage(error)}`,
+      sports: [...results.values()],
+    };
+  }
+  creditState.remaining = credits.remaining ?? creditState.remaining;
+
+  const plan = planRefresh(
+    candidates,
+    (event) => estimateEventCost(Object.keys(event.config.markets).length, REGIONS.length),
+    creditsAvailable(creditState),
+    now
+  );
+
+  for (const event of plan.started) {
+    const summary = results.get(event.config.sport)!;
+    summary.eventsStarted++;
+    summary.events.push({
+      ...eventReport(event),
+      status: 'skipped',
+      error: 'Already started',
+    });
+  }
+
+  for (const event of plan.skipped) {
+    const summary = results.get(event.config.sport)!;
+    summary.eventsSkipped++;
+    summary.events.push({
+      ...eventReport(event),
+      status: 'skipped',
+      error: 'Deferred to stay within the credit budget',
+    });
+  }
+
+  for (const config of configs) {
+    results.get(config.sport)!.creditsEstimated = estimateRefreshCost(
+      plan.events.filter((event) => event.config.sport === config.sport).length,
+      Object.keys(config.markets).length,
+      REGIONS.length
+    );
+  }
+
+  onPlan?.({
+    events: plan.events.length,
+    deferred: plan.skipped.length,
+    started: plan.started.length,
+    estimatedCredits: plan.estimatedCost,
+  });
+
+  // Spend is only counted against the cap through this row, so spend
+  // nothing if it cannot be written
+  try {
+    await repository.insertRun({
+      id: runId,
+      status: 'running',
+      started_at: startedAt,
+      finished_at: null,
+      events_total: plan.events.length,
+      events_completed: 0,
+      sports: [...results.values()],
+      games_processed: 0,
+      props_stored: 0,
+      events_failed: 0,
+      credits_estimated: plan.estimatedCost,
+      credits_spent: 0,
+      credits_used: credits.used,
+      credits_remaining: credits.remaining,
+      error: null,
+    });
+  } catch (error) {
+    return {
+      success: false,
+      cached: false,
+      message: 'Failed to fetch odds',
+      error: `Could not record the ingestion run: ${errorMessage(error)}`,
+      sports: [...results.values()],
+    };
+  }
+
+  // Progress writes are chained so a slow write never lands out of order,
+  // and carry the spend so far so a run that dies mid-way is still counted
+  let progressWrite = Promise.resolve();
+  let spentSoFar = 0;
+
+  let ingested: Awaited<ReturnType<typeof ingestEvent>>[];
+
+  try {
+    ingested = await mapWithConcurrency(
+      plan.events,
+      (event) => ingestEvent(repository, api, event),
+      {
+        concurrency,
+        acquire: api.acquire,
+        onProgress: (completed, total, _event, result) => {
+          spentSoFar += result.creditsSpent;
+          const patch = { events_completed: completed, credits_spent: spentSoFar };
+          progressWrite = progressWrite.then(() => updateRun(repository, runId, patch));
+          onProgress?.({ completed, total, event: result.report });
+        },
       }
+    );
+  } catch (error) {
+    // Never leave the run looking like it is still in progress
+    await progressWrite;
+    await updateRun(repository, runId, {
+      status: 'finished',
+      finished_at: new Date().toISOString(),
+      error: `Run aborted: ${errorMessage(error)}`,
+    });
+    throw error;
+  }
+
+  await progressWrite;
+
+  plan.events.forEach((event, i) => {
+    const summary = results.get(event.config.sport)!;
+    const { report } = ingested[i];
+
+    credits = mergeCredits(credits, ingested[i].credits);
+    summary.creditsSpent += ingested[i].creditsSpent;
+    summary.propsStored += report.props_stored;
+    summary.events.push(report);
+
+    if (report.status === 'stored' || report.status === 'empty') {
+      summary.gamesProcessed++;
     }
+  });
 
-    const eventsResponse = await fetch(
-      `https://api.the-odds-api.com/v4/sports/basketball_nba/events?apiKey=${import.meta.env.VITE_ODDS_API_KEY}`
-    );
+  for (const summary of results.values()) {
+    const attempted = summary.events.filter((event) => event.status !== 'skipped');
 
-    if (!eventsResponse.ok) {
-      throw new Error('Failed to fetch events');
+    if (attempted.length > 0 && attempted.every((event) => event.status === 'failed')) {
+      summary.error = `All ${attempted.length} events failed`;
+    } else if (plan.blocked && summary.eventsSkipped > 0) {
+      summary.error = `Daily credit cap reached (${creditState.spentToday}/${dailyCreditCap} spent)`;
     }
+  }
 
-    const events = await eventsResponse.json();
-    const creditsRemaining =
-      eventsResponse.headers.get('x-requests-remaining');
+  // Games that have tipped since the last refresh now have a close
+  try {
+    await markClosingLines(repository, now);
+  } catch (error) {
+    console.error('Error marking closing lines:', error);
+  }
 
-    let totalPropsStored = 0;
+  const summaries = [...results.values()];
+  const fetched = summaries.filter((r) => !r.cached && !r.error);
+  const failed = summaries.filter((r) => r.error);
+  const gamesProcessed = fetched.reduce((sum, r) => sum + r.gamesProcessed, 0);
+  const propsStored = fetched.reduce((sum, r) => sum + r.propsStored, 0);
+  const creditsSpent = summaries.reduce((sum, r) => sum + r.creditsSpent, 0);
+  const eventsFailed = summaries.reduce(
+    (sum, r) => sum + r.events.filter((event) => event.status === 'failed').length,
+    0
+  );
+  const error =
+    failed.length > 0
+      ? failed.map((r) => `${r.sport}: ${r.error}`).join('; ')
+      : null;
 
-    for (const event of events) {
-      const propsResponse = await fetch(
-        `https://api.the-odds-api.com/v4/sports/basketball_nba/events/${event.id}/odds?` +
-          `apiKey=${import.meta.env.VITE_ODDS_API_KEY}&regions=us&markets=${NBA_MARKETS}&oddsFormat=american&bookmakers=${TARGET_BOOKS}`
-      );
+  await updateRun(repository, runId, {
+    status: 'finished',
+    finished_at: new Date().toISOString(),
+    sports: summaries,
+    games_processed: gamesProcessed,
+    props_stored: propsStored,
+    events_failed: eventsFailed,
+    credits_spent: creditsSpent,
+    credits_used: credits.used,
+    credits_remaining: credits.remaining,
+    error,
+  });
 
-      if (!propsResponse.ok) continue;
+  const started = summaries.reduce((sum, r) => sum + r.eventsStarted, 0);
 
-      const propsData = await propsResponse.json();
-      const stored = await storePropsForGame(propsData, event);
-      totalPropsStored += stored;
-    }
+  if (fetched.length === 0 && failed.length === 0) {
+    const nextRefreshIn = Math.min(...summaries.map((r) => r.nextRefreshIn ?? 0));
 
     return {
       success: true,
-      cached: false,
-      message: 'Successfully fetched fresh odds!',
-      gamesProcessed: events.length,
-      propsStored: totalPropsStored,
-      creditsRemaining,
+      cached: true,
+      message: `Using cached odds (next refresh in ${nextRefreshIn} min).`,
+      nextRefreshIn,
+      sports: summaries,
     };
-  } catch (error) {
+  }
+
+  if (fetched.length === 0) {
     return {
       success: false,
       cached: false,
       message: 'Failed to fetch odds',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error,
+      sports: summaries,
+    };
+  }
+
+  // Nothing was fetched, so this is never a fresh-odds success
+  if (plan.events.length === 0) {
+    return {
+      success: failed.length === 0,
+      cached: false,
+      message: `No upcoming games to fetch (${started} already started).`,
+      error,
+      gamesProcessed: 0,
+      propsStored: 0,
+      eventsFailed: 0,
+      creditsSpent: 0,
+      creditsRemaining: credits.remaining,
+      sports: summaries,
     };
   }
+
+  return {
+    success: true,
+    cached: false,
+    message: 'Successfully fetched fresh odds!',
+    gamesProcessed,
+    propsStored,
+    eventsFailed,
+    creditsSpent,
+    creditsRemaining: credits.remaining,
+    sports: summaries,
+  };
 }
 
 /**
- * 🚀 OPTIMIZED VERSION
- * Bulk inserts all props in one query instead of one-by-one
+ * Flag each book's last pre-game snapshot for recently started games
+ * as its closing line. Returns the number of snapshots flagged.
  */
-async function storePropsForGame(
-  propsData: any,
-  event: any
+export async function markClosingLines(
+  repository: OddsRepository,
+  now: Date = new Date()
 ): Promise<number> {
-  const rows: any[] = [];
+  const since = new Date(now.getTime() - CLOSING_LOOKBACK_HOURS * 60 * 60 * 1000);
 
-  for (const bookmaker of propsData.bookmakers || []) {
-    for (const market of bookmaker.markets || []) {
-      const playerMap: Record<string, any> = {};
+  const rows = await repository.findSnapshots({
+    gameDateFrom: since.toISOString(),
+    gameDateBefore: now.toISOString(),
+  });
 
-      for (const outcome of market.outcomes || []) {
-        const playerName = outcome.description;
+  const closingIds = selectClosingSnapshots(rows)
+    .filter((row) => !row.is_closing && row.id)
+    .map((row) => row.id!);
 
-        if (!playerMap[playerName]) {
-          playerMap[playerName] = { name: playerName };
-        }
+  if (closingIds.length === 0) return 0;
 
-        if (outcome.name === 'Over') {
-          playerMap[playerName].overOdds = outcome.price;
-          playerMap[playerName].line = outcome.point;
-        } else if (outcome.name === 'Under') {
-          playerMap[playerName].underOdds = outcome.price;
-        }
-      }
+  await repository.updateSnapshots(closingIds, { is_closing: true });
+  return closingIds.length;
+}
 
-      for (const player of Object.values(playerMap)) {
-        if (!player.overOdds || !player.underOdds || !player.line) continue;
-
-        rows.push({
-          player_id: player.name
-            .toLowerCase()
-            .replace(/\s+/g, '-'),
-          player_name: player.name,
-          sport: 'NBA',
-          stat_type: normalizeMarket(market.key),
-          line: player.line,
-          sportsbook: normalizeSportsbook(bookmaker.key),
-          over_odds: player.overOdds,
-          under_odds: player.underOdds,
-          game_date: event.commence_time,
-          opponent: `${event.away_team} @ ${event.home_team}`,
-        });
-      }
+async function listSportEvents(
+  repository: OddsRepository,
+  api: OddsApiTarget,
+  config: SportConfig
+): Promise<{ summary: SportFetchResult; events: OddsApiEvent[]; credits?: CreditUsage }> {
+  const summary: SportFetchResult = {
+    sport: config.sport,
+    cached: false,
+    gamesProcessed: 0,
+    propsStored: 0,
+    eventsSkipped: 0,
+    eventsStarted: 0,
+    creditsEstimated: 0,
+    creditsSpent: 0,
+    events: [],
+  };
+
+  // Check latest snapshot; unchanged prices only move last_confirmed_at
+  let lastSnapshotTime: string | null;
+
+  try {
+    lastSnapshotTime = await repository.getLastSnapshotTime(config.sport);
+  } catch (error) {
+    // Without it we might refetch odds we already have, so skip the sport
+    return {
+      summary: { ...summary, error: `Could not check cached odds: ${errorMessage(error)}` },
+      events: [],
+    };
+  }
+
+  if (lastSnapshotTime) {
+    const lastFetch = new Date(lastSnapshotTime);
+    const minutesSinceLastFetch =
+      (Date.now() - lastFetch.getTime()) / (1000 * 60);
+
+    if (minutesSinceLastFetch < CACHE_WINDOW_MINUTES) {
+      return {
+        summary: {
+          ...summary,
+          cached: true,
+          nextRefreshIn: Math.round(
+            CACHE_WINDOW_MINUTES - minutesSinceLastFetch
+          ),
+        },
+        events: [],
+      };
     }
   }
 
-  if (rows.length === 0) return 0;
+  let eventsResponse: Response;
+
+  try {
+    ({ response: eventsResponse } = await fetchWithRetry(
+      `${api.baseUrl}/sports/${config.sportKey}/events?apiKey=${api.apiKey}`,
+      { ...api.retry, acquire: api.acquire }
+    ));
+  } catch (error) {
+    return { summary: { ...summary, error: `Failed to fetch events: ${errorMessage(error)}` }, events: [] };
+  }
+
+  if (!eventsResponse.ok) {
+    return {
+      summary: { ...summary, error: `Failed to fetch events (HTTP ${eventsResponse.status})` },
+      events: [],
+    };
+  }
 
-  const { error } = await supabase
-    .from('odds_snapshots')
-    .insert(rows);
+  const credits = parseCreditHeaders(eventsResponse.headers);
+  let events: OddsApiEvent[];
 
-  if (error) {
-    console.error('Bulk insert error:', error);
-    return 0;
+  try {
+    events = await eventsResponse.json();
+    if (!Array.isArray(events)) throw new Error('not a list of events');
+  } catch (error) {
+    return {
+      summary: { ...summary, error: `Invalid events response: ${errorMessage(error)}` },
+      events: [],
+      credits,
+    };
   }
 
-  return rows.length;
+  return { summary, events, credits };
 }
 
-function normalizeMarket(k: string): string {
-  const map: Record<string, string> = {
-    player_points: 'Points',
-    player_rebounds: 'Rebounds',
-    player_assists: 'Assists',
-    player_threes: '3-Pointers',
-    player_blocks: 'Blocks',
-    player_steals: 'Steals',
-    player_points_rebounds_assists: 'PRA',
+function eventReport(event: PlannedEvent): EventIngestionReport {
+  return {
+    event_id: event.id,
+    commence_time: event.commence_time,
+    matchup:
+      event.away_team && event.home_team ? `${event.away_team} @ ${event.home_team}` : null,
+    status: 'failed',
+    attempts: 0,
+    store_retries: 0,
+    error: null,
+    props_parsed: 0,
+    props_stored: 0,
+    props_confirmed: 0,
+    rejections: [],
   };
+}
+
+/**
+ * Fetch, normalize and store one event's props, retrying transient
+ * failures. Never throws: every outcome ends up in the report.
+ */
+async function ingestEvent(
+  repository: OddsRepository,
+  api: OddsApiTarget,
+  event: PlannedEvent
+): Promise<{ report: EventIngestionReport; credits?: CreditUsage; creditsSpent: number }> {
+  const report = eventReport(event);
+  const markets = Object.keys(event.config.markets).join(',');
+  const url =
+    `${api.baseUrl}/sports/${event.config.sportKey}/events/${event.id}/odds?` +
+    `apiKey=${api.apiKey}&regions=${REGIONS.join(',')}&markets=${markets}&oddsFormat=american&bookmakers=${TARGET_BOOKS}`;
 
-  return map[k] || k;
+  let response: Response;
+
+  try {
+    ({ response } = await fetchWithRetry(url, {
+      ...api.retry,
+      acquire: api.acquire,
+      onAttempt: (attempt) => {
+        report.attempts = attempt;
+      },
+    }));
+  } catch (error) {
+    report.error = errorMessage(error);
+    return { report, creditsSpent: 0 };
+  }
+
+  const credits = parseCreditHeaders(response.headers);
+  const creditsSpent = response.ok
+    ? credits.last ??
+      estimateEventCost(Object.keys(event.config.markets).length, REGIONS.length)
+    : credits.last ?? 0;
+
+  if (!response.ok) {
+    report.error = `HTTP ${response.status}`;
+    return { report, credits, creditsSpent };
+  }
+
+  let propsData: TheOddsApiRawProp;
+
+  try {
+    propsData = await response.json();
+  } catch (error) {
+    report.error = `Invalid response: ${errorMessage(error)}`;
+    return { report, credits, creditsSpent };
+  }
+
+  const props = oddsNormalizer.normalizeTheOddsApiEvent(propsData, report.rejections);
+  report.props_parsed = props.length;
+
+  if (props.length === 0) {
+    report.status = 'empty';
+    return { report, credits, creditsSpent };
+  }
+
+  try {
+    const { stored, confirmed } = await storeProps(repository, props, {
+      ...api.retry,
+      onAttempt: (attempt) => {
+        if (attempt > 1) report.store_retries++;
+      },
+    });
+    report.props_stored = stored;
+    report.props_confirmed = confirmed;
+    report.status = 'stored';
+  } catch (error) {
+    report.error = `Insert failed: ${errorMessage(error)}`;
+  }
+
+  return { report, credits, creditsSpent };
+}
+
+/**
+ * Credits spent so far today and the last known account balance
+ */
+async function getCreditState(
+  repository: OddsRepository,
+  dailyCap: number
+): Promise<CreditState> {
+  const runs = await repository.findRunsSince(startOfUtcDay().toISOString());
+
+  return {
+    dailyCap,
+    spentToday: runs.reduce((sum, run) => sum + (run.credits_spent ?? 0), 0),
+    remaining: runs[0]?.credits_remaining ?? null,
+  };
 }
 
-function normalizeSportsbook(k: string): string {
-  const map: Record<string, string> = {
-    fanduel: 'FanDuel',
-    draftkings: 'DraftKings',
-    betmgm: 'BetMGM',
-    caesars: 'Caesars',
-    pointsbetus: 'PointsBet',
-    prizepicks: 'PrizePicks',
+/**
+ * Latest usage wins, but a response without credit headers keeps what
+ * we already know
+ */
+function mergeCredits(current: CreditUsage, next?: CreditUsage): CreditUsage {
+  if (!next) return current;
+
+  return {
+    used: next.used ?? current.used,
+    remaining: next.remaining ?? current.remaining,
+    last: next.last ?? current.last,
   };
+}
+
+/**
+ * 🚀 OPTIMIZED VERSION
+ * Writes only props whose line or prices changed since the latest
+ * stored snapshot, in one bulk insert, and bumps last_confirmed_at on
+ * the rest
+ */
+async function storeProps(
+  repository: OddsRepository,
+  props: NormalizedProp[],
+  retry?: RetryOptions
+): Promise<{ stored: number; confirmed: number }> {
+  const seenAt = new Date().toISOString();
+
+  const rows: OddsSnapshotRow[] = props.map((prop) => ({
+    player_id: prop.playerId,
+    player_name: prop.playerName,
+    sport: prop.sport,
+    stat_type: prop.statType,
+    line: prop.line,
+    sportsbook: prop.sportsbook,
+    over_odds: prop.overOdds,
+    under_odds: prop.underOdds,
+    hold_pct: calculateHold(prop.overOdds, prop.underOdds),
+    game_date: prop.gameDate,
+    opponent: prop.opponent,
+    last_confirmed_at: seenAt,
+  }));
+
+  const stored = await withRetry(
+    () =>
+      repository.findSnapshots({
+        sport: rows[0].sport,
+        gameDate: rows[0].game_date ?? undefined,
+      }),
+    retry
+  );
+
+  const { changed, confirmed } = diffSnapshots(stored, rows);
+
+  if (changed.length > 0) {
+    await withRetry(() => repository.insertSnapshots(changed), retry);
+  }
+
+  if (confirmed.length > 0) {
+    await withRetry(
+      () =>
+        repository.updateSnapshots(
+          confirmed.filter((row) => row.id).map((row) => row.id!),
+          { last_confirmed_at: seenAt }
+        ),
+      retry
+    );
+  }
+
+  return { stored: changed.length, confirmed: confirmed.length };
+}
+
+/**
+ * Close out a run the worker was stopped in the middle of, so it is not
+ * shown as in progress forever. Does nothing if no run is in progress.
+ */
+export async function abandonRunningRun(repository: OddsRepository, reason: string): Promise<void> {
+  const run = await repository.getLatestRun();
+  if (run?.id && run.status === 'running') {
+    await repository.updateRun(run.id, {
+      status: 'finished',
+      finished_at: new Date().toISOString(),
+      error: reason,
+    });
+  }
+}
+
+async function updateRun(
+  repository: OddsRepository,
+  id: string,
+  patch: Partial<IngestionRun>
+): Promise<void> {
+  try {
+    await repository.updateRun(id, patch);
+  } catch (error) {
+    console.error('Error updating ingestion run:', error);
+  }
+}
 
-  return map[k] || k;
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
 }
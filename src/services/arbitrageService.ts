@@ -0,0 +1,21 @@
+import { findArbitrages, type ArbOpportunity } from '@/lib/arbitrage';
+import { oddsService } from '@/services/oddsService';
+
+export class ArbitrageService {
+  /**
+   * Cross-book arbs over each book's current prices
+   */
+  async findArbitrages(filters?: {
+    sport?: string;
+    maxSnapshotAgeMinutes?: number;
+  }): Promise<ArbOpportunity[]> {
+    const snapshots = await oddsService.getCurrentSnapshots({
+      sport: filters?.sport,
+      maxAgeMinutes: filters?.maxSnapshotAgeMinutes,
+    });
+
+    return findArbitrages(snapshots);
+  }
+}
+
+export const arbitrageService = new ArbitrageService();
@@ -0,0 +1,163 @@
+import { calculateBetProfit, settleBet, type BetDraft } from '@/lib/betLedger';
+import { gradeOutcome, toGameDay } from '@/lib/grading';
+import { getOddsRepository, type OddsRepository } from '@/services/oddsRepository';
+import { ResultsService } from '@/services/resultsService';
+import type { Bet, BetStatus, GradedProp } from '@/types';
+
+const LOCAL_STORAGE_KEY = 'propedge:unsynced-bets';
+
+function resultKey(playerId: string, statType: string, gameDate: string): string {
+  return `${playerId}|${statType}|${toGameDay(gameDate)}`;
+}
+
+function loadLocalBets(): Bet[] {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveLocalBets(bets: Bet[]): void {
+  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(bets));
+}
+
+export class BetService {
+  private results = new ResultsService(this.repository);
+
+  constructor(private repository?: OddsRepository) {}
+
+  private get odds(): OddsRepository {
+    return this.repository ?? getOddsRepository();
+  }
+
+  /**
+   * All bets, newest first. Bets logged offline are pushed to the table
+   * first when it is reachable.
+   */
+  async getBets(): Promise<Bet[]> {
+    await this.syncLocalBets();
+
+    const localBets = loadLocalBets();
+
+    let stored: Bet[];
+    try {
+      stored = await this.odds.findBets();
+    } catch (error) {
+      console.error('Error loading bets, showing local bets only:', error);
+      return localBets;
+    }
+
+    const localIds = new Set(localBets.map((bet) => bet.id));
+
+    return [...localBets, ...stored.filter((bet) => !localIds.has(bet.id))].sort(
+      (a, b) => Date.parse(b.placed_at) - Date.parse(a.placed_at)
+    );
+  }
+
+  async logBet(draft: BetDraft): Promise<Bet> {
+    const bet: Bet = {
+      ...draft,
+      id: crypto.randomUUID(),
+      status: 'open',
+      profit: null,
+      placed_at: new Date().toISOString(),
+      settled_at: null,
+    };
+
+    await this.saveBet(bet);
+    return bet;
+  }
+
+  /**
+   * Manually settle (or re-open) a bet
+   */
+  async setStatus(bet: Bet, status: BetStatus): Promise<Bet> {
+    const updated: Bet = {
+      ...bet,
+      status,
+      profit: calculateBetProfit(bet.stake, bet.odds, status, bet.decimal_odds),
+      settled_at: status === 'open' ? null : new Date().toISOString(),
+    };
+
+    await this.saveBet(updated);
+    return updated;
+  }
+
+  /**
+   * Settle open bets whose legs have all been graded (or that have a
+   * losing leg). Returns the full list with settlements applied.
+   */
+  async settleOpenBets(bets: Bet[]): Promise<Bet[]> {
+    const open = bets.filter((bet) => bet.status === 'open');
+    if (open.length === 0) return bets;
+
+    const playerIds = [...new Set(open.flatMap((bet) => bet.legs.map((leg) => leg.player_id)))];
+
+    let graded: GradedProp[];
+    try {
+      graded = await this.results.getGradedProps({ playerIds });
+    } catch (error) {
+      console.error('Error loading results for settlement:', error);
+      return bets;
+    }
+
+    const results = new Map<string, number>();
+    for (const prop of graded) {
+      results.set(resultKey(prop.player_id, prop.stat_type, prop.game_date), prop.actual_value);
+    }
+
+    const settledAt = new Date().toISOString();
+    const updates = new Map<string, Bet>();
+
+    for (const bet of open) {
+      const outcomes = bet.legs.map((leg) => {
+        const actual = results.get(resultKey(leg.player_id, leg.stat_type, leg.game_date));
+        return actual === undefined ? null : gradeOutcome(leg.line, actual);
+      });
+
+      const settlement = settleBet(bet, outcomes);
+      if (settlement.status === 'open') continue;
+
+      const updated = { ...bet, ...settlement, settled_at: settledAt };
+      await this.saveBet(updated);
+      updates.set(bet.id, updated);
+    }
+
+    return bets.map((bet) => updates.get(bet.id) ?? bet);
+  }
+
+  /**
+   * Write to the bets table, or keep the bet locally when offline
+   */
+  private async saveBet(bet: Bet): Promise<void> {
+    if (navigator.onLine) {
+      try {
+        await this.odds.saveBets([bet]);
+        saveLocalBets(loadLocalBets().filter((local) => local.id !== bet.id));
+        return;
+      } catch (error) {
+        console.error('Error saving bet, keeping it locally:', error);
+      }
+    }
+
+    saveLocalBets([...loadLocalBets().filter((local) => local.id !== bet.id), bet]);
+  }
+
+  private async syncLocalBets(): Promise<void> {
+    const localBets = loadLocalBets();
+    if (localBets.length === 0 || !navigator.onLine) return;
+
+    try {
+      await this.odds.saveBets(localBets);
+    } catch (error) {
+      console.error('Error syncing local bets:', error);
+      return;
+    }
+
+    saveLocalBets([]);
+  }
+}
+
+export const betService = new BetService();
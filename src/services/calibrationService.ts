@@ -0,0 +1,30 @@
+import {
+  buildCalibrationSamples,
+  buildConfidenceModel,
+  type CalibrationSample,
+  type ConfidenceModel,
+} from '@/lib/calibration';
+import { DEVIG_STRATEGIES, type DevigMethod } from '@/lib/evCalculator';
+import { resultsService, type GradedPropFilters } from '@/services/resultsService';
+
+const ALL_DEVIG_METHODS = Object.keys(DEVIG_STRATEGIES) as DevigMethod[];
+
+export class CalibrationService {
+  /**
+   * Calibration samples from graded history for every devig method
+   */
+  async getSamples(
+    filters: GradedPropFilters = {},
+    methods: DevigMethod[] = ALL_DEVIG_METHODS
+  ): Promise<CalibrationSample[]> {
+    const graded = await resultsService.getGradedProps(filters);
+    return buildCalibrationSamples(graded, methods);
+  }
+
+  async getConfidenceModel(method: DevigMethod): Promise<ConfidenceModel> {
+    const samples = await this.getSamples({}, [method]);
+    return buildConfidenceModel(samples);
+  }
+}
+
+export const calibrationService = new CalibrationService();
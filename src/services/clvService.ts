@@ -0,0 +1,142 @@
+import { calculateCLV } from '@/lib/clv';
+import { getOddsRepository, type OddsRepository } from '@/services/oddsRepository';
+import type {
+  Bet,
+  ClvEntry,
+  ClvSource,
+  EVCalculation,
+  OddsSnapshotRow,
+  SurfacedOpportunity,
+} from '@/types';
+
+/**
+ * Each leg of a bet as the position it took; legs carry the bet's EV
+ */
+function betPositions(bet: Bet): SurfacedOpportunity[] {
+  return bet.legs.map((leg) => ({
+    id: `${bet.id}-${leg.player_id}-${leg.stat_type}`,
+    player_id: leg.player_id,
+    player_name: leg.player_name,
+    sport: leg.sport,
+    stat_type: leg.stat_type,
+    game_date: leg.game_date,
+    sportsbook: bet.sportsbook,
+    direction: leg.direction,
+    line: leg.line,
+    odds: leg.odds,
+    true_prob: leg.true_prob,
+    ev_pct: bet.ev_pct,
+    surfaced_at: bet.placed_at,
+  }));
+}
+
+function propKey(row: { player_id: string; stat_type: string; game_date?: string | null }): string {
+  return `${row.player_id}|${row.stat_type}|${row.game_date ?? ''}`;
+}
+
+export class ClvService {
+  constructor(private repository?: OddsRepository) {}
+
+  private get odds(): OddsRepository {
+    return this.repository ?? getOddsRepository();
+  }
+
+  /**
+   * Record the +EV sides we surfaced; a side keeps the first price it
+   * was surfaced at
+   */
+  async recordOpportunities(evs: EVCalculation[]): Promise<void> {
+    const surfacedAt = new Date().toISOString();
+
+    const rows: SurfacedOpportunity[] = evs
+      .filter((ev) => ev.ev_pct > 0 && ev.player_prop.game_date)
+      .map((ev) => ({
+        player_id: ev.player_prop.player_id,
+        player_name: ev.player_prop.player.name,
+        sport: ev.player_prop.player.sport,
+        stat_type: ev.player_prop.stat_type,
+        game_date: ev.player_prop.game_date,
+        sportsbook: ev.best_sportsbook.name,
+        direction: ev.direction,
+        line: ev.best_line,
+        odds: ev.best_odds,
+        true_prob: ev.true_prob,
+        ev_pct: ev.ev_pct,
+        surfaced_at: surfacedAt,
+      }));
+
+    await this.odds.saveOpportunities(rows);
+  }
+
+  /**
+   * CLV for every surfaced opportunity and every bet leg whose game has
+   * closed, latest game first
+   */
+  async getClvEntries(): Promise<ClvEntry[]> {
+    const now = new Date().toISOString();
+    const [opportunities, bets] = await Promise.all([
+      this.odds.findOpportunities(now),
+      this.odds.findBets(),
+    ]);
+
+    const positions: Array<SurfacedOpportunity & { source: ClvSource }> = [
+      ...opportunities.map((opportunity) => ({ ...opportunity, source: 'surfaced' as const })),
+      ...bets
+        .filter((bet) => bet.status !== 'void')
+        .flatMap(betPositions)
+        .filter((leg) => leg.game_date < now)
+        .map((leg) => ({ ...leg, source: 'bet' as const })),
+    ].sort((a, b) => b.game_date.localeCompare(a.game_date));
+
+    if (positions.length === 0) return [];
+
+    const closingByProp = await this.getClosingLines(
+      positions.map((position) => position.player_id)
+    );
+
+    const entries: ClvEntry[] = [];
+
+    for (const opportunity of positions) {
+      const clv = calculateCLV(
+        {
+          stat_type: opportunity.stat_type,
+          sportsbook: opportunity.sportsbook,
+          line: opportunity.line,
+          direction: opportunity.direction,
+          odds: opportunity.odds,
+        },
+        closingByProp.get(propKey(opportunity)) ?? []
+      );
+
+      if (clv) {
+        entries.push({ ...opportunity, clv });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Closing snapshots for the given players, grouped by prop
+   */
+  async getClosingLines(playerIds: string[]): Promise<Map<string, OddsSnapshotRow[]>> {
+    const closing = await this.odds.findSnapshots({
+      playerIds: [...new Set(playerIds)],
+      closingOnly: true,
+    });
+
+    const closingByProp = new Map<string, OddsSnapshotRow[]>();
+
+    for (const row of closing) {
+      const key = propKey(row);
+      if (!closingByProp.has(key)) {
+        closingByProp.set(key, []);
+      }
+      closingByProp.get(key)!.push(row);
+    }
+
+    return closingByProp;
+  }
+}
+
+export const clvService = new ClvService();
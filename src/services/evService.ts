@@ -1,107 +1,278 @@
-import { calculateMarketConsensus, calculateEV } from '@/lib/evCalculator';
-import { supabase } from '@/lib/supabaseClient';
-import type { EVCalculation, Sport, StatType } from '@/types';
+import {
+  calculateMarketConsensus,
+  calculateEV,
+  getBookWeight,
+  BookWeighting,
+  DevigMethod,
+} from '@/lib/evCalculator';
+import { empiricalConfidence, type ConfidenceModel } from '@/lib/calibration';
+import { estimatePushProbability, projectOverProbability } from '@/lib/lineModel';
+import { oddsService, type OddsService } from '@/services/oddsService';
+import type {
+  BestPriceCalculation,
+  EVCalculation,
+  OddsSnapshotRow,
+  Sport,
+  StatType,
+} from '@/types';
+
+/**
+ * Edges priced off fewer books than this are flagged as thin
+ */
+export const DEFAULT_MIN_CONSENSUS_BOOKS = 2;
+
+export interface EVFilters {
+  sport?: string;
+  devigMethod?: DevigMethod;
+  bookWeighting?: BookWeighting;
+  /** Price each book against a consensus that excludes that book */
+  leaveOneOut?: boolean;
+  minConsensusBooks?: number;
+  /** Drop thin-consensus rows instead of flagging them */
+  dropThinConsensus?: boolean;
+  /** Ignore snapshots older than this many minutes (0 = no limit) */
+  maxSnapshotAgeMinutes?: number;
+  /** Replace the book-count confidence heuristic where graded history allows */
+  confidenceModel?: ConfidenceModel;
+}
 
 export class EVService {
-  async calculateAllEVs(filters?: {
-    sport?: string;
-  }): Promise<EVCalculation[]> {
+  constructor(private odds: OddsService = oddsService) {}
+
+  /**
+   * One row per book per prop, on whichever side is better at that book
+   */
+  async calculateAllEVs(filters?: EVFilters): Promise<EVCalculation[]> {
+    const priced = await this.priceBothSides(filters);
+
+    const evResults = priced.map(({ over, under }) =>
+      over.ev_pct > under.ev_pct ? over : under
+    );
+
+    return evResults.sort((a, b) => b.ev_pct - a.ev_pct);
+  }
+
+  /**
+   * Line-shopping view: one Over and one Under row per prop, each at the
+   * best-EV price across books and lines, with the rest as alternatives
+   */
+  async calculateBestPrices(filters?: EVFilters): Promise<BestPriceCalculation[]> {
+    const priced = await this.priceBothSides(filters);
 
-    let query = supabase.from('odds_snapshots').select('*');
+    const sidesByProp = new Map<string, EVCalculation[]>();
 
-    if (filters?.sport) {
-      query = query.eq('sport', filters.sport);
+    for (const { groupKey, over, under } of priced) {
+      for (const side of [over, under]) {
+        const key = `${groupKey}-${side.direction}`;
+        if (!sidesByProp.has(key)) {
+          sidesByProp.set(key, []);
+        }
+        sidesByProp.get(key)!.push(side);
+      }
     }
 
-    const { data: allOdds, error } = await query;
+    const bestPrices: BestPriceCalculation[] = [];
+
+    for (const [key, sides] of sidesByProp) {
+      const [best, ...rest] = [...sides].sort((a, b) => b.ev_pct - a.ev_pct);
 
-    if (error || !allOdds) {
+      bestPrices.push({
+        ...best,
+        id: key,
+        alternatives: rest.map((alt) => ({
+          sportsbook: alt.best_sportsbook,
+          line: alt.best_line,
+          odds: alt.best_odds,
+          edge_pct: alt.edge_pct,
+          ev_pct: alt.ev_pct,
+        })),
+      });
+    }
+
+    return bestPrices.sort((a, b) => b.ev_pct - a.ev_pct);
+  }
+
+  /**
+   * Prices the Over and the Under at every book against the consensus
+   */
+  private async priceBothSides(
+    filters?: EVFilters
+  ): Promise<Array<{ groupKey: string; over: EVCalculation; under: EVCalculation }>> {
+
+    let allOdds: OddsSnapshotRow[];
+
+    // Only each book's current price counts toward consensus and EV
+    try {
+      allOdds = await this.odds.getCurrentSnapshots({
+        sport: filters?.sport,
+        maxAgeMinutes: filters?.maxSnapshotAgeMinutes,
+      });
+    } catch (error) {
       console.error(error);
       return [];
     }
 
-    const groupedMap = new Map<string, any[]>();
+    // Group across lines but not across games; alternate lines are re-priced
+    // by the line model
+    const groupedMap = new Map<string, OddsSnapshotRow[]>();
 
     for (const row of allOdds) {
-      const key = `${row.player_id}-${row.stat_type}-${row.line}`;
+      const key = `${row.player_id}-${row.stat_type}-${row.game_date}`;
       if (!groupedMap.has(key)) {
         groupedMap.set(key, []);
       }
       groupedMap.get(key)!.push(row);
     }
 
-    const evResults: EVCalculation[] = [];
+    const priced: Array<{ groupKey: string; over: EVCalculation; under: EVCalculation }> = [];
+    const minConsensusBooks =
+      filters?.minConsensusBooks ?? DEFAULT_MIN_CONSENSUS_BOOKS;
 
-    for (const [key, rows] of groupedMap) {
+    for (const [groupKey, rows] of groupedMap) {
 
       if (rows.length < 2) continue;
 
-      const consensus = calculateMarketConsensus(
-        rows.map(book => ({
-          sportsbook: book.sportsbook,
-          overOdds: book.over_odds,
-          underOdds: book.under_odds,
-        }))
-      );
+      const consensusLine = medianLine(rows.map((row) => row.line));
+      const consensusByLine = new Map<number, ReturnType<EVService['buildConsensus']>>();
 
       for (const book of rows) {
 
-        const overEV = calculateEV(consensus.over, book.over_odds);
-        const underEV = calculateEV(consensus.under, book.under_odds);
-
-        const bestSide =
-          overEV.expectedValue > underEV.expectedValue ? 'Over' : 'Under';
-
-        const bestResult =
-          bestSide === 'Over' ? overEV : underEV;
-
-        evResults.push({
-          id: `${key}-${book.sportsbook}`,
-          prop_id: key,
-          player_prop: {
-            id: key,
-            player_id: book.player_id,
-            player: {
-              id: book.player_id,
-              name: book.player_name,
-              sport: book.sport as Sport,
-              position: '',
-              team: '',
+        const key = `${groupKey}-${book.line}`;
+
+        let consensus: ReturnType<EVService['buildConsensus']>;
+
+        if (filters?.leaveOneOut) {
+          consensus = this.buildConsensus(
+            rows.filter((other) => other.sportsbook !== book.sportsbook),
+            book.stat_type,
+            book.line,
+            filters
+          );
+        } else {
+          if (!consensusByLine.has(book.line)) {
+            consensusByLine.set(
+              book.line,
+              this.buildConsensus(rows, book.stat_type, book.line, filters)
+            );
+          }
+          consensus = consensusByLine.get(book.line)!;
+        }
+
+        if (!consensus) continue;
+
+        const thinConsensus = consensus.sampleSize < minConsensusBooks;
+        if (thinConsensus && filters?.dropThinConsensus) continue;
+
+        // The model is bucketed by the other books, as if left out
+        const otherBooks = consensus.contributions.filter(
+          (c) => c.weight > 0 && c.sportsbook !== book.sportsbook
+        ).length;
+        const empirical = filters?.confidenceModel
+          ? empiricalConfidence(filters.confidenceModel, otherBooks)
+          : null;
+        const confidence = empirical ?? consensus.confidence;
+
+        const pushProb = estimatePushProbability(
+          book.stat_type,
+          book.line,
+          consensus.over
+        );
+
+        const toCalculation = (side: 'Over' | 'Under'): EVCalculation => {
+          const trueProb = side === 'Over' ? consensus.over : consensus.under;
+          const odds = side === 'Over' ? book.over_odds : book.under_odds;
+          const result = calculateEV(trueProb, odds, 100, pushProb);
+
+          return {
+            id: `${key}-${book.sportsbook}`,
+            prop_id: key,
+            player_prop: {
+              id: key,
+              player_id: book.player_id,
+              player: {
+                id: book.player_id,
+                name: book.player_name,
+                sport: book.sport as Sport,
+                position: '',
+                team: '',
+              },
+              stat_type: book.stat_type as StatType,
+              game_date: book.game_date ?? '',
+              opponent: book.opponent ?? '',
             },
-            stat_type: book.stat_type as StatType,
-            game_date: book.game_date ?? '',
-            opponent: book.opponent ?? '',
-          },
-          best_sportsbook: {
-            id: book.sportsbook,
-            name: book.sportsbook,
-          },
-          best_line: book.line,
-          best_odds:
-            bestSide === 'Over'
-              ? book.over_odds
-              : book.under_odds,
-          market_consensus_line: book.line,
-          market_consensus_prob:
-            bestSide === 'Over'
-              ? consensus.over
-              : consensus.under,
-          implied_prob: bestResult.trueProbability,
-          true_prob:
-            bestSide === 'Over'
-              ? consensus.over
-              : consensus.under,
-          edge_pct: bestResult.edgePercent,
-          ev_pct: bestResult.expectedValue,
-          confidence_score: Math.round(consensus.confidence * 100),
-          direction: bestSide,
-          all_odds: rows,
+            best_sportsbook: {
+              id: book.sportsbook,
+              name: book.sportsbook,
+            },
+            best_line: book.line,
+            best_odds: odds,
+            market_consensus_line: consensusLine,
+            market_consensus_prob: trueProb,
+            implied_prob: result.trueProbability,
+            true_prob: trueProb,
+            edge_pct: result.edgePercent,
+            ev_pct: result.expectedValue,
+            push_prob: pushProb,
+            confidence_score: Math.round(confidence * 100),
+            direction: side,
+            all_odds: rows,
+            consensus_books: consensus.contributions,
+            consensus_sample_size: consensus.sampleSize,
+            thin_consensus: thinConsensus,
+          };
+        };
+
+        priced.push({
+          groupKey,
+          over: toCalculation('Over'),
+          under: toCalculation('Under'),
         });
       }
     }
 
-    return evResults.sort((a, b) => b.ev_pct - a.ev_pct);
+    return priced;
+  }
+
+  /**
+   * Consensus at `targetLine` over the given rows, or null when none of
+   * them carries weight (e.g. sharp-only weighting with no sharp book posted)
+   */
+  private buildConsensus(
+    rows: Array<{ sportsbook: string; line: number; over_odds: number; under_odds: number }>,
+    statType: string,
+    targetLine: number,
+    filters?: EVFilters
+  ): ReturnType<typeof calculateMarketConsensus> | null {
+    const hasWeightedBook = rows.some(
+      (book) => getBookWeight(filters?.bookWeighting, book.sportsbook) > 0
+    );
+    if (!hasWeightedBook) return null;
+
+    return calculateMarketConsensus(
+      rows.map(book => ({
+        sportsbook: book.sportsbook,
+        overOdds: book.over_odds,
+        underOdds: book.under_odds,
+        line: book.line,
+      })),
+      filters?.devigMethod,
+      filters?.bookWeighting,
+      {
+        targetLine,
+        projectOver: (overProbability, fromLine) =>
+          projectOverProbability(statType, fromLine, overProbability, targetLine),
+      }
+    );
   }
 }
 
+function medianLine(lines: number[]): number {
+  const sorted = [...lines].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
 export const evService = new EVService();
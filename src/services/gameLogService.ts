@@ -0,0 +1,38 @@
+import { getOddsRepository, type OddsRepository } from '@/services/oddsRepository';
+import type { PlayerGameLog } from '@/types';
+
+export class GameLogService {
+  constructor(private repository?: OddsRepository) {}
+
+  private get odds(): OddsRepository {
+    return this.repository ?? getOddsRepository();
+  }
+
+  /**
+   * Upsert game logs; re-importing the same box score overwrites
+   * rather than duplicates
+   */
+  async importGameLogs(logs: PlayerGameLog[]): Promise<number> {
+    try {
+      await this.odds.saveGameLogs(logs);
+    } catch (error) {
+      console.error('Error importing game logs:', error);
+      throw error;
+    }
+
+    return logs.length;
+  }
+
+  /**
+   * Get a player's logs for one stat, most recent first
+   */
+  async getPlayerGameLogs(
+    playerId: string,
+    statType: string,
+    limit?: number
+  ): Promise<PlayerGameLog[]> {
+    return this.odds.findGameLogs(playerId, statType, limit);
+  }
+}
+
+export const gameLogService = new GameLogService();
@@ -0,0 +1,57 @@
+import { getOddsRepository, type OddsRepository } from '@/services/oddsRepository';
+import { OddsService } from '@/services/oddsService';
+import type { OddsSnapshotRow } from '@/types';
+
+export const DEFAULT_HOLD_HISTORY_DAYS = 14;
+
+export type HoldHistoryRow = Pick<
+  OddsSnapshotRow,
+  | 'sportsbook'
+  | 'sport'
+  | 'stat_type'
+  | 'over_odds'
+  | 'under_odds'
+  | 'hold_pct'
+  | 'created_at'
+  | 'last_confirmed_at'
+>;
+
+/**
+ * Start of the hold history window
+ */
+export function holdHistoryStart(
+  days: number = DEFAULT_HOLD_HISTORY_DAYS,
+  now: Date = new Date()
+): string {
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export class HoldService {
+  private current = new OddsService(this.repository);
+
+  constructor(private repository?: OddsRepository) {}
+
+  private get odds(): OddsRepository {
+    return this.repository ?? getOddsRepository();
+  }
+
+  /**
+   * Each book's current market per prop, for ranking by hold
+   */
+  async getCurrentMarkets(sport?: string): Promise<OddsSnapshotRow[]> {
+    return this.current.getCurrentSnapshots({ sport });
+  }
+
+  /**
+   * Every price seen in the window, for average hold over time. Paged,
+   * so long windows are not cut off at the row cap.
+   */
+  async getHoldHistory(
+    days: number = DEFAULT_HOLD_HISTORY_DAYS,
+    sport?: string
+  ): Promise<HoldHistoryRow[]> {
+    return this.odds.findSnapshots({ sport, seenSince: holdHistoryStart(days) });
+  }
+}
+
+export const holdService = new HoldService();
@@ -0,0 +1,58 @@
+import { getOddsRepository, type OddsRepository } from '@/services/oddsRepository';
+import type { IngestionRun } from '@/types';
+
+/** A run still marked running this long after it started was cut off */
+export const ABANDONED_RUN_MINUTES = 60;
+
+export class IngestionService {
+  /** The run seen on the previous poll, to notice when one finishes */
+  private lastRun: Pick<IngestionRun, 'id' | 'status'> | null = null;
+
+  constructor(private repository?: OddsRepository) {}
+
+  /**
+   * Picks up whatever the worker has stored since the data was loaded
+   */
+  async reload(): Promise<void> {
+    await (this.repository ?? getOddsRepository()).reload();
+  }
+
+  /**
+   * The ingestion worker's most recent run, finished or in progress. A
+   * run the worker never closed out is reported as finished with an error
+   * once it is ABANDONED_RUN_MINUTES old. Re-reads only the runs, so
+   * polling stays cheap, and reloads everything once a run finishes.
+   */
+  async getLatestRun(now: Date = new Date()): Promise<IngestionRun | null> {
+    const repository = this.repository ?? getOddsRepository();
+    await repository.reloadRuns();
+    let run = await repository.getLatestRun();
+
+    const previous = this.lastRun;
+    if (
+      previous &&
+      run?.status === 'finished' &&
+      (run.id !== previous.id || previous.status === 'running')
+    ) {
+      await repository.reload();
+      run = await repository.getLatestRun();
+    }
+    this.lastRun = run && { id: run.id, status: run.status };
+
+    if (
+      run?.status === 'running' &&
+      now.getTime() - new Date(run.started_at).getTime() > ABANDONED_RUN_MINUTES * 60 * 1000
+    ) {
+      return {
+        ...run,
+        status: 'finished',
+        finished_at: run.started_at,
+        error: run.error ?? 'Worker stopped before the run finished',
+      };
+    }
+
+    return run;
+  }
+}
+
+export const ingestionService = new IngestionService();
@@ -0,0 +1,475 @@
+import type {
+  GradedPropFilters,
+  OddsRepository,
+  SnapshotQuery,
+} from '@/services/oddsRepository';
+import type {
+  Bet,
+  GradedProp,
+  IngestionRun,
+  OddsSnapshotRow,
+  PlayerGameLog,
+  SurfacedOpportunity,
+} from '@/types';
+
+/**
+ * The tables a local backend keeps
+ */
+export interface LocalOddsData {
+  odds_snapshots: OddsSnapshotRow[];
+  ingestion_runs: IngestionRun[];
+  ev_opportunities: SurfacedOpportunity[];
+  prop_results: GradedProp[];
+  player_game_logs: PlayerGameLog[];
+  bets: Bet[];
+}
+
+const TABLES: Array<keyof LocalOddsData> = [
+  'odds_snapshots',
+  'ingestion_runs',
+  'ev_opportunities',
+  'prop_results',
+  'player_game_logs',
+  'bets',
+];
+
+/**
+ * Missing tables (from seeds, or stores saved before a table existed) start empty
+ */
+function withAllTables(data: Partial<LocalOddsData>): LocalOddsData {
+  return {
+    odds_snapshots: data.odds_snapshots || [],
+    ingestion_runs: data.ingestion_runs || [],
+    ev_opportunities: data.ev_opportunities || [],
+    prop_results: data.prop_results || [],
+    player_game_logs: data.player_game_logs || [],
+    bets: data.bets || [],
+  };
+}
+
+/**
+ * Insert or replace rows by key, like a Supabase upsert on a unique
+ * constraint. With `keepExisting`, rows already stored win.
+ */
+function upsertRows<T extends { id?: string }>(
+  table: T[],
+  rows: T[],
+  keyOf: (row: T) => string,
+  keepExisting = false
+): T[] {
+  const byKey = new Map(table.map((row) => [keyOf(row), row]));
+
+  for (const row of rows) {
+    const key = keyOf(row);
+    const existing = byKey.get(key);
+    if (existing && keepExisting) continue;
+    byKey.set(key, { ...row, id: existing?.id ?? row.id ?? crypto.randomUUID() });
+  }
+
+  return [...byKey.values()];
+}
+
+const byGameDateDesc = (a: { game_date: string }, b: { game_date: string }) =>
+  b.game_date.localeCompare(a.game_date);
+
+/**
+ * Somewhere to keep local tables between sessions
+ */
+export interface LocalOddsStorage {
+  load(): Promise<LocalOddsData | null>;
+  save(data: LocalOddsData): Promise<void>;
+  /** Just the ingestion runs, where they can be read without the rest */
+  loadRuns?(): Promise<IngestionRun[] | null>;
+}
+
+/**
+ * Where the worker writes its ingestion runs alongside a local data
+ * file or URL, e.g. local-odds.json -> local-odds.runs.json
+ */
+export function localRunsPath(dataPath: string): string {
+  return dataPath.replace(/(\.json)?$/, '.runs.json');
+}
+
+/** Tables the browser writes itself, which an import never replaces */
+const BROWSER_TABLES: Array<keyof LocalOddsData> = ['bets'];
+
+/**
+ * Layer the tables the ingestion worker exported (`--backend local`)
+ * over a browser store. Each load takes the worker's tables afresh, so
+ * a reload shows its latest run; bets entered in the browser are kept.
+ */
+export function importingStorage(
+  loadImport: () => Promise<Partial<LocalOddsData> | null>,
+  storage?: LocalOddsStorage,
+  loadImportedRuns?: () => Promise<IngestionRun[] | null>
+): LocalOddsStorage {
+  return {
+    loadRuns: loadImportedRuns,
+
+    async load() {
+      const [stored, imported] = await Promise.all([
+        storage?.load() ?? null,
+        loadImport(),
+      ]);
+      if (!imported) return stored;
+
+      const workerTables = Object.fromEntries(
+        TABLES.filter((table) => !BROWSER_TABLES.includes(table) && imported[table]).map(
+          (table) => [table, imported[table]]
+        )
+      );
+      return withAllTables({ ...stored, ...workerTables });
+    },
+
+    async save(data) {
+      await storage?.save(data);
+    },
+  };
+}
+
+/**
+ * Every table held in memory, optionally persisted through a
+ * LocalOddsStorage. Used to run the app offline and in tests.
+ */
+export class LocalOddsRepository implements OddsRepository {
+  name = 'local';
+
+  private data: LocalOddsData;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private storage?: LocalOddsStorage,
+    seed: Partial<LocalOddsData> = {}
+  ) {
+    this.data = withAllTables({
+      ...seed,
+      odds_snapshots: (seed.odds_snapshots || []).map((row) => this.withDefaults(row)),
+      ingestion_runs: (seed.ingestion_runs || []).map((run) => ({
+        ...run,
+        id: run.id ?? crypto.randomUUID(),
+      })),
+    });
+  }
+
+  /**
+   * Loads the storage afresh once pending saves land, picking up what
+   * the worker has exported since
+   */
+  async reload(): Promise<void> {
+    if (!this.storage) return;
+
+    await this.ready();
+    await this.saving.catch(() => {});
+    this.loading = null;
+    await this.ready();
+  }
+
+  /**
+   * Re-reads only the ingestion runs where the storage can read them on
+   * their own, and everything otherwise
+   */
+  async reloadRuns(): Promise<void> {
+    if (!this.storage?.loadRuns) return this.reload();
+    await this.ready();
+
+    const runs = await this.storage.loadRuns();
+    if (runs) this.data.ingestion_runs = runs;
+  }
+
+  async findSnapshots(query: SnapshotQuery = {}): Promise<OddsSnapshotRow[]> {
+    await this.ready();
+
+    return this.data.odds_snapshots
+      .filter((row) => matchesSnapshotQuery(row, query))
+      .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+      .map((row) => ({ ...row }));
+  }
+
+  async getLastSnapshotTime(sport: string): Promise<string | null> {
+    await this.ready();
+
+    let latest: string | null = null;
+
+    for (const row of this.data.odds_snapshots) {
+      if (row.sport !== sport) continue;
+
+      const seenAt = row.last_confirmed_at ?? row.created_at ?? null;
+      if (seenAt && (!latest || seenAt > latest)) latest = seenAt;
+    }
+
+    return latest;
+  }
+
+  async getSnapshotGameDateRange(
+    sport?: string
+  ): Promise<{ first: string; last: string } | null> {
+    await this.ready();
+
+    let range: { first: string; last: string } | null = null;
+
+    for (const row of this.data.odds_snapshots) {
+      if ((sport && row.sport !== sport) || !row.game_date) continue;
+
+      range = {
+        first: !range || row.game_date < range.first ? row.game_date : range.first,
+        last: !range || row.game_date > range.last ? row.game_date : range.last,
+      };
+    }
+
+    return range;
+  }
+
+  async insertSnapshots(rows: OddsSnapshotRow[]): Promise<void> {
+    await this.ready();
+
+    this.data.odds_snapshots.push(...rows.map((row) => this.withDefaults(row)));
+    await this.persist();
+  }
+
+  async updateSnapshots(ids: string[], patch: Partial<OddsSnapshotRow>): Promise<void> {
+    await this.ready();
+
+    const targets = new Set(ids);
+    this.data.odds_snapshots = this.data.odds_snapshots.map((row) =>
+      row.id && targets.has(row.id) ? { ...row, ...patch } : row
+    );
+    await this.persist();
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    await this.ready();
+
+    const targets = new Set(ids);
+    this.data.odds_snapshots = this.data.odds_snapshots.filter(
+      (row) => !row.id || !targets.has(row.id)
+    );
+    await this.persist();
+  }
+
+  async getLatestRun(): Promise<IngestionRun | null> {
+    const [latest] = await this.findRunsSince('');
+    return latest ?? null;
+  }
+
+  async findRunsSince(startedAt: string): Promise<IngestionRun[]> {
+    await this.ready();
+
+    return this.data.ingestion_runs
+      .filter((run) => run.started_at >= startedAt)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .map((run) => ({ ...run }));
+  }
+
+  async insertRun(run: IngestionRun): Promise<void> {
+    await this.ready();
+
+    this.data.ingestion_runs.push({ ...run, id: run.id ?? crypto.randomUUID() });
+    await this.persist();
+  }
+
+  async updateRun(id: string, patch: Partial<IngestionRun>): Promise<void> {
+    await this.ready();
+
+    this.data.ingestion_runs = this.data.ingestion_runs.map((run) =>
+      run.id === id ? { ...run, ...patch } : run
+    );
+    await this.persist();
+  }
+
+  async saveOpportunities(rows: SurfacedOpportunity[]): Promise<void> {
+    await this.ready();
+
+    this.data.ev_opportunities = upsertRows(
+      this.data.ev_opportunities,
+      rows,
+      (row) =>
+        [row.player_id, row.stat_type, row.game_date, row.sportsbook, row.direction, row.line].join('|'),
+      true
+    );
+    await this.persist();
+  }
+
+  async findOpportunities(before: string): Promise<SurfacedOpportunity[]> {
+    await this.ready();
+
+    return this.data.ev_opportunities
+      .filter((row) => row.game_date < before)
+      .sort(byGameDateDesc)
+      .map((row) => ({ ...row }));
+  }
+
+  async saveGradedProps(rows: GradedProp[]): Promise<void> {
+    await this.ready();
+
+    this.data.prop_results = upsertRows(this.data.prop_results, rows, (row) =>
+      [row.player_id, row.stat_type, row.game_date, row.sportsbook].join('|')
+    );
+    await this.persist();
+  }
+
+  async findGradedProps(filters: GradedPropFilters = {}): Promise<GradedProp[]> {
+    await this.ready();
+
+    const playerIds = filters.playerIds ? new Set(filters.playerIds) : null;
+
+    return this.data.prop_results
+      .filter(
+        (row) =>
+          (!filters.sport || row.sport === filters.sport) &&
+          (!filters.statType || row.stat_type === filters.statType) &&
+          (!filters.sportsbook || row.sportsbook === filters.sportsbook) &&
+          (!playerIds || playerIds.has(row.player_id)) &&
+          (!filters.from || row.game_date >= filters.from) &&
+          (!filters.to || row.game_date <= filters.to)
+      )
+      .sort(byGameDateDesc)
+      .map((row) => ({ ...row }));
+  }
+
+  async saveGameLogs(logs: PlayerGameLog[]): Promise<void> {
+    await this.ready();
+
+    this.data.player_game_logs = upsertRows(this.data.player_game_logs, logs, (log) =>
+      [log.player_id, log.game_date, log.stat_type].join('|')
+    );
+    await this.persist();
+  }
+
+  async findGameLogs(playerId: string, statType: string, limit?: number): Promise<PlayerGameLog[]> {
+    await this.ready();
+
+    const logs = this.data.player_game_logs
+      .filter((log) => log.player_id === playerId && log.stat_type === statType)
+      .sort(byGameDateDesc)
+      .map((log) => ({ ...log }));
+
+    return limit ? logs.slice(0, limit) : logs;
+  }
+
+  async findBets(): Promise<Bet[]> {
+    await this.ready();
+
+    return this.data.bets
+      .slice()
+      .sort((a, b) => b.placed_at.localeCompare(a.placed_at))
+      .map((bet) => ({ ...bet }));
+  }
+
+  async saveBets(bets: Bet[]): Promise<void> {
+    await this.ready();
+
+    this.data.bets = upsertRows(this.data.bets, bets, (bet) => bet.id);
+    await this.persist();
+  }
+
+  /**
+   * Fill in what the database would: an id and the insert time
+   */
+  private withDefaults(row: OddsSnapshotRow): OddsSnapshotRow {
+    return {
+      ...row,
+      id: row.id ?? crypto.randomUUID(),
+      created_at: row.created_at ?? new Date().toISOString(),
+    };
+  }
+
+  private ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.storage
+        ? this.storage.load().then((stored) => {
+            // The seed only fills an empty store
+            if (stored) this.data = withAllTables(stored);
+          })
+        : Promise.resolve();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Writes are queued so a slow save never lands after a newer one. A failed
+   * save is reported to its own caller only, never to the saves behind it
+   */
+  private persist(): Promise<void> {
+    if (!this.storage) return Promise.resolve();
+
+    const storage = this.storage;
+    const snapshot = { ...this.data };
+    const save = this.saving.catch(() => {}).then(() => storage.save(snapshot));
+    this.saving = save;
+    return save;
+  }
+}
+
+export function matchesSnapshotQuery(row: OddsSnapshotRow, query: SnapshotQuery): boolean {
+  if (query.sport && row.sport !== query.sport) return false;
+  if (query.playerId && row.player_id !== query.playerId) return false;
+  if (query.statType && row.stat_type !== query.statType) return false;
+  if (query.gameDate && row.game_date !== query.gameDate) return false;
+  if (query.gameDateFrom && !(row.game_date && row.game_date >= query.gameDateFrom)) {
+    return false;
+  }
+  if (query.gameDateBefore && !(row.game_date && row.game_date < query.gameDateBefore)) {
+    return false;
+  }
+  if (query.noGameDate && row.game_date) return false;
+  if (query.playerIds && !query.playerIds.includes(row.player_id)) return false;
+  if (query.closingOnly && !row.is_closing) return false;
+  if (query.seenSince) {
+    const confirmed = row.last_confirmed_at && row.last_confirmed_at >= query.seenSince;
+    const created = row.created_at && row.created_at >= query.seenSince;
+    if (!confirmed && !created) return false;
+  }
+  return true;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Keeps each table as one record in an IndexedDB object store
+ */
+export function indexedDbStorage(databaseName = 'ev-dashboard'): LocalOddsStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    if (!database) {
+      const req = indexedDB.open(databaseName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore('tables');
+      database = request(req);
+    }
+    return database;
+  }
+
+  return {
+    async load() {
+      const db = await open();
+      const store = db.transaction('tables', 'readonly').objectStore('tables');
+      const stored = await Promise.all(TABLES.map((table) => request(store.get(table))));
+
+      if (stored.every((rows) => !rows)) return null;
+      return withAllTables(
+        Object.fromEntries(TABLES.map((table, i) => [table, stored[i]]))
+      );
+    },
+
+    async save(data) {
+      const db = await open();
+      const tx = db.transaction('tables', 'readwrite');
+      const store = tx.objectStore('tables');
+
+      for (const table of TABLES) {
+        store.put(data[table], table);
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import type { DevigMethod } from '@/lib/evCalculator';
+import { findMiddles, type MiddleOpportunity } from '@/lib/middles';
+import { oddsService } from '@/services/oddsService';
+
+export class MiddleService {
+  /**
+   * +EV middles over each book's current prices
+   */
+  async findMiddles(filters?: {
+    sport?: string;
+    devigMethod?: DevigMethod;
+    minEvPct?: number;
+    maxSnapshotAgeMinutes?: number;
+  }): Promise<MiddleOpportunity[]> {
+    const snapshots = await oddsService.getCurrentSnapshots({
+      sport: filters?.sport,
+      maxAgeMinutes: filters?.maxSnapshotAgeMinutes,
+    });
+
+    return findMiddles(snapshots, {
+      method: filters?.devigMethod,
+      minEvPct: filters?.minEvPct,
+    });
+  }
+}
+
+export const middleService = new MiddleService();
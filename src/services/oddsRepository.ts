@@ -0,0 +1,489 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  importingStorage,
+  indexedDbStorage,
+  localRunsPath,
+  LocalOddsRepository,
+  type LocalOddsData,
+} from '@/services/localOddsRepository';
+import type {
+  Bet,
+  GradedProp,
+  IngestionRun,
+  OddsSnapshotRow,
+  PlayerGameLog,
+  SurfacedOpportunity,
+} from '@/types';
+
+const PAGE_SIZE = 1000;
+const ID_BATCH_SIZE = 500;
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Filters for reading odds_snapshots. Every field narrows the result.
+ */
+export interface SnapshotQuery {
+  sport?: string;
+  playerId?: string;
+  statType?: string;
+  gameDate?: string;
+  /** Games starting at or after this time */
+  gameDateFrom?: string;
+  /** Games starting before this time */
+  gameDateBefore?: string;
+  /** Only rows stored without a game date */
+  noGameDate?: boolean;
+  /** Only prices first seen or last confirmed at or after this time */
+  seenSince?: string;
+  /** Any of these players */
+  playerIds?: string[];
+  /** Only each book's closing snapshot */
+  closingOnly?: boolean;
+}
+
+export interface GradedPropFilters {
+  sport?: string;
+  statType?: string;
+  sportsbook?: string;
+  playerIds?: string[];
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Storage for everything the app reads and writes: odds snapshots,
+ * ingestion runs, surfaced opportunities, graded props, game logs and
+ * bets. Services and the ingestion pipeline go through this instead of
+ * calling Supabase directly, so the app can run against a local backend.
+ */
+export interface OddsRepository {
+  name: string;
+  /** Re-reads data written elsewhere since it was loaded */
+  reload(): Promise<void>;
+  /** Re-reads just the ingestion runs, cheaply enough to poll */
+  reloadRuns(): Promise<void>;
+  /** Matching snapshots, oldest first */
+  findSnapshots(query?: SnapshotQuery): Promise<OddsSnapshotRow[]>;
+  /** When the sport's prices were last seen, or null before the first fetch */
+  getLastSnapshotTime(sport: string): Promise<string | null>;
+  /** Earliest and latest game date among stored snapshots, or null when none has one */
+  getSnapshotGameDateRange(sport?: string): Promise<{ first: string; last: string } | null>;
+  insertSnapshots(rows: OddsSnapshotRow[]): Promise<void>;
+  updateSnapshots(ids: string[], patch: Partial<OddsSnapshotRow>): Promise<void>;
+  deleteSnapshots(ids: string[]): Promise<void>;
+  /** The most recently started run, finished or in progress */
+  getLatestRun(): Promise<IngestionRun | null>;
+  /** Runs started at or after `startedAt`, newest first */
+  findRunsSince(startedAt: string): Promise<IngestionRun[]>;
+  insertRun(run: IngestionRun): Promise<void>;
+  updateRun(id: string, patch: Partial<IngestionRun>): Promise<void>;
+  /** Adds opportunities; a side already recorded keeps its first price */
+  saveOpportunities(rows: SurfacedOpportunity[]): Promise<void>;
+  /** Opportunities for games that started before `before`, latest game first */
+  findOpportunities(before: string): Promise<SurfacedOpportunity[]>;
+  /** Upserts on (player_id, stat_type, game_date, sportsbook) */
+  saveGradedProps(rows: GradedProp[]): Promise<void>;
+  /** Graded history, most recent game first */
+  findGradedProps(filters?: GradedPropFilters): Promise<GradedProp[]>;
+  /** Upserts on (player_id, game_date, stat_type) */
+  saveGameLogs(logs: PlayerGameLog[]): Promise<void>;
+  /** A player's logs for one stat, most recent first */
+  findGameLogs(playerId: string, statType: string, limit?: number): Promise<PlayerGameLog[]>;
+  /** All bets, newest first */
+  findBets(): Promise<Bet[]>;
+  /** Upserts on id */
+  saveBets(bets: Bet[]): Promise<void>;
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * Long id lists overflow the request URL, so `.in()` filters are sent in
+ * batches; no list means one unfiltered pass
+ */
+function idBatches(ids?: string[]): Array<string[] | undefined> {
+  return ids ? batches([...new Set(ids)], ID_BATCH_SIZE) : [undefined];
+}
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: unknown }>;
+
+/**
+ * PostgREST caps each response, so page until a short page comes back.
+ * `page` must order on a unique column so pages never overlap.
+ */
+async function fetchAllPages<T>(page: (from: number, to: number) => PageResult<T>): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * The hosted Supabase project. The browser uses the anon client; the
+ * worker passes a service-role client.
+ */
+export class SupabaseOddsRepository implements OddsRepository {
+  name = 'supabase';
+
+  /**
+   * `signIn` runs before any bet is read or written, as bets are only
+   * visible to the user who logged them
+   */
+  constructor(
+    private client: SupabaseClient,
+    private signIn: () => Promise<void> = async () => {}
+  ) {}
+
+  async reload(): Promise<void> {
+    // Every read already goes to the database
+  }
+
+  async reloadRuns(): Promise<void> {
+    // Every read already goes to the database
+  }
+
+  async findSnapshots(query: SnapshotQuery = {}): Promise<OddsSnapshotRow[]> {
+    const playerIdBatches = idBatches(query.playerIds);
+    const rows: OddsSnapshotRow[] = [];
+
+    for (const playerIds of playerIdBatches) {
+      rows.push(...(await this.findSnapshotPages({ ...query, playerIds })));
+    }
+
+    if (playerIdBatches.length > 1) {
+      rows.sort(
+        (a, b) =>
+          (a.created_at ?? '').localeCompare(b.created_at ?? '') ||
+          (a.id ?? '').localeCompare(b.id ?? '')
+      );
+    }
+    return rows;
+  }
+
+  private findSnapshotPages(query: SnapshotQuery): Promise<OddsSnapshotRow[]> {
+    return fetchAllPages<OddsSnapshotRow>((from, to) => {
+      let request = this.client
+        .from('odds_snapshots')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+
+      if (query.sport) request = request.eq('sport', query.sport);
+      if (query.playerId) request = request.eq('player_id', query.playerId);
+      if (query.statType) request = request.eq('stat_type', query.statType);
+      if (query.gameDate) request = request.eq('game_date', query.gameDate);
+      if (query.gameDateFrom) request = request.gte('game_date', query.gameDateFrom);
+      if (query.gameDateBefore) request = request.lt('game_date', query.gameDateBefore);
+      if (query.noGameDate) request = request.is('game_date', null);
+      if (query.seenSince) {
+        request = request.or(
+          `last_confirmed_at.gte.${query.seenSince},created_at.gte.${query.seenSince}`
+        );
+      }
+      if (query.playerIds) request = request.in('player_id', query.playerIds);
+      if (query.closingOnly) request = request.eq('is_closing', true);
+
+      return request;
+    });
+  }
+
+  async getLastSnapshotTime(sport: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('odds_snapshots')
+      .select('created_at, last_confirmed_at')
+      .eq('sport', sport)
+      .order('last_confirmed_at', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? data.last_confirmed_at ?? data.created_at : null;
+  }
+
+  async getSnapshotGameDateRange(
+    sport?: string
+  ): Promise<{ first: string; last: string } | null> {
+    const edge = async (ascending: boolean): Promise<string | null> => {
+      let request = this.client
+        .from('odds_snapshots')
+        .select('game_date')
+        .not('game_date', 'is', null);
+
+      if (sport) request = request.eq('sport', sport);
+
+      const { data, error } = await request
+        .order('game_date', { ascending })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.game_date ?? null;
+    };
+
+    const [first, last] = await Promise.all([edge(true), edge(false)]);
+    return first && last ? { first, last } : null;
+  }
+
+  async insertSnapshots(rows: OddsSnapshotRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.client.from('odds_snapshots').insert(rows);
+
+    if (error) throw error;
+  }
+
+  async updateSnapshots(ids: string[], patch: Partial<OddsSnapshotRow>): Promise<void> {
+    for (const batch of batches(ids, ID_BATCH_SIZE)) {
+      const { error } = await this.client
+        .from('odds_snapshots')
+        .update(patch)
+        .in('id', batch);
+
+      if (error) throw error;
+    }
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    for (const batch of batches(ids, ID_BATCH_SIZE)) {
+      const { error } = await this.client
+        .from('odds_snapshots')
+        .delete()
+        .in('id', batch);
+
+      if (error) throw error;
+    }
+  }
+
+  async getLatestRun(): Promise<IngestionRun | null> {
+    const { data, error } = await this.client
+      .from('ingestion_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findRunsSince(startedAt: string): Promise<IngestionRun[]> {
+    const { data, error } = await this.client
+      .from('ingestion_runs')
+      .select('*')
+      .gte('started_at', startedAt)
+      .order('started_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async insertRun(run: IngestionRun): Promise<void> {
+    const { error } = await this.client.from('ingestion_runs').insert(run);
+
+    if (error) throw error;
+  }
+
+  async updateRun(id: string, patch: Partial<IngestionRun>): Promise<void> {
+    const { error } = await this.client.from('ingestion_runs').update(patch).eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async saveOpportunities(rows: SurfacedOpportunity[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.client
+      .from('ev_opportunities')
+      .upsert(rows, {
+        onConflict: 'player_id,stat_type,game_date,sportsbook,direction,line',
+        ignoreDuplicates: true,
+      });
+
+    if (error) throw error;
+  }
+
+  async findOpportunities(before: string): Promise<SurfacedOpportunity[]> {
+    return fetchAllPages<SurfacedOpportunity>((from, to) =>
+      this.client
+        .from('ev_opportunities')
+        .select('*')
+        .lt('game_date', before)
+        .order('game_date', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+  }
+
+  async saveGradedProps(rows: GradedProp[]): Promise<void> {
+    for (const batch of batches(rows, UPSERT_BATCH_SIZE)) {
+      const { error } = await this.client
+        .from('prop_results')
+        .upsert(batch, { onConflict: 'player_id,stat_type,game_date,sportsbook' });
+
+      if (error) throw error;
+    }
+  }
+
+  async findGradedProps(filters: GradedPropFilters = {}): Promise<GradedProp[]> {
+    const playerIdBatches = idBatches(filters.playerIds);
+    const rows: GradedProp[] = [];
+
+    for (const playerIds of playerIdBatches) {
+      rows.push(...(await this.findGradedPropPages({ ...filters, playerIds })));
+    }
+
+    if (playerIdBatches.length > 1) {
+      rows.sort((a, b) => b.game_date.localeCompare(a.game_date));
+    }
+    return rows;
+  }
+
+  private findGradedPropPages(filters: GradedPropFilters): Promise<GradedProp[]> {
+    return fetchAllPages<GradedProp>((from, to) => {
+      let query = this.client
+        .from('prop_results')
+        .select('*')
+        .order('game_date', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to);
+
+      if (filters.sport) query = query.eq('sport', filters.sport);
+      if (filters.statType) query = query.eq('stat_type', filters.statType);
+      if (filters.sportsbook) query = query.eq('sportsbook', filters.sportsbook);
+      if (filters.playerIds) query = query.in('player_id', filters.playerIds);
+      if (filters.from) query = query.gte('game_date', filters.from);
+      if (filters.to) query = query.lte('game_date', filters.to);
+
+      return query;
+    });
+  }
+
+  async saveGameLogs(logs: PlayerGameLog[]): Promise<void> {
+    for (const batch of batches(logs, UPSERT_BATCH_SIZE)) {
+      const { error } = await this.client
+        .from('player_game_logs')
+        .upsert(batch, { onConflict: 'player_id,game_date,stat_type' });
+
+      if (error) throw error;
+    }
+  }
+
+  async findGameLogs(playerId: string, statType: string, limit?: number): Promise<PlayerGameLog[]> {
+    let query = this.client
+      .from('player_game_logs')
+      .select('*')
+      .eq('player_id', playerId)
+      .eq('stat_type', statType)
+      .order('game_date', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async findBets(): Promise<Bet[]> {
+    await this.signIn();
+
+    const { data, error } = await this.client
+      .from('bets')
+      .select('*')
+      .order('placed_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async saveBets(bets: Bet[]): Promise<void> {
+    if (bets.length === 0) return;
+
+    await this.signIn();
+
+    const { error } = await this.client.from('bets').upsert(bets);
+
+    if (error) throw error;
+  }
+}
+
+export type DataBackend = 'supabase' | 'local';
+
+/**
+ * VITE_DATA_BACKEND=local runs the app offline; Supabase otherwise
+ */
+export function resolveDataBackend(value?: string): DataBackend {
+  if (!value || value === 'supabase') return 'supabase';
+  if (value === 'local') return 'local';
+  throw new Error(`Unknown data backend: ${value}`);
+}
+
+/** Where the ingestion worker's `--backend local` output is served by default */
+export const DEFAULT_LOCAL_DATA_URL = '/local-odds.json';
+
+export async function createOddsRepository(
+  backend: DataBackend,
+  localDataUrl: string = DEFAULT_LOCAL_DATA_URL
+): Promise<OddsRepository> {
+  if (backend === 'local') {
+    // IndexedDB keeps local data across reloads where the browser has it;
+    // the worker's tables are imported over it on every load
+    return new LocalOddsRepository(
+      importingStorage(
+        () => fetchLocalData<Partial<LocalOddsData>>(localDataUrl),
+        typeof indexedDB === 'undefined' ? undefined : indexedDbStorage(),
+        () => fetchLocalData<IngestionRun[]>(localRunsPath(localDataUrl))
+      )
+    );
+  }
+
+  // Loaded here so the local backend never creates a Supabase client
+  const { supabase, ensureSession } = await import('@/lib/supabaseClient');
+  return new SupabaseOddsRepository(supabase, ensureSession);
+}
+
+let configured: OddsRepository | null = null;
+
+/**
+ * Chosen once at startup (see main.tsx)
+ */
+export function setOddsRepository(repository: OddsRepository): void {
+  configured = repository;
+}
+
+export function getOddsRepository(): OddsRepository {
+  if (!configured) {
+    throw new Error('No odds repository configured; call setOddsRepository at startup');
+  }
+  return configured;
+}
+
+/**
+ * A file the worker exports, or null when it has not written it yet
+ */
+async function fetchLocalData<T>(url: string): Promise<T | null> {
+  try {
+    const response = await fetch(url);
+    // The dev server answers unknown paths with index.html
+    if (!response.ok || !response.headers.get('content-type')?.includes('json')) return null;
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error('Error loading local odds data:', error);
+    return null;
+  }
+}
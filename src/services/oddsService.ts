@@ -1,10 +1,24 @@
-import { supabase } from "@/lib/supabaseClient";
 import { oddsNormalizer, NormalizedProp } from '@/lib/oddsNormalizer';
-;
+import { calculateHold } from '@/lib/hold';
+import {
+  DEFAULT_MAX_SNAPSHOT_AGE_MINUTES,
+  selectLatestSnapshots,
+} from '@/lib/snapshots';
+import { getOddsRepository, type OddsRepository } from '@/services/oddsRepository';
+import type { OddsSnapshotRow } from '@/types';
 
 export class OddsService {
   /**
-   * Fetch odds from external API and store in Supabase
+   * Uses the repository chosen at startup unless given one
+   */
+  constructor(private repository?: OddsRepository) {}
+
+  private get odds(): OddsRepository {
+    return this.repository ?? getOddsRepository();
+  }
+
+  /**
+   * Normalize odds from an external API and store them
    */
   async fetchAndStoreOdds(apiName: string, rawData: any): Promise<void> {
     // Normalize the data
@@ -16,103 +30,92 @@ export class OddsService {
 
     const props = Array.isArray(normalized) ? normalized : [normalized];
 
-    // Store each prop
-    for (const prop of props) {
-      await this.storeOddsSnapshot(prop);
+    try {
+      await this.odds.insertSnapshots(props.map((prop) => this.toSnapshot(prop)));
+    } catch (error) {
+      console.error('Error storing odds snapshots:', error);
+      throw error;
     }
   }
 
-  /**
-   * Store a single odds snapshot
-   */
-  private async storeOddsSnapshot(prop: NormalizedProp): Promise<void> {
-    const { error } = await supabase
-      .from('odds_snapshots')
-      .insert({
-        player_id: prop.playerId,
-        player_name: prop.playerName,
-        sport: prop.sport,
-        stat_type: prop.statType,
-        line: prop.line,
-        sportsbook: prop.sportsbook,
-        over_odds: prop.overOdds,
-        under_odds: prop.underOdds,
-      });
-
-    if (error) {
-      console.error('Error storing odds snapshot:', error);
-      throw error;
-    }
+  private toSnapshot(prop: NormalizedProp): OddsSnapshotRow {
+    return {
+      player_id: prop.playerId,
+      player_name: prop.playerName,
+      sport: prop.sport,
+      stat_type: prop.statType,
+      line: prop.line,
+      sportsbook: prop.sportsbook,
+      over_odds: prop.overOdds,
+      under_odds: prop.underOdds,
+      hold_pct: calculateHold(prop.overOdds, prop.underOdds),
+      game_date: prop.gameDate,
+      opponent: prop.opponent,
+    };
   }
 
   /**
-   * Get latest odds for a specific prop
+   * Each book's latest price for a specific prop and line
    */
   async getLatestOdds(
     playerId: string,
     statType: string,
     line: number
-  ): Promise<any[]> {
-    const { data, error } = await supabase
-      .rpc('get_latest_prop_odds', {
-        p_player_id: playerId,
-        p_stat_type: statType,
-        p_line: line,
-      });
-
-    if (error) throw error;
-    return data || [];
+  ): Promise<OddsSnapshotRow[]> {
+    const history = await this.odds.findSnapshots({ playerId, statType });
+
+    return selectLatestSnapshots(
+      history.filter((row) => row.line === line),
+      { excludeStarted: false }
+    );
   }
 
   /**
-   * Get market consensus from view
+   * Each book's current snapshot per prop for games that have not started
    */
-  async getMarketConsensus(filters?: {
+  async getCurrentSnapshots(filters?: {
     sport?: string;
-    gameDate?: string;
-  }): Promise<any[]> {
-    let query = supabase
-      .from('market_consensus')
-      .select('*');
-
-    if (filters?.sport) {
-      query = query.eq('sport', filters.sport);
-    }
+    maxAgeMinutes?: number;
+  }): Promise<OddsSnapshotRow[]> {
+    const maxAgeMinutes =
+      filters?.maxAgeMinutes ?? DEFAULT_MAX_SNAPSHOT_AGE_MINUTES;
 
-    if (filters?.gameDate) {
-      query = query.eq('game_date', filters.gameDate);
-    }
+    // An unchanged price stays current as long as refreshes confirm it
+    const seenSince =
+      maxAgeMinutes > 0
+        ? new Date(Date.now() - maxAgeMinutes * 60 * 1000).toISOString()
+        : undefined;
 
-    const { data, error } = await query;
+    const rows = await this.odds.findSnapshots({ sport: filters?.sport, seenSince });
 
-    if (error) throw error;
-    return data || [];
+    return selectLatestSnapshots(rows, { maxAgeMinutes });
   }
 
   /**
-   * Get all latest odds (for dashboard display)
+   * Get the full snapshot history for a prop, oldest first
+   */
+  async getPropHistory(
+    playerId: string,
+    statType: string,
+    gameDate?: string
+  ): Promise<OddsSnapshotRow[]> {
+    return this.odds.findSnapshots({ playerId, statType, gameDate });
+  }
+
+  /**
+   * Each book's latest price for every prop, newest first (for dashboard display)
    */
   async getAllLatestOdds(filters?: {
     sport?: string;
     limit?: number;
-  }): Promise<any[]> {
-    let query = supabase
-      .from('latest_odds')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (filters?.sport) {
-      query = query.eq('sport', filters.sport);
-    }
-
-    if (filters?.limit) {
-      query = query.limit(filters.limit);
-    }
+  }): Promise<OddsSnapshotRow[]> {
+    const rows = await this.odds.findSnapshots({ sport: filters?.sport });
 
-    const { data, error } = await query;
+    const latest = selectLatestSnapshots(rows, { excludeStarted: false }).sort((a, b) =>
+      (b.created_at ?? '').localeCompare(a.created_at ?? '')
+    );
 
-    if (error) throw error;
-    return data || [];
+    return filters?.limit ? latest.slice(0, filters.limit) : latest;
   }
 }
 
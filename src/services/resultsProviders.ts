@@ -0,0 +1,46 @@
+import { parseGameLogFile } from '@/lib/gameLogImporter';
+import type { PlayerGameLog } from '@/types';
+
+/**
+ * A source of final stat lines for grading props
+ */
+export interface ResultsProvider {
+  name: string;
+  getFinalStats(): Promise<PlayerGameLog[]>;
+}
+
+/**
+ * Final stat lines from an imported box-score file (CSV or JSON)
+ */
+export class FileResultsProvider implements ResultsProvider {
+  name = 'file';
+
+  constructor(
+    private fileName: string,
+    private text: string,
+    private defaults: { sport?: string } = {}
+  ) {}
+
+  async getFinalStats(): Promise<PlayerGameLog[]> {
+    const { logs, errors } = parseGameLogFile(this.fileName, this.text, this.defaults);
+
+    if (errors.length > 0) {
+      console.warn(`Skipped ${errors.length} rows in ${this.fileName}`, errors);
+    }
+
+    return logs;
+  }
+}
+
+/**
+ * Fixed final stat lines for local development and tests
+ */
+export class StubResultsProvider implements ResultsProvider {
+  name = 'stub';
+
+  constructor(private stats: PlayerGameLog[] = []) {}
+
+  async getFinalStats(): Promise<PlayerGameLog[]> {
+    return this.stats;
+  }
+}
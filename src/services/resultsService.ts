@@ -0,0 +1,62 @@
+import { gradeSnapshots } from '@/lib/grading';
+import {
+  getOddsRepository,
+  type GradedPropFilters,
+  type OddsRepository,
+} from '@/services/oddsRepository';
+import type { ResultsProvider } from '@/services/resultsProviders';
+import type { GradedProp } from '@/types';
+
+export type { GradedPropFilters };
+
+export interface GradingReport {
+  provider: string;
+  finalStats: number;
+  graded: number;
+}
+
+export class ResultsService {
+  constructor(private repository?: OddsRepository) {}
+
+  private get odds(): OddsRepository {
+    return this.repository ?? getOddsRepository();
+  }
+
+  /**
+   * Grade every priced prop that the provider has a final stat line for
+   */
+  async gradeProps(provider: ResultsProvider): Promise<GradingReport> {
+    const finalStats = await provider.getFinalStats();
+
+    if (finalStats.length === 0) {
+      return { provider: provider.name, finalStats: 0, graded: 0 };
+    }
+
+    const playerIds = [...new Set(finalStats.map((stat) => stat.player_id))];
+
+    const snapshots = await this.odds.findSnapshots({
+      playerIds,
+      gameDateBefore: new Date().toISOString(),
+    });
+
+    const graded = gradeSnapshots(snapshots, finalStats);
+
+    try {
+      await this.odds.saveGradedProps(graded);
+    } catch (error) {
+      console.error('Error saving graded props:', error);
+      throw error;
+    }
+
+    return { provider: provider.name, finalStats: finalStats.length, graded: graded.length };
+  }
+
+  /**
+   * Graded history, most recent game first
+   */
+  async getGradedProps(filters: GradedPropFilters = {}): Promise<GradedProp[]> {
+    return this.odds.findGradedProps(filters);
+  }
+}
+
+export const resultsService = new ResultsService();
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { calculateArbStakes, findArbitrages } from "@/lib/arbitrage";
+import type { OddsSnapshotRow } from "@/types";
+
+function row(sportsbook: string, line: number, overOdds: number, underOdds: number): OddsSnapshotRow {
+  return {
+    player_id: "jayson-tatum",
+    player_name: "Jayson Tatum",
+    sport: "NBA",
+    stat_type: "Points",
+    line,
+    sportsbook,
+    over_odds: overOdds,
+    under_odds: underOdds,
+    game_date: "2026-02-21T00:30:00Z",
+  };
+}
+
+describe("findArbitrages", () => {
+  it("pairs the best Over and Under across books on the same line", () => {
+    const arbs = findArbitrages([
+      row("DraftKings", 27.5, 110, -130),
+      row("FanDuel", 27.5, -125, 105),
+      row("BetMGM", 27.5, -110, -110),
+      // A different line is a middle, not an arb
+      row("Caesars", 28.5, 150, 150),
+    ]);
+
+    expect(arbs).toHaveLength(1);
+    expect(arbs[0]).toMatchObject({
+      line: 27.5,
+      over: { sportsbook: "DraftKings", odds: 110 },
+      under: { sportsbook: "FanDuel", odds: 105 },
+    });
+    expect(arbs[0].impliedTotal).toBeCloseTo(100 / 210 + 100 / 205, 10);
+    expect(arbs[0].profitPct).toBeGreaterThan(0);
+  });
+
+  it("ignores markets without a cross-book edge", () => {
+    expect(findArbitrages([row("DraftKings", 27.5, -110, -110), row("FanDuel", 27.5, -105, -115)])).toEqual([]);
+  });
+});
+
+describe("calculateArbStakes", () => {
+  it("equalizes payouts across outcomes", () => {
+    const plan = calculateArbStakes([110, 105], 1000, 0);
+
+    expect(plan.stakes[0]).toBeCloseTo(1000 / 2.1, 10);
+    expect(plan.payouts[0]).toBeCloseTo(1000, 10);
+    expect(plan.payouts[1]).toBeCloseTo(1000, 10);
+    expect(plan.guaranteedProfit).toBeCloseTo(1000 - 1000 / 2.1 - 1000 / 2.05, 10);
+  });
+
+  it("reports the worst-case profit after rounding", () => {
+    const plan = calculateArbStakes([110, 105], 1000, 5);
+
+    expect(plan.stakes).toEqual([475, 490]);
+    expect(plan.guaranteedProfit).toBeCloseTo(Math.min(475 * 2.1, 490 * 2.05) - 965, 10);
+  });
+});
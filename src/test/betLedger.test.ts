@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildProfitCurve,
+  calculateBetProfit,
+  repriceDraft,
+  settleBet,
+  summarizeBets,
+  type BetDraft,
+} from "@/lib/betLedger";
+import {
+  calculateEV,
+  calculateParlayPayout,
+  convertDecimalToAmerican,
+} from "@/lib/evCalculator";
+import type { Bet, BetLeg } from "@/types";
+
+function leg(direction: "Over" | "Under", odds = -110): BetLeg {
+  return {
+    player_id: "jayson-tatum",
+    player_name: "Jayson Tatum",
+    sport: "NBA",
+    stat_type: "Points",
+    game_date: "2026-02-21T00:30:00Z",
+    direction,
+    line: 27.5,
+    odds,
+    true_prob: 0.55,
+  };
+}
+
+function bet(overrides: Partial<Bet>): Bet {
+  return {
+    id: "1",
+    kind: "straight",
+    sportsbook: "DraftKings",
+    odds: 100,
+    stake: 100,
+    ev_pct: 5,
+    true_prob: 0.55,
+    legs: [leg("Over")],
+    status: "open",
+    profit: null,
+    placed_at: "2026-02-20T18:00:00Z",
+    settled_at: null,
+    ...overrides,
+  };
+}
+
+describe("convertDecimalToAmerican", () => {
+  it("round-trips favourites and underdogs", () => {
+    expect(convertDecimalToAmerican(2.5)).toBe(150);
+    expect(convertDecimalToAmerican(1.5)).toBe(-200);
+  });
+});
+
+describe("settleBet", () => {
+  it("settles a straight bet from its graded leg", () => {
+    expect(settleBet(bet({}), ["Over"])).toEqual({ status: "won", profit: 100 });
+    expect(settleBet(bet({}), ["Under"])).toEqual({ status: "lost", profit: -100 });
+    expect(settleBet(bet({}), [null]).status).toBe("open");
+  });
+
+  it("loses a parlay on any losing leg and shrinks the payout for pushes", () => {
+    // +100 and +100 legs make a +300 ticket
+    const parlay = bet({ kind: "parlay", odds: 300, legs: [leg("Over", 100), leg("Under", 100)] });
+
+    expect(settleBet(parlay, ["Under", null])).toEqual({ status: "lost", profit: -100 });
+    expect(settleBet(parlay, ["Over", "Push"])).toEqual({ status: "won", profit: 100 });
+    expect(settleBet(parlay, ["Push", "Push"])).toEqual({ status: "push", profit: 0 });
+  });
+
+  it("pays a parlay its exact payout rather than the rounded American price", () => {
+    const legs = [leg("Over"), leg("Over"), leg("Over")];
+    const payout = calculateParlayPayout(legs.map((l) => l.odds));
+    const parlay = bet({
+      kind: "parlay",
+      odds: convertDecimalToAmerican(payout),
+      decimal_odds: payout,
+      legs,
+    });
+
+    expect(settleBet(parlay, ["Over", "Over", "Over"]).profit).toBeCloseTo(100 * (payout - 1), 10);
+    expect(settleBet(parlay, ["Over", "Over", "Push"]).profit).toBeCloseTo(
+      100 * (calculateParlayPayout([-110, -110]) - 1),
+      10
+    );
+    expect(calculateBetProfit(100, parlay.odds, "won", payout)).toBeCloseTo(100 * (payout - 1), 10);
+  });
+});
+
+describe("summarizeBets", () => {
+  const bets = [
+    bet({ id: "a", status: "won", profit: calculateBetProfit(100, 100, "won"), settled_at: "2026-02-21T05:00:00Z" }),
+    bet({ id: "b", status: "lost", profit: -50, stake: 50, ev_pct: 10, settled_at: "2026-02-21T04:00:00Z" }),
+    bet({ id: "c", status: "void", profit: 0, settled_at: "2026-02-21T06:00:00Z" }),
+    bet({ id: "d" }),
+  ];
+
+  it("reports P&L, ROI and expected profit on settled bets", () => {
+    expect(summarizeBets(bets)).toMatchObject({
+      openBets: 1,
+      openStake: 100,
+      settledBets: 2,
+      settledStake: 150,
+      profit: 50,
+      expectedProfit: 10,
+      roi: 50 / 150,
+    });
+  });
+
+  it("accumulates profit in settle order", () => {
+    expect(buildProfitCurve(bets).map((p) => [p.profit, p.expected])).toEqual([
+      [-50, 5],
+      [50, 10],
+      [50, 10],
+    ]);
+  });
+});
+
+describe("repriceDraft", () => {
+  const draft: BetDraft = {
+    kind: "straight",
+    sportsbook: "DraftKings",
+    odds: 110,
+    stake: 50,
+    ev_pct: calculateEV(0.55, 110, 100, 0.08).expectedValue,
+    true_prob: 0.55,
+    push_prob: 0.08,
+    legs: [leg("Over", 110)],
+  };
+
+  it("keeps the scanner's EV when the odds are unchanged", () => {
+    expect(repriceDraft(draft, 110)).toBe(draft);
+  });
+
+  it("drops an exact parlay payout once other odds are typed in", () => {
+    const parlay: BetDraft = { ...draft, kind: "parlay", odds: 596, decimal_odds: 6.9575 };
+
+    expect(repriceDraft(parlay, 600).decimal_odds).toBeNull();
+  });
+
+  it("scales repriced EV by the push chance like the scanner", () => {
+    expect(repriceDraft(draft, 100).ev_pct).toBeCloseTo(
+      calculateEV(0.55, 100, 100, 0.08).expectedValue,
+      10
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  brierScore,
+  buildCalibrationSamples,
+  buildConfidenceModel,
+  edgeRealization,
+  empiricalConfidence,
+  logLoss,
+  reliabilityBins,
+  type CalibrationSample,
+} from "@/lib/calibration";
+import type { GradedProp } from "@/types";
+
+function sample(predicted: number, outcome: 0 | 1, bookProbability = 0.5, books = 2): CalibrationSample {
+  return {
+    method: "multiplicative",
+    sport: "NBA",
+    stat_type: "Points",
+    sportsbook: "DraftKings",
+    predicted,
+    bookProbability,
+    outcome,
+    books,
+  };
+}
+
+function graded(sportsbook: string, overOdds: number, underOdds: number): GradedProp {
+  return {
+    player_id: "jayson-tatum",
+    player_name: "Jayson Tatum",
+    sport: "NBA",
+    stat_type: "Points",
+    game_date: "2026-02-21T00:30:00Z",
+    sportsbook,
+    line: 27.5,
+    over_odds: overOdds,
+    under_odds: underOdds,
+    actual_value: 30,
+    outcome: "Over",
+    graded_at: "2026-02-21T06:00:00Z",
+  };
+}
+
+describe("buildCalibrationSamples", () => {
+  it("predicts each book from the other books only", () => {
+    const samples = buildCalibrationSamples(
+      [graded("DraftKings", -110, -110), graded("FanDuel", 100, -120)],
+      ["multiplicative"]
+    );
+
+    expect(samples).toHaveLength(2);
+    const draftKings = samples.find((s) => s.sportsbook === "DraftKings")!;
+    // FanDuel +100/-120 devigs to 47.8% Over
+    expect(draftKings.predicted).toBeCloseTo(0.5 / (0.5 + 120 / 220), 6);
+    expect(draftKings.bookProbability).toBeCloseTo(0.5, 6);
+    expect(draftKings).toMatchObject({ outcome: 1, books: 1 });
+  });
+});
+
+describe("scores", () => {
+  const samples = [sample(0.8, 1), sample(0.3, 0), sample(0.6, 0)];
+
+  it("computes Brier score and log-loss", () => {
+    expect(brierScore(samples)).toBeCloseTo((0.04 + 0.09 + 0.36) / 3, 10);
+    expect(logLoss(samples)).toBeCloseTo(-(Math.log(0.8) + Math.log(0.7) + Math.log(0.4)) / 3, 10);
+  });
+
+  it("bins predictions for the reliability diagram", () => {
+    const bins = reliabilityBins(samples, 2);
+
+    expect(bins).toEqual([
+      { lower: 0, upper: 0.5, count: 1, meanPredicted: 0.3, observedRate: 0 },
+      expect.objectContaining({ lower: 0.5, count: 2, observedRate: 0.5 }),
+    ]);
+    expect(bins[1].meanPredicted).toBeCloseTo(0.7);
+  });
+});
+
+describe("empirical confidence", () => {
+  it("measures how much of the predicted edge was realized", () => {
+    // Predicted +10% edges that hit 55% of the time realize half the edge
+    const samples = [
+      ...Array.from({ length: 11 }, () => sample(0.6, 1)),
+      ...Array.from({ length: 9 }, () => sample(0.6, 0)),
+    ];
+
+    expect(edgeRealization(samples)).toBeCloseTo(0.5, 10);
+  });
+
+  it("falls back to the overall estimate for thin buckets", () => {
+    const samples = [
+      ...Array.from({ length: 30 }, () => sample(0.6, 1, 0.5, 3)),
+      ...Array.from({ length: 30 }, () => sample(0.6, 0, 0.5, 3)),
+      ...Array.from({ length: 6 }, () => sample(0.6, 1, 0.5, 1)),
+    ];
+    const model = buildConfidenceModel(samples);
+
+    expect(model.byBooks[3]).toBe(0);
+    expect(empiricalConfidence(model, 1)).toBeCloseTo(model.overall!, 10);
+    expect(empiricalConfidence(buildConfidenceModel(samples.slice(0, 10)), 3)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { aggregateClv, americanToCents, calculateCLV } from "@/lib/clv";
+
+const closing = [
+  { sportsbook: "DraftKings", line: 27.5, over_odds: -130, under_odds: 110 },
+  { sportsbook: "FanDuel", line: 27.5, over_odds: -120, under_odds: 100 },
+];
+
+describe("americanToCents", () => {
+  it("skips the gap between -100 and +100", () => {
+    expect(americanToCents(105) - americanToCents(-110)).toBe(15);
+  });
+});
+
+describe("calculateCLV", () => {
+  it("measures cents against the same book and no-vig against the closing consensus", () => {
+    const clv = calculateCLV(
+      { stat_type: "Points", sportsbook: "DraftKings", line: 27.5, direction: "Over", odds: -110 },
+      closing
+    )!;
+
+    expect(clv.cents).toBe(20);
+    expect(clv.closingOdds).toBe(-130);
+    expect(clv.closingProbability).toBeCloseTo(0.532241, 5);
+    expect(clv.probabilityClv).toBeCloseTo(0.008431, 5);
+  });
+
+  it("has no cents figure when the book closed at another line", () => {
+    const clv = calculateCLV(
+      { stat_type: "Points", sportsbook: "DraftKings", line: 26.5, direction: "Over", odds: -110 },
+      closing
+    )!;
+
+    expect(clv.cents).toBeNull();
+    // The close re-priced at 26.5 makes the Over more likely
+    expect(clv.closingProbability).toBeGreaterThan(0.532241);
+  });
+
+  it("returns null without closing lines", () => {
+    expect(
+      calculateCLV({ stat_type: "Points", sportsbook: "FanDuel", line: 27.5, direction: "Under", odds: 100 }, [])
+    ).toBeNull();
+  });
+});
+
+describe("aggregateClv", () => {
+  it("averages CLV per group", () => {
+    const entries = [
+      { book: "DraftKings", clv: { cents: 20, probabilityClv: 0.02 } },
+      { book: "DraftKings", clv: { cents: null, probabilityClv: -0.01 } },
+      { book: "FanDuel", clv: { cents: -5, probabilityClv: -0.01 } },
+    ].map((entry) => ({
+      ...entry,
+      clv: { ...entry.clv, closingLine: null, closingOdds: null, closingProbability: 0.5, impliedProbability: 0.5, closingBooks: 2 },
+    }));
+
+    const [draftKings] = aggregateClv(entries, (e) => e.book);
+
+    expect(draftKings).toMatchObject({ key: "DraftKings", count: 2, avgCents: 20, beatCloseRate: 0.5 });
+    expect(draftKings.avgProbabilityClv).toBeCloseTo(0.005);
+  });
+});
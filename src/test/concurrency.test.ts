@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { createRateLimiter, mapWithConcurrency } from "@/lib/concurrency";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps input order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 5, 15],
+      async (ms) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        inFlight--;
+        return ms * 2;
+      },
+      { concurrency: 2 }
+    );
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([60, 20, 40, 10, 30]);
+  });
+
+  it("reports progress in completion order", async () => {
+    const gates = [deferred(), deferred(), deferred()];
+    const progress: string[] = [];
+
+    const done = mapWithConcurrency(
+      ["BOS", "DEN", "LAL"],
+      async (team, i) => {
+        await gates[i].promise;
+        return team;
+      },
+      {
+        concurrency: 3,
+        onProgress: (completed, total, team) => progress.push(`${completed}/${total} ${team}`),
+      }
+    );
+
+    gates[2].resolve();
+    gates[0].resolve();
+    gates[1].resolve();
+    await done;
+
+    expect(progress).toEqual(["1/3 LAL", "2/3 BOS", "3/3 DEN"]);
+  });
+
+  it("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], async () => 1, { concurrency: 4 })).toEqual([]);
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("spaces starts by 1000 / rate ms", async () => {
+    let clock = 0;
+    const waits: number[] = [];
+    const acquire = createRateLimiter(
+      4,
+      () => clock,
+      async (ms) => {
+        waits.push(ms);
+      }
+    );
+
+    await acquire();
+    await acquire();
+    await acquire();
+    clock = 1000;
+    await acquire();
+
+    expect(waits).toEqual([250, 500]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  creditsAvailable,
+  estimateRefreshCost,
+  parseCreditHeaders,
+  planRefresh,
+  startOfUtcDay,
+} from "@/lib/creditBudget";
+
+const events = [
+  { id: "late", commence_time: "2026-01-15T03:00:00Z" },
+  { id: "early", commence_time: "2026-01-15T00:00:00Z" },
+  { id: "middle", commence_time: "2026-01-15T01:30:00Z" },
+];
+
+const now = new Date("2026-01-14T20:00:00Z");
+
+describe("estimateRefreshCost", () => {
+  it("charges one credit per market per region per event", () => {
+    expect(estimateRefreshCost(10, 7, 1)).toBe(70);
+    expect(estimateRefreshCost(10, 7, 2)).toBe(140);
+  });
+});
+
+describe("parseCreditHeaders", () => {
+  it("reads the quota headers and tolerates missing ones", () => {
+    const headers = new Headers({ "x-requests-used": "120", "x-requests-remaining": "380" });
+
+    expect(parseCreditHeaders(headers)).toEqual({ used: 120, remaining: 380, last: null });
+  });
+});
+
+describe("creditsAvailable", () => {
+  it("is limited by the daily cap and by the account balance", () => {
+    expect(creditsAvailable({ dailyCap: 100, spentToday: 30, remaining: null })).toBe(70);
+    expect(creditsAvailable({ dailyCap: 100, spentToday: 30, remaining: 20 })).toBe(20);
+    expect(creditsAvailable({ dailyCap: 100, spentToday: 130, remaining: 500 })).toBe(0);
+  });
+});
+
+describe("planRefresh", () => {
+  it("takes every event when the budget covers them", () => {
+    const plan = planRefresh(events, () => 7, 100, now);
+
+    expect(plan.events.map((e) => e.id)).toEqual(["early", "middle", "late"]);
+    expect(plan.estimatedCost).toBe(21);
+    expect(plan.blocked).toBe(false);
+  });
+
+  it("fetches the soonest events first when the budget is low", () => {
+    const plan = planRefresh(events, () => 7, 15, now);
+
+    expect(plan.events.map((e) => e.id)).toEqual(["early", "middle"]);
+    expect(plan.skipped.map((e) => e.id)).toEqual(["late"]);
+    expect(plan.estimatedCost).toBe(14);
+  });
+
+  it("still takes cheaper later events that fit", () => {
+    const plan = planRefresh(events, (e) => (e.id === "middle" ? 10 : 3), 8, now);
+
+    expect(plan.events.map((e) => e.id)).toEqual(["early", "late"]);
+  });
+
+  it("blocks a refresh that would go over the cap", () => {
+    const plan = planRefresh(events, () => 7, 5, now);
+
+    expect(plan.events).toEqual([]);
+    expect(plan.blocked).toBe(true);
+    expect(planRefresh([], () => 7, 0, now).blocked).toBe(false);
+  });
+
+  it("never spends credits on games that have started", () => {
+    const plan = planRefresh(events, () => 7, 7, new Date("2026-01-15T01:30:00Z"));
+
+    expect(plan.started.map((e) => e.id)).toEqual(["early", "middle"]);
+    expect(plan.events.map((e) => e.id)).toEqual(["late"]);
+    expect(planRefresh(events, () => 7, 0, new Date("2026-01-16T00:00:00Z")).blocked).toBe(false);
+  });
+});
+
+describe("startOfUtcDay", () => {
+  it("resets at midnight UTC", () => {
+    expect(startOfUtcDay(new Date("2026-01-15T23:59:00-05:00")).toISOString()).toBe(
+      "2026-01-16T00:00:00.000Z"
+    );
+  });
+});
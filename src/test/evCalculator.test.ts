@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEVIG_STRATEGIES,
+  calculateEV,
+  calculateKellyFraction,
+  calculateKellyStake,
+  calculateMarketConsensus,
+  convertAmericanToDecimal,
+  convertAmericanToProbability,
+  removeVig,
+  type DevigMethod,
+} from "@/lib/evCalculator";
+
+const implied = (over: number, under: number) =>
+  [convertAmericanToProbability(over), convertAmericanToProbability(under)] as const;
+
+describe("removeVig", () => {
+  // Reference values computed independently with exact root finding
+  const cases: Array<{
+    odds: [number, number];
+    expected: Record<DevigMethod, number>;
+  }> = [
+    {
+      odds: [-150, 130],
+      expected: {
+        multiplicative: 0.579832,
+        additive: 0.582609,
+        power: 0.583983,
+        shin: 0.582609,
+        probit: 0.58269,
+      },
+    },
+    {
+      odds: [-300, 240],
+      expected: {
+        multiplicative: 0.71831,
+        additive: 0.727941,
+        power: 0.733084,
+        shin: 0.727941,
+        probit: 0.728387,
+      },
+    },
+  ];
+
+  for (const { odds, expected } of cases) {
+    for (const method of Object.keys(expected) as DevigMethod[]) {
+      it(`${method} devigs ${odds[0]}/${odds[1]}`, () => {
+        const [over, under] = implied(...odds);
+        const result = removeVig(over, under, method);
+
+        expect(result.over).toBeCloseTo(expected[method], 4);
+        expect(result.over + result.under).toBeCloseTo(1, 6);
+        expect(result.vigPercent).toBeCloseTo((over + under - 1) * 100, 6);
+      });
+    }
+  }
+
+  it("returns 50/50 for a symmetric market with every method", () => {
+    const [over, under] = implied(-110, -110);
+
+    for (const method of Object.keys(DEVIG_STRATEGIES) as DevigMethod[]) {
+      expect(removeVig(over, under, method).over).toBeCloseTo(0.5, 6);
+    }
+  });
+
+  it("defaults to multiplicative", () => {
+    const [over, under] = implied(-150, 130);
+    expect(removeVig(over, under).over).toBeCloseTo(0.579832, 5);
+  });
+
+  it("separates shin from additive on three-way markets", () => {
+    const probs = [150, 220, -120].map(convertAmericanToProbability);
+
+    const shin = DEVIG_STRATEGIES.shin(probs);
+    const additive = DEVIG_STRATEGIES.additive(probs);
+
+    expect(shin[0]).toBeCloseTo(0.314845, 4);
+    expect(shin[1]).toBeCloseTo(0.233173, 4);
+    expect(shin[2]).toBeCloseTo(0.451982, 4);
+    expect(additive[1]).toBeCloseTo(0.226515, 4);
+  });
+
+  it("keeps additive fair probabilities summing to 1 when longshots fall below the margin", () => {
+    const probs = [-1000, 300, 2000, 5000].map(convertAmericanToProbability);
+
+    const additive = DEVIG_STRATEGIES.additive(probs);
+
+    expect(additive.reduce((total, p) => total + p, 0)).toBeCloseTo(1, 10);
+    expect(additive[2]).toBe(0);
+    expect(additive[3]).toBe(0);
+    expect(additive[0]).toBeCloseTo(0.829545, 5);
+    expect(additive[1]).toBeCloseTo(0.170455, 5);
+  });
+});
+
+describe("calculateMarketConsensus", () => {
+  it("applies the requested devig method to every book", () => {
+    const props = [
+      { sportsbook: "FanDuel", overOdds: -150, underOdds: 130 },
+      { sportsbook: "DraftKings", overOdds: -300, underOdds: 240 },
+    ];
+
+    const consensus = calculateMarketConsensus(props, "power");
+
+    expect(consensus.over).toBeCloseTo((0.583983 + 0.733084) / 2, 4);
+    expect(consensus.sampleSize).toBe(2);
+  });
+});
+
+describe("weighted consensus", () => {
+  const props = [
+    { sportsbook: "Pinnacle", overOdds: -150, underOdds: 130 },
+    { sportsbook: "PrizePicks", overOdds: -110, underOdds: -110 },
+  ];
+
+  it("weights books by the supplied profile", () => {
+    const consensus = calculateMarketConsensus(props, "multiplicative", {
+      weights: { pinnacle: 3 },
+      defaultWeight: 1,
+    });
+
+    expect(consensus.over).toBeCloseTo((0.579832 * 3 + 0.5) / 4, 5);
+    expect(consensus.contributions[0].share).toBeCloseTo(0.75, 6);
+  });
+
+  it("drops zero-weight books in sharp-only mode", () => {
+    const consensus = calculateMarketConsensus(props, "multiplicative", {
+      weights: { Pinnacle: 1 },
+      defaultWeight: 0,
+    });
+
+    expect(consensus.over).toBeCloseTo(0.579832, 5);
+    expect(consensus.sampleSize).toBe(1);
+  });
+
+  it("throws when no book carries weight", () => {
+    expect(() =>
+      calculateMarketConsensus(props, "multiplicative", {
+        weights: {},
+        defaultWeight: 0,
+      })
+    ).toThrow();
+  });
+});
+
+describe("push-aware EV", () => {
+  it("matches the win/lose EV when there is no push", () => {
+    const result = calculateEV(0.55, -110);
+
+    expect(result.expectedValue).toBeCloseTo(5, 6);
+    expect(result.winProbability).toBeCloseTo(0.55, 6);
+  });
+
+  it("refunds the push share of the stake", () => {
+    const result = calculateEV(0.55, -110, 100, 0.1);
+
+    // 0.495 * 90.909 - 0.405 * 100
+    expect(result.expectedValue).toBeCloseTo(4.5, 6);
+    expect(result.winProbability).toBeCloseTo(0.495, 6);
+    expect(result.edgePercent).toBeCloseTo(calculateEV(0.55, -110).edgePercent, 6);
+  });
+
+  it("rejects an impossible push probability", () => {
+    expect(() => calculateEV(0.55, -110, 100, 1)).toThrow();
+  });
+});
+
+describe("Kelly stake sizing", () => {
+  const settings = { bankroll: 1000, kellyFraction: 1, maxStakePercent: 100 };
+
+  it("computes full Kelly", () => {
+    // b = 0.90909, f* = (0.90909 * 0.55 - 0.45) / 0.90909
+    expect(calculateKellyFraction(0.55, convertAmericanToDecimal(-110))).toBeCloseTo(0.055, 6);
+    expect(calculateKellyStake(0.55, convertAmericanToDecimal(-110), settings)).toBeCloseTo(55, 4);
+  });
+
+  it("never stakes a -EV bet", () => {
+    expect(calculateKellyFraction(0.5, convertAmericanToDecimal(-110))).toBe(0);
+  });
+
+  it("applies fractional Kelly, confidence and the cap", () => {
+    const decimal = convertAmericanToDecimal(-110);
+
+    expect(
+      calculateKellyStake(0.55, decimal, { ...settings, kellyFraction: 0.25 })
+    ).toBeCloseTo(13.75, 4);
+    expect(
+      calculateKellyStake(0.55, decimal, { ...settings, kellyFraction: 0.25 }, 0.5)
+    ).toBeCloseTo(6.875, 4);
+    expect(
+      calculateKellyStake(0.55, decimal, { ...settings, maxStakePercent: 1 })
+    ).toBeCloseTo(10, 4);
+  });
+});
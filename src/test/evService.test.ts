@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { EVService } from "@/services/evService";
+import { LocalOddsRepository } from "@/services/localOddsRepository";
+import { OddsService } from "@/services/oddsService";
+import type { OddsSnapshotRow } from "@/types";
+
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+const snapshot = (
+  sportsbook: string,
+  overOdds: number,
+  underOdds: number,
+  overrides: Partial<OddsSnapshotRow> = {}
+): OddsSnapshotRow => ({
+  player_id: "jayson-tatum",
+  player_name: "Jayson Tatum",
+  sport: "NBA",
+  stat_type: "Points",
+  line: 27.5,
+  sportsbook,
+  over_odds: overOdds,
+  under_odds: underOdds,
+  game_date: tomorrow,
+  created_at: new Date().toISOString(),
+  ...overrides,
+});
+
+function evServiceFor(rows: OddsSnapshotRow[]): EVService {
+  return new EVService(new OddsService(new LocalOddsRepository(undefined, { odds_snapshots: rows })));
+}
+
+describe("EVService leave-one-out consensus", () => {
+  it("leaves each book out of its own consensus", async () => {
+    const service = evServiceFor([
+      snapshot("FanDuel", 120, -145),
+      snapshot("DraftKings", -110, -110),
+      snapshot("BetMGM", -105, -115),
+    ]);
+
+    const evs = await service.calculateAllEVs({ leaveOneOut: true });
+
+    expect(evs).toHaveLength(3);
+    for (const ev of evs) {
+      const books = ev.consensus_books.map((c) => c.sportsbook);
+      expect(books).not.toContain(ev.best_sportsbook.name);
+      expect(ev.consensus_sample_size).toBe(2);
+      expect(ev.thin_consensus).toBe(false);
+    }
+  });
+
+  it("flags a row priced off a single other book", async () => {
+    const service = evServiceFor([
+      snapshot("FanDuel", 120, -145),
+      snapshot("DraftKings", -110, -110),
+    ]);
+
+    const evs = await service.calculateAllEVs({ leaveOneOut: true });
+
+    expect(evs).toHaveLength(2);
+    expect(evs.every((ev) => ev.thin_consensus && ev.consensus_sample_size === 1)).toBe(true);
+  });
+
+  it("drops thin rows when asked to", async () => {
+    const service = evServiceFor([
+      snapshot("FanDuel", 120, -145),
+      snapshot("DraftKings", -110, -110),
+    ]);
+
+    expect(
+      await service.calculateAllEVs({ leaveOneOut: true, dropThinConsensus: true })
+    ).toEqual([]);
+  });
+});
+
+describe("EVService best prices", () => {
+  it("keeps one Over and one Under per prop at the best price across books and lines", async () => {
+    const service = evServiceFor([
+      snapshot("FanDuel", 120, -145),
+      snapshot("DraftKings", -110, -110),
+      snapshot("BetMGM", -130, 100, { line: 28.5 }),
+      snapshot("Caesars", -110, -110, { player_id: "jaylen-brown", player_name: "Jaylen Brown" }),
+      snapshot("FanDuel", -115, -105, { player_id: "jaylen-brown", player_name: "Jaylen Brown" }),
+    ]);
+
+    const rows = await service.calculateBestPrices();
+    const tatum = rows.filter((row) => row.player_prop.player_id === "jayson-tatum");
+
+    expect(rows).toHaveLength(4);
+    expect(tatum.map((row) => row.direction).sort()).toEqual(["Over", "Under"]);
+
+    for (const row of tatum) {
+      expect(row.alternatives).toHaveLength(2);
+      expect(
+        [row.best_sportsbook.name, ...row.alternatives.map((alt) => alt.sportsbook.name)].sort()
+      ).toEqual(["BetMGM", "DraftKings", "FanDuel"]);
+      expect(row.alternatives.every((alt) => alt.ev_pct <= row.ev_pct)).toBe(true);
+    }
+
+    const over = tatum.find((row) => row.direction === "Over")!;
+    expect(over).toMatchObject({ best_sportsbook: { name: "FanDuel" }, best_odds: 120 });
+
+    const under = tatum.find((row) => row.direction === "Under")!;
+    expect(under).toMatchObject({ best_sportsbook: { name: "BetMGM" }, best_line: 28.5 });
+  });
+});
+
+describe("EVService game separation", () => {
+  it("keeps a player's props on different game dates in separate consensus groups", async () => {
+    const nextDay = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+    const service = evServiceFor([
+      snapshot("FanDuel", 120, -145),
+      snapshot("DraftKings", -110, -110),
+      snapshot("BetMGM", -105, -115),
+      snapshot("FanDuel", -160, 135, { game_date: nextDay }),
+      snapshot("DraftKings", -150, 125, { game_date: nextDay }),
+      snapshot("BetMGM", -155, 130, { game_date: nextDay }),
+    ]);
+
+    const evs = await service.calculateAllEVs({ leaveOneOut: true });
+
+    expect(evs).toHaveLength(6);
+    for (const ev of evs) {
+      expect(ev.consensus_sample_size).toBe(2);
+    }
+
+    const rows = await service.calculateBestPrices();
+
+    expect(rows).toHaveLength(4);
+    for (const row of rows) {
+      expect(row.alternatives).toHaveLength(2);
+    }
+  });
+});
+
+describe("EVService empirical confidence", () => {
+  it("reads the same confidence bucket with and without leave-one-out", async () => {
+    const service = evServiceFor([
+      snapshot("FanDuel", 120, -145),
+      snapshot("DraftKings", -110, -110),
+      snapshot("BetMGM", -105, -115),
+    ]);
+    const confidenceModel = { byBooks: { 2: 0.4, 3: 0.9 }, overall: 0.6, samples: 100 };
+
+    const withoutLoo = await service.calculateAllEVs({ confidenceModel });
+    const withLoo = await service.calculateAllEVs({ confidenceModel, leaveOneOut: true });
+
+    expect(withoutLoo.map((ev) => ev.confidence_score)).toEqual([40, 40, 40]);
+    expect(withLoo.map((ev) => ev.confidence_score)).toEqual([40, 40, 40]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { parseGameLogFile } from "@/lib/gameLogImporter";
+import { calculateHitRateSplits, matchesOpponent } from "@/lib/hitRates";
+
+const csv = [
+  "Player,Date,Opp,Season,PTS,REB,AST",
+  "Jayson Tatum,2026-02-20,@ Miami Heat,2025-26,31,8,4",
+  'Jayson Tatum,2026-02-22,"vs Orlando Magic",2025-26,24,11,6',
+  "Jayson Tatum,2026-02-24,vs Miami Heat,2025-26,27,6,5",
+  "Jayson Tatum,not-a-date,vs Miami Heat,2025-26,27,6,5",
+].join("\n");
+
+describe("parseGameLogFile", () => {
+  it("imports CSV box scores into per-stat rows", () => {
+    const { logs, errors } = parseGameLogFile("tatum.csv", csv);
+
+    expect(errors).toHaveLength(1);
+    // Points, Rebounds, Assists and derived PRA for three games
+    expect(logs).toHaveLength(12);
+
+    const first = logs.find((l) => l.game_date === "2026-02-20" && l.stat_type === "PRA");
+    expect(first).toMatchObject({
+      player_id: "jayson-tatum",
+      opponent: "Miami Heat",
+      is_home: false,
+      value: 43,
+    });
+  });
+
+  it("imports JSON wrapped in a games array", () => {
+    const json = JSON.stringify({
+      games: [{ player_name: "Luka Doncic", game_date: "2026-02-21", opponent: "LAL", home: "H", ast: 12 }],
+    });
+
+    const { logs } = parseGameLogFile("luka.json", json);
+
+    expect(logs).toEqual([
+      expect.objectContaining({ player_id: "luka-doncic", is_home: true, stat_type: "Assists", value: 12 }),
+    ]);
+  });
+
+  it("keeps the last row of a game listed twice and reports the one dropped", () => {
+    const { logs, errors } = parseGameLogFile(
+      "tatum.csv",
+      [
+        "Player,Date,Opp,PTS,REB",
+        "Jayson Tatum,2026-02-20,@ Miami Heat,30,8",
+        "Jayson Tatum,2026-02-22,vs Orlando Magic,24,11",
+        "Jayson Tatum,2026-02-20,@ Miami Heat,31,8",
+      ].join("\n")
+    );
+
+    expect(logs.map((l) => [l.game_date, l.stat_type, l.value])).toEqual([
+      ["2026-02-20", "Points", 31],
+      ["2026-02-20", "Rebounds", 8],
+      ["2026-02-22", "Points", 24],
+      ["2026-02-22", "Rebounds", 11],
+    ]);
+    expect(errors).toEqual(["Row 1: duplicate game, replaced by row 3"]);
+  });
+
+  it("keeps the box score's calendar day in timezones ahead of UTC", () => {
+    const timezone = process.env.TZ;
+    process.env.TZ = "Asia/Tokyo";
+
+    try {
+      const { logs, errors } = parseGameLogFile(
+        "tatum.csv",
+        [
+          "Player,Date,Opp,PTS",
+          "Jayson Tatum,01/15/2026,@ Miami Heat,31",
+          "Jayson Tatum,\"Jan 17, 2026\",vs Orlando Magic,24",
+          "Jayson Tatum,02/30/2026,vs Miami Heat,27",
+        ].join("\n")
+      );
+
+      expect(logs.map((l) => l.game_date)).toEqual(["2026-01-15", "2026-01-17"]);
+      expect(errors).toEqual(['Row 3: invalid date "02/30/2026"']);
+    } finally {
+      if (timezone === undefined) delete process.env.TZ;
+      else process.env.TZ = timezone;
+    }
+  });
+});
+
+describe("calculateHitRateSplits", () => {
+  const points = parseGameLogFile("tatum.csv", csv).logs.filter((l) => l.stat_type === "Points");
+
+  it("grades the most recent games against the line", () => {
+    const splits = calculateHitRateSplits(points, 26.5, "Over");
+
+    expect(splits.l5).toMatchObject({ games: 3, hits: 2, rate: 2 / 3 });
+    expect(splits.home).toMatchObject({ games: 2, hits: 1 });
+    expect(splits.away).toMatchObject({ games: 1, hits: 1 });
+  });
+
+  it("excludes pushes from the rate and splits by opponent", () => {
+    const splits = calculateHitRateSplits(points, 27, "Under", "Boston Celtics @ Miami Heat");
+
+    expect(splits.season).toMatchObject({ hits: 1, pushes: 1, rate: 0.5 });
+    expect(splits.vsOpponent).toMatchObject({ games: 2, hits: 0, pushes: 1 });
+  });
+});
+
+describe("matchesOpponent", () => {
+  it("matches full names, abbreviations and nicknames against either team", () => {
+    expect(matchesOpponent("New York Knicks", "New York Knicks @ Boston Celtics")).toBe(true);
+    expect(matchesOpponent("NYK", "New York Knicks @ Boston Celtics")).toBe(true);
+    expect(matchesOpponent("Celtics", "New York Knicks @ Boston Celtics")).toBe(true);
+    expect(matchesOpponent("MTL", "Montreal Canadiens @ Toronto Maple Leafs")).toBe(true);
+  });
+
+  it("compares whole names rather than substrings", () => {
+    expect(matchesOpponent("LA", "Atlanta Hawks @ Dallas Mavericks")).toBe(false);
+    expect(matchesOpponent("Los Angeles Lakers", "Los Angeles Clippers @ Boston Celtics")).toBe(false);
+    expect(matchesOpponent("NYK", "Brooklyn Nets @ Boston Celtics")).toBe(false);
+    expect(matchesOpponent("", "Brooklyn Nets @ Boston Celtics")).toBe(false);
+  });
+});
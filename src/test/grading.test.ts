@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { gradeOutcome, gradeSnapshots, toGameDay } from "@/lib/grading";
+import { StubResultsProvider } from "@/services/resultsProviders";
+import type { OddsSnapshotRow, PlayerGameLog } from "@/types";
+
+const tipOff = "2026-02-21T00:30:00Z";
+
+function snapshot(overrides: Partial<OddsSnapshotRow>): OddsSnapshotRow {
+  return {
+    player_id: "jayson-tatum",
+    player_name: "Jayson Tatum",
+    sport: "NBA",
+    stat_type: "Points",
+    line: 27.5,
+    over_odds: -110,
+    under_odds: -110,
+    sportsbook: "DraftKings",
+    game_date: tipOff,
+    created_at: "2026-02-20T22:00:00Z",
+    ...overrides,
+  };
+}
+
+const finalStat: PlayerGameLog = {
+  player_id: "jayson-tatum",
+  player_name: "Jayson Tatum",
+  sport: "NBA",
+  stat_type: "Points",
+  game_date: "2026-02-20",
+  opponent: "Miami Heat",
+  is_home: false,
+  value: 28,
+};
+
+describe("toGameDay", () => {
+  it("maps evening UTC tip-offs back to the Eastern calendar date", () => {
+    expect(toGameDay(tipOff)).toBe("2026-02-20");
+    expect(toGameDay("2026-02-20")).toBe("2026-02-20");
+  });
+});
+
+describe("gradeOutcome", () => {
+  it("grades over, under and push", () => {
+    expect(gradeOutcome(27.5, 28)).toBe("Over");
+    expect(gradeOutcome(27.5, 27)).toBe("Under");
+    expect(gradeOutcome(28, 28)).toBe("Push");
+  });
+});
+
+describe("gradeSnapshots", () => {
+  it("grades each book's last pre-game snapshot", async () => {
+    const stats = await new StubResultsProvider([finalStat]).getFinalStats();
+
+    const graded = gradeSnapshots(
+      [
+        snapshot({ line: 26.5, created_at: "2026-02-20T18:00:00Z" }),
+        snapshot({ line: 28 }),
+        // Live line after tip-off is not the closing price
+        snapshot({ line: 30.5, created_at: "2026-02-21T01:00:00Z" }),
+        snapshot({ sportsbook: "FanDuel", line: 28.5 }),
+        snapshot({ stat_type: "Rebounds", line: 8.5 }),
+      ],
+      stats
+    );
+
+    expect(graded).toHaveLength(2);
+    expect(graded.find((g) => g.sportsbook === "DraftKings")).toMatchObject({
+      line: 28,
+      actual_value: 28,
+      outcome: "Push",
+    });
+    expect(graded.find((g) => g.sportsbook === "FanDuel")?.outcome).toBe("Under");
+  });
+});
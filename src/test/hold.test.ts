@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { aggregateHold, buildHoldSeries, calculateHold, rankByHold } from "@/lib/hold";
+
+describe("calculateHold", () => {
+  it("is the theoretical hold of a two-way market", () => {
+    // -110/-110: 1 - 1 / (2 * 110/210)
+    expect(calculateHold(-110, -110)).toBeCloseTo((1 - 210 / 220) * 100, 10);
+    expect(calculateHold(100, 100)).toBeCloseTo(0, 10);
+  });
+});
+
+describe("hold analytics", () => {
+  const rows = [
+    { sportsbook: "Pinnacle", over_odds: -105, under_odds: -105, created_at: "2026-02-20T12:00:00Z" },
+    { sportsbook: "DraftKings", over_odds: -115, under_odds: -115, created_at: "2026-02-20T12:00:00Z" },
+    { sportsbook: "DraftKings", over_odds: -110, under_odds: -110, hold_pct: 4, created_at: "2026-02-21T12:00:00Z" },
+  ];
+
+  it("ranks markets by hold, preferring the stored value", () => {
+    const ranked = rankByHold(rows);
+
+    expect(ranked[0].sportsbook).toBe("Pinnacle");
+    expect(ranked.map((r) => r.hold)).toContain(4);
+  });
+
+  it("averages hold per group and per day", () => {
+    const [pinnacle, draftKings] = aggregateHold(rows, (r) => r.sportsbook);
+
+    expect(pinnacle.key).toBe("Pinnacle");
+    expect(draftKings.count).toBe(2);
+    expect(draftKings.avgHold).toBeCloseTo((calculateHold(-115, -115) + 4) / 2, 10);
+
+    const series = buildHoldSeries(rows, (r) => r.sportsbook);
+    expect(series.keys).toEqual(["DraftKings", "Pinnacle"]);
+    expect(series.points).toHaveLength(2);
+    expect(series.points[1]).toEqual({ date: "2026-02-21", DraftKings: 4 });
+  });
+
+  it("counts a price on every day it stayed current", () => {
+    const confirmed = [
+      {
+        sportsbook: "FanDuel",
+        over_odds: -110,
+        under_odds: -110,
+        hold_pct: 4,
+        created_at: "2026-02-18T12:00:00Z",
+        last_confirmed_at: "2026-02-21T09:00:00Z",
+      },
+    ];
+
+    const series = buildHoldSeries(confirmed, (r) => r.sportsbook);
+    expect(series.points.map((p) => p.date)).toEqual([
+      "2026-02-18",
+      "2026-02-19",
+      "2026-02-20",
+      "2026-02-21",
+    ]);
+
+    const windowed = buildHoldSeries(confirmed, (r) => r.sportsbook, "2026-02-20T15:00:00Z");
+    expect(windowed.points).toEqual([
+      { date: "2026-02-20", FanDuel: 4 },
+      { date: "2026-02-21", FanDuel: 4 },
+    ]);
+  });
+});
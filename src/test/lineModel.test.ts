@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { negativeBinomialCdf, poissonCdf, poissonPmf } from "@/lib/distributions";
+import {
+  estimatePushProbability,
+  fitMean,
+  getLineModel,
+  probabilityOver,
+  probabilityOverNoPush,
+  projectOverProbability,
+} from "@/lib/lineModel";
+import { calculateMarketConsensus } from "@/lib/evCalculator";
+
+describe("discrete distributions", () => {
+  it("matches Poisson reference values", () => {
+    expect(poissonCdf(3, 2.5)).toBeCloseTo(0.757576, 5);
+    expect(1 - poissonCdf(24, 25)).toBeCloseTo(0.526602, 5);
+  });
+
+  it("matches negative binomial reference values", () => {
+    expect(negativeBinomialCdf(20, 25, 15)).toBeCloseTo(0.311888, 5);
+  });
+});
+
+describe("line model", () => {
+  it("round-trips a fitted mean back to the posted probability", () => {
+    const model = getLineModel("Points");
+    const mean = fitMean(model, 24.5, 0.55);
+
+    expect(probabilityOver(model, mean, 24.5)).toBeCloseTo(0.55, 6);
+  });
+
+  it("projects a negative binomial Points line to nearby lines", () => {
+    expect(projectOverProbability("Points", 24.5, 0.55, 25.5)).toBeCloseTo(0.502043, 4);
+    expect(projectOverProbability("Points", 24.5, 0.55, 22.5)).toBeCloseTo(0.64617, 4);
+  });
+
+  it("leaves same-line probabilities untouched", () => {
+    expect(projectOverProbability("Rebounds", 8.5, 0.48, 8.5)).toBe(0.48);
+  });
+
+  it("prices higher lines lower for yardage", () => {
+    const atLine = projectOverProbability("Passing Yards", 249.5, 0.5, 249.5);
+    const higher = projectOverProbability("Passing Yards", 249.5, 0.5, 264.5);
+
+    expect(higher).toBeLessThan(atLine);
+  });
+
+  it("lets books on different lines share one consensus", () => {
+    const consensus = calculateMarketConsensus(
+      [
+        { sportsbook: "FanDuel", overOdds: -110, underOdds: -110, line: 24.5 },
+        { sportsbook: "DraftKings", overOdds: -110, underOdds: -110, line: 25.5 },
+      ],
+      "multiplicative",
+      undefined,
+      {
+        targetLine: 24.5,
+        projectOver: (over, fromLine) =>
+          projectOverProbability("Points", fromLine, over, 24.5),
+      }
+    );
+
+    // DraftKings' 50% at 25.5 implies better than 50% at 24.5
+    expect(consensus.contributions[1].over).toBeGreaterThan(0.5);
+    expect(consensus.over).toBeGreaterThan(0.5);
+  });
+});
+
+describe("whole-number lines", () => {
+  it("has no push on half-point lines", () => {
+    expect(estimatePushProbability("Rebounds", 6.5, 0.5)).toBe(0);
+  });
+
+  it("takes the push probability from the fitted distribution", () => {
+    const model = getLineModel("Strikeouts");
+    const mean = fitMean(model, 6, 0.5);
+
+    expect(probabilityOverNoPush(model, mean, 6)).toBeCloseTo(0.5, 6);
+    expect(estimatePushProbability("Strikeouts", 6, 0.5)).toBeCloseTo(poissonPmf(6, mean), 6);
+  });
+});
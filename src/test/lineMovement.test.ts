@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { buildLineMovement } from "@/lib/lineMovement";
+import type { OddsSnapshotRow } from "@/types";
+
+const row = (
+  sportsbook: string,
+  createdAt: string,
+  line: number,
+  overOdds = -110,
+  underOdds = -110
+): OddsSnapshotRow => ({
+  player_id: "luka-doncic",
+  player_name: "Luka Doncic",
+  sport: "NBA",
+  stat_type: "Assists",
+  line,
+  sportsbook,
+  over_odds: overOdds,
+  under_odds: underOdds,
+  created_at: createdAt,
+});
+
+describe("buildLineMovement", () => {
+  const history = [
+    row("FanDuel", "2026-03-01T12:00:00Z", 8.5),
+    row("DraftKings", "2026-03-01T12:00:00Z", 8.5),
+    row("FanDuel", "2026-03-01T14:00:00Z", 9.5),
+    row("DraftKings", "2026-03-01T14:30:00Z", 8.5, -140, 115),
+  ];
+
+  it("builds one series per book on a shared time axis", () => {
+    const movement = buildLineMovement(history);
+
+    expect(movement.books).toEqual(["FanDuel", "DraftKings"]);
+    expect(movement.points.line).toHaveLength(3);
+    expect(movement.points.line[0]).toMatchObject({ FanDuel: 8.5, DraftKings: 8.5 });
+  });
+
+  it("reports opening versus current per book", () => {
+    const fanduel = buildLineMovement(history).summary.find((b) => b.sportsbook === "FanDuel");
+
+    expect(fanduel?.opening.line).toBe(8.5);
+    expect(fanduel?.current.line).toBe(9.5);
+    expect(fanduel?.lineChange).toBe(1);
+  });
+
+  it("flags large line and price moves", () => {
+    const moves = buildLineMovement(history).largeMoves;
+
+    expect(moves).toHaveLength(2);
+    expect(moves[0]).toMatchObject({ sportsbook: "FanDuel", kind: "line", from: 8.5, to: 9.5 });
+    expect(moves[1]).toMatchObject({ sportsbook: "DraftKings", kind: "price" });
+  });
+});
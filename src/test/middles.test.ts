@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { convertAmericanToDecimal } from "@/lib/evCalculator";
+import { getLineModel, probabilityOver, probabilityPush } from "@/lib/lineModel";
+import { calculateMiddle, findMiddles } from "@/lib/middles";
+import type { OddsSnapshotRow } from "@/types";
+
+function row(sportsbook: string, line: number, overOdds: number, underOdds: number): OddsSnapshotRow {
+  return {
+    player_id: "jayson-tatum",
+    player_name: "Jayson Tatum",
+    sport: "NBA",
+    stat_type: "Points",
+    line,
+    sportsbook,
+    over_odds: overOdds,
+    under_odds: underOdds,
+    game_date: "2026-02-21T00:30:00Z",
+  };
+}
+
+describe("calculateMiddle", () => {
+  it("equals the stake-weighted EV of both sides, pushes included", () => {
+    const model = getLineModel("Points");
+    const mean = 23.4;
+    const over = { sportsbook: "DraftKings", line: 22, odds: -115 };
+    const under = { sportsbook: "FanDuel", line: 25, odds: 105 };
+
+    const middle = calculateMiddle("Points", mean, over, under);
+
+    const overWin = probabilityOver(model, mean, 22);
+    const overPush = probabilityPush(model, mean, 22);
+    const underLose = probabilityOver(model, mean, 25);
+    const underPush = probabilityPush(model, mean, 25);
+    const underWin = 1 - underLose - underPush;
+
+    const overEV = overWin * (convertAmericanToDecimal(-115) - 1) - (1 - overWin - overPush);
+    const underEV = underWin * (convertAmericanToDecimal(105) - 1) - underLose;
+    const expected = middle.overStakeShare * overEV + (1 - middle.overStakeShare) * underEV;
+
+    expect(middle.evPct).toBeCloseTo(expected * 100, 10);
+    expect(middle.middleProbability).toBeCloseTo(overWin - underLose - underPush, 10);
+  });
+});
+
+describe("findMiddles", () => {
+  it("pairs the low Over with the high Under across books", () => {
+    const middles = findMiddles([row("DraftKings", 22.5, -110, -110), row("FanDuel", 24.5, -110, -110)]);
+
+    expect(middles).toHaveLength(1);
+    expect(middles[0]).toMatchObject({
+      over: { sportsbook: "DraftKings", line: 22.5 },
+      under: { sportsbook: "FanDuel", line: 24.5 },
+      window: 2,
+    });
+    expect(middles[0].projectedMean).toBeGreaterThan(22.5);
+    expect(middles[0].projectedMean).toBeLessThan(24.5);
+    expect(middles[0].evPct).toBeGreaterThan(0);
+  });
+
+  it("drops middles below the EV floor", () => {
+    expect(
+      findMiddles([row("DraftKings", 22.5, -140, 100), row("FanDuel", 23.5, 100, -140)], { minEvPct: 0 })
+    ).toEqual([]);
+  });
+});
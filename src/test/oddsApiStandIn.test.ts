@@ -0,0 +1,483 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { join } from "node:path";
+import { abandonRunningRun, fetchOdds } from "@/pages/api/fetch-odds";
+import { LocalOddsRepository } from "@/services/localOddsRepository";
+import type { IngestionRun } from "@/types";
+import {
+  loadFixtures,
+  startOddsApiStandIn,
+  type OddsApiStandIn,
+} from "@/worker/oddsApiStandIn";
+
+const fixturesDir = join(process.cwd(), "src/worker/fixtures");
+
+// The recorded games tip off a few hours after this
+const now = new Date("2026-01-15T12:00:00Z");
+const fixtures = loadFixtures(fixturesDir, now);
+
+describe("Odds API stand-in", () => {
+  let standIn: OddsApiStandIn;
+
+  beforeEach(async () => {
+    standIn = await startOddsApiStandIn({ fixtures, apiKey: "dev", quota: 10 });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it("lists recorded events for free", async () => {
+    const response = await fetch(`${standIn.baseUrl}/sports/basketball_nba/events?apiKey=dev`);
+    const events = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(events).toHaveLength(2);
+    expect(response.headers.get("x-requests-used")).toBe("0");
+    expect(response.headers.get("x-requests-remaining")).toBe("10");
+  });
+
+  it("lists no events for a known sport without fixtures and rejects unknown sports", async () => {
+    const offSeason = await fetch(`${standIn.baseUrl}/sports/icehockey_nhl/events?apiKey=dev`);
+    expect(offSeason.status).toBe(200);
+    expect(await offSeason.json()).toEqual([]);
+
+    const unknown = await fetch(`${standIn.baseUrl}/sports/curling_world/events?apiKey=dev`);
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toMatchObject({ error_code: "UNKNOWN_SPORT" });
+  });
+
+  it("bills event odds per returned market and region", async () => {
+    const eventId = fixtures.basketball_nba.events[0].id;
+    const response = await fetch(
+      `${standIn.baseUrl}/sports/basketball_nba/events/${eventId}/odds?apiKey=dev&regions=us` +
+        `&markets=player_points,player_rebounds,player_blocks&bookmakers=fanduel`
+    );
+    const odds = await response.json();
+
+    expect(odds.bookmakers.map((b: { key: string }) => b.key)).toEqual(["fanduel"]);
+    expect(response.headers.get("x-requests-last")).toBe("1");
+    expect(response.headers.get("x-requests-remaining")).toBe("9");
+  });
+
+  it("rejects bad keys and requests past the quota", async () => {
+    const unauthorized = await fetch(`${standIn.baseUrl}/sports/basketball_nba/events?apiKey=nope`);
+    expect(unauthorized.status).toBe(401);
+
+    const eventId = fixtures.basketball_nba.events[0].id;
+    const url =
+      `${standIn.baseUrl}/sports/basketball_nba/events/${eventId}/odds?apiKey=dev` +
+      `&regions=us,us2&markets=player_points,player_rebounds`;
+
+    expect((await fetch(url)).status).toBe(200);
+    expect((await fetch(url)).status).toBe(200);
+    expect((await fetch(url)).status).toBe(401);
+    expect(standIn.used()).toBe(8);
+  });
+
+  it("feeds fetchOdds end to end, within the credits left", async () => {
+    const repository = new LocalOddsRepository();
+
+    const result = await fetchOdds({
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA"],
+      dailyCreditCap: 100,
+      now,
+    });
+
+    // 7 markets per event estimated against 10 credits: only the first game fits
+    expect(result.success).toBe(true);
+    expect(result.gamesProcessed).toBe(1);
+    expect(result.sports[0].eventsSkipped).toBe(1);
+    const snapshots = await repository.findSnapshots();
+    expect(snapshots).toHaveLength(5);
+    expect(snapshots[0]).toMatchObject({
+      sport: "NBA",
+      opponent: "New York Knicks @ Boston Celtics",
+    });
+    expect(await repository.getLatestRun()).toMatchObject({
+      status: "finished",
+      events_total: 1,
+      events_completed: 1,
+      credits_estimated: 7,
+      credits_spent: 2,
+      credits_remaining: 8,
+    });
+  });
+
+  it("reports games already underway instead of claiming a fresh fetch", async () => {
+    const repository = new LocalOddsRepository();
+
+    const result = await fetchOdds({
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA"],
+      now: new Date("2026-01-16T12:00:00Z"),
+    });
+
+    expect(result.message).toBe("No upcoming games to fetch (2 already started).");
+    expect(result.sports[0]).toMatchObject({ eventsStarted: 2, creditsEstimated: 0 });
+    expect(result.sports[0].events.map((e) => [e.status, e.error])).toEqual([
+      ["skipped", "Already started"],
+      ["skipped", "Already started"],
+    ]);
+    expect(standIn.used()).toBe(0);
+  });
+
+  it("spends nothing when today's credit usage cannot be read", async () => {
+    const repository = new LocalOddsRepository();
+    repository.findRunsSince = async () => {
+      throw new Error("connection refused");
+    };
+
+    const result = await fetchOdds({
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA"],
+      now,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Could not read today's credit usage: connection refused");
+    expect(standIn.used()).toBe(0);
+  });
+
+  it("spends nothing when the ingestion run cannot be recorded", async () => {
+    const repository = new LocalOddsRepository();
+    repository.insertRun = async () => {
+      throw new Error("connection refused");
+    };
+
+    const result = await fetchOdds({
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA"],
+      now,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Could not record the ingestion run: connection refused");
+    expect(standIn.used()).toBe(0);
+  });
+
+  it("records the running spend as each game completes", async () => {
+    const repository = new LocalOddsRepository();
+    const updateRun = repository.updateRun.bind(repository);
+    const patches: Partial<IngestionRun>[] = [];
+    repository.updateRun = async (id, patch) => {
+      patches.push(patch);
+      return updateRun(id, patch);
+    };
+
+    await fetchOdds({
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA"],
+      dailyCreditCap: 100,
+      now,
+    });
+
+    // Written before the run finishes, so a worker killed mid-run is still counted
+    expect(patches[0]).toEqual({ events_completed: 1, credits_spent: 2 });
+  });
+
+  it("closes out the run when ingestion throws", async () => {
+    const repository = new LocalOddsRepository();
+
+    await expect(
+      fetchOdds({
+        apiKey: "dev",
+        baseUrl: standIn.baseUrl,
+        repository,
+        sports: ["NBA"],
+        dailyCreditCap: 100,
+        now,
+        onProgress: () => {
+          throw new Error("stdout closed");
+        },
+      })
+    ).rejects.toThrow("stdout closed");
+
+    expect(await repository.getLatestRun()).toMatchObject({
+      status: "finished",
+      events_completed: 1,
+      error: "Run aborted: stdout closed",
+    });
+  });
+
+  it("closes out a run the worker was stopped in the middle of", async () => {
+    const repository = new LocalOddsRepository();
+    await repository.insertRun({
+      id: "killed",
+      status: "running",
+      started_at: now.toISOString(),
+      finished_at: null,
+      events_total: 2,
+      events_completed: 1,
+      sports: [],
+      games_processed: 0,
+      props_stored: 0,
+      events_failed: 0,
+      credits_estimated: 14,
+      credits_spent: 2,
+      credits_used: null,
+      credits_remaining: null,
+      error: null,
+    });
+
+    await abandonRunningRun(repository, "Worker stopped (SIGINT) before the run finished");
+
+    expect(await repository.getLatestRun()).toMatchObject({
+      status: "finished",
+      credits_spent: 2,
+      error: "Worker stopped (SIGINT) before the run finished",
+    });
+  });
+
+  it("skips a sport whose cache state cannot be read", async () => {
+    const repository = new LocalOddsRepository();
+    repository.getLastSnapshotTime = async () => {
+      throw new Error("connection refused");
+    };
+
+    const result = await fetchOdds({
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA"],
+      now,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.sports[0].error).toBe("Could not check cached odds: connection refused");
+    expect(standIn.used()).toBe(0);
+  });
+
+  it("reports a sport whose events listing is not JSON and ingests the rest", async () => {
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation((input, init) =>
+      String(input).includes("/sports/icehockey_nhl/events?")
+        ? Promise.resolve(
+            new Response("<html>Service unavailable</html>", {
+              status: 200,
+              headers: { "content-type": "text/html" },
+            })
+          )
+        : realFetch(input, init)
+    );
+    const repository = new LocalOddsRepository();
+
+    try {
+      const result = await fetchOdds({
+        apiKey: "dev",
+        baseUrl: standIn.baseUrl,
+        repository,
+        sports: ["NHL", "NBA"],
+        dailyCreditCap: 100,
+        now,
+      });
+
+      const [nhl, nba] = result.sports;
+      expect(nhl.error).toMatch(/^Invalid events response: /);
+      expect(nba.error).toBeUndefined();
+      expect(nba.gamesProcessed).toBe(1);
+      expect(await repository.getLatestRun()).toMatchObject({ status: "finished" });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("confirms unchanged prices instead of storing them again", async () => {
+    const repository = new LocalOddsRepository();
+    const options = {
+      apiKey: "dev",
+      baseUrl: standIn.baseUrl,
+      repository,
+      sports: ["NBA" as const],
+      dailyCreditCap: 100,
+      now,
+    };
+
+    await fetchOdds(options);
+
+    // Step outside the cache window
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const first = await repository.findSnapshots();
+    await repository.updateSnapshots(
+      first.map((row) => row.id!),
+      { created_at: anHourAgo, last_confirmed_at: anHourAgo }
+    );
+
+    const result = await fetchOdds(options);
+
+    expect(result.propsStored).toBe(0);
+    expect(result.sports[0].events.find((e) => e.status === "stored")).toMatchObject({
+      props_stored: 0,
+      props_confirmed: 5,
+    });
+    const snapshots = await repository.findSnapshots();
+    expect(snapshots).toHaveLength(5);
+    expect(snapshots.every((row) => row.last_confirmed_at !== anHourAgo)).toBe(true);
+  });
+});
+
+describe("Odds API stand-in fixtures", () => {
+  it("move the recorded games ahead of load time, keeping their spacing", () => {
+    const [first, second] = fixtures.basketball_nba.events;
+
+    expect(first.commence_time).toBe("2026-01-15T18:00:00.000Z");
+    expect(second.commence_time).toBe("2026-01-15T20:30:00.000Z");
+    expect(fixtures.basketball_nba.odds[first.id].commence_time).toBe(first.commence_time);
+  });
+
+  it("stay fetchable at the real current time", async () => {
+    const standIn = await startOddsApiStandIn({ fixtures: loadFixtures(fixturesDir) });
+    const repository = new LocalOddsRepository();
+
+    try {
+      const result = await fetchOdds({
+        apiKey: "dev",
+        baseUrl: standIn.baseUrl,
+        repository,
+        sports: ["NBA"],
+      });
+
+      expect(result.message).toBe("Successfully fetched fresh odds!");
+      expect(result.gamesProcessed).toBe(2);
+      expect(result.sports[0].eventsStarted).toBe(0);
+    } finally {
+      await standIn.close();
+    }
+  });
+});
+
+describe("fetchOdds against a flaky Odds API", () => {
+  it("retries transient failures and reports each event", async () => {
+    const [first, second] = fixtures.basketball_nba.events;
+    const standIn = await startOddsApiStandIn({
+      fixtures,
+      faults: [
+        { eventId: first.id, status: 503, times: 2 },
+        { eventId: second.id, status: 500, times: 5 },
+      ],
+    });
+    const repository = new LocalOddsRepository();
+    const progress: string[] = [];
+
+    try {
+      const result = await fetchOdds({
+        apiKey: "dev",
+        baseUrl: standIn.baseUrl,
+        repository,
+        sports: ["NBA"],
+        retry: { maxAttempts: 3, sleep: async () => {} },
+        now,
+        concurrency: 2,
+        onProgress: ({ completed, total }) => progress.push(`${completed}/${total}`),
+      });
+
+      expect(progress).toEqual(["1/2", "2/2"]);
+
+      const [recovered, failed] = result.sports[0].events;
+
+      expect(recovered).toMatchObject({
+        status: "stored",
+        attempts: 3,
+        error: null,
+        props_parsed: 5,
+        props_stored: 5,
+      });
+      expect(failed).toMatchObject({
+        status: "failed",
+        attempts: 3,
+        error: "HTTP 500",
+        matchup: "Denver Nuggets @ Los Angeles Lakers",
+      });
+      expect(result.eventsFailed).toBe(1);
+      expect(await repository.getLatestRun()).toMatchObject({ events_failed: 1 });
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it("reports database retries separately from request attempts", async () => {
+    const standIn = await startOddsApiStandIn({ fixtures });
+    const repository = new LocalOddsRepository();
+    const insertSnapshots = repository.insertSnapshots.bind(repository);
+    let failures = 2;
+    repository.insertSnapshots = async (rows) => {
+      if (failures-- > 0) throw new Error("connection reset");
+      return insertSnapshots(rows);
+    };
+
+    try {
+      const result = await fetchOdds({
+        apiKey: "dev",
+        baseUrl: standIn.baseUrl,
+        repository,
+        sports: ["NBA"],
+        retry: { maxAttempts: 2, sleep: async () => {} },
+        concurrency: 1,
+        now,
+      });
+
+      const [first, second] = result.sports[0].events;
+
+      expect(first).toMatchObject({
+        status: "failed",
+        attempts: 1,
+        store_retries: 1,
+        error: "Insert failed: connection reset",
+      });
+      expect(second).toMatchObject({ status: "stored", attempts: 1, store_retries: 0 });
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it("retries the events listing and reports a sport whose listing keeps failing", async () => {
+    const standIn = await startOddsApiStandIn({ fixtures });
+    const repository = new LocalOddsRepository();
+    const realFetch = globalThis.fetch;
+    const listings: string[] = [];
+    let nbaFailures = 2;
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation((input, init) => {
+      const url = String(input);
+      const listing = url.match(/\/sports\/([^/]+)\/events\?/)?.[1];
+      if (listing) listings.push(listing);
+
+      if (listing === "icehockey_nhl" || (listing === "basketball_nba" && nbaFailures-- > 0)) {
+        return Promise.resolve(new Response("{}", { status: 503 }));
+      }
+      return realFetch(input, init);
+    });
+
+    try {
+      const result = await fetchOdds({
+        apiKey: "dev",
+        baseUrl: standIn.baseUrl,
+        repository,
+        sports: ["NHL", "NBA"],
+        retry: { maxAttempts: 3, sleep: async () => {} },
+        dailyCreditCap: 100,
+        now,
+      });
+
+      const [nhl, nba] = result.sports;
+
+      expect(listings.filter((key) => key === "basketball_nba")).toHaveLength(3);
+      expect(listings.filter((key) => key === "icehockey_nhl")).toHaveLength(3);
+      expect(nhl.error).toBe("Failed to fetch events (HTTP 503)");
+      expect(nba.error).toBeUndefined();
+      expect(nba.gamesProcessed).toBe(2);
+    } finally {
+      fetchSpy.mockRestore();
+      await standIn.close();
+    }
+  });
+});
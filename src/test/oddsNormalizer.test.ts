@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { oddsNormalizer } from "@/lib/oddsNormalizer";
+import { diffSnapshots } from "@/lib/snapshots";
+import type { PropRejection } from "@/types";
+
+const event = {
+  id: "evt-1",
+  sport_key: "basketball_nba",
+  commence_time: "2026-01-15T00:30:00Z",
+  home_team: "Boston Celtics",
+  away_team: "New York Knicks",
+  bookmakers: [
+    {
+      key: "draftkings",
+      title: "DraftKings",
+      markets: [
+        {
+          key: "player_points",
+          outcomes: [
+            { name: "Over", description: "Jalen Brunson", price: -115, point: 27.5 },
+            { name: "Under", description: "Jalen Brunson", price: -105, point: 27.5 },
+            { name: "Over", description: "Jayson Tatum", price: -110, point: 26.5 },
+            { name: "Under", description: "Jayson Tatum", price: -110, point: 26.5 },
+            { name: "Over", description: "Josh Hart", price: -120, point: 9.5 },
+          ],
+        },
+        {
+          key: "player_double_double",
+          outcomes: [
+            { name: "Yes", description: "Josh Hart", price: 150 },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("normalizeTheOddsApiEvent", () => {
+  it("pairs each player's Over and Under within a market", () => {
+    const props = oddsNormalizer.normalizeTheOddsApiEvent(event);
+
+    expect(props.map((p) => p.playerName)).toEqual(["Jalen Brunson", "Jayson Tatum"]);
+    expect(props[0]).toMatchObject({
+      playerId: "jalen-brunson",
+      sport: "NBA",
+      statType: "Points",
+      line: 27.5,
+      overOdds: -115,
+      underOdds: -105,
+      sportsbook: "DraftKings",
+      gameDate: "2026-01-15T00:30:00Z",
+      opponent: "New York Knicks @ Boston Celtics",
+    });
+  });
+
+  it("reports props it cannot pair", () => {
+    const rejections: PropRejection[] = [];
+    oddsNormalizer.normalizeTheOddsApiEvent(event, rejections);
+
+    expect(rejections).toEqual([
+      {
+        sportsbook: "DraftKings",
+        market: "player_points",
+        player_name: "Josh Hart",
+        reason: "missing Over or Under price",
+      },
+      {
+        sportsbook: "DraftKings",
+        market: "player_double_double",
+        player_name: null,
+        reason: "unmapped market",
+      },
+    ]);
+  });
+
+  it("pairs alternate lines separately so the main line can be stored", () => {
+    const alternates = {
+      ...event,
+      bookmakers: [
+        {
+          key: "fanduel",
+          title: "FanDuel",
+          markets: [
+            {
+              key: "player_points",
+              outcomes: [
+                { name: "Over", description: "Jayson Tatum", price: -180, point: 24.5 },
+                { name: "Over", description: "Jayson Tatum", price: -112, point: 26.5 },
+                { name: "Over", description: "Jayson Tatum", price: 140, point: 28.5 },
+                { name: "Under", description: "Jayson Tatum", price: 145, point: 24.5 },
+                { name: "Under", description: "Jayson Tatum", price: -108, point: 26.5 },
+                { name: "Under", description: "Jayson Tatum", price: -175, point: 28.5 },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    const rejections: PropRejection[] = [];
+    const props = oddsNormalizer.normalizeTheOddsApiEvent(alternates, rejections);
+
+    expect(rejections).toEqual([]);
+    expect(props.map((p) => [p.line, p.overOdds, p.underOdds])).toEqual([
+      [24.5, -180, 145],
+      [26.5, -112, -108],
+      [28.5, 140, -175],
+    ]);
+
+    const rows = props.map((p) => ({
+      player_id: p.playerId,
+      stat_type: p.statType,
+      sportsbook: p.sportsbook,
+      game_date: p.gameDate,
+      line: p.line,
+      over_odds: p.overOdds,
+      under_odds: p.underOdds,
+    }));
+
+    expect(diffSnapshots([], rows).changed).toEqual([rows[1]]);
+  });
+
+  it("names books the way consensus weights expect", () => {
+    const circa = {
+      ...event,
+      bookmakers: [{ ...event.bookmakers[0], key: "circasports", title: "Circa Sports" }],
+    };
+
+    expect(oddsNormalizer.normalizeTheOddsApiEvent(circa)[0].sportsbook).toBe("Circa");
+  });
+
+  it("ignores unknown sports", () => {
+    expect(
+      oddsNormalizer.normalizeTheOddsApiEvent({ ...event, sport_key: "cricket_ipl" })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,585 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { compactSnapshots } from "@/pages/api/compact-snapshots";
+import { ClvService } from "@/services/clvService";
+import { EVService } from "@/services/evService";
+import { HoldService } from "@/services/holdService";
+import { IngestionService } from "@/services/ingestionService";
+import {
+  importingStorage,
+  localRunsPath,
+  LocalOddsRepository,
+  type LocalOddsData,
+  type LocalOddsStorage,
+} from "@/services/localOddsRepository";
+import { resolveDataBackend, SupabaseOddsRepository } from "@/services/oddsRepository";
+import { OddsService } from "@/services/oddsService";
+import { StubResultsProvider } from "@/services/resultsProviders";
+import { ResultsService } from "@/services/resultsService";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Bet, GradedProp, IngestionRun, OddsSnapshotRow, SurfacedOpportunity } from "@/types";
+import { jsonFileStorage } from "@/worker/fileStorage";
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+const snapshot = (
+  sportsbook: string,
+  createdAt: string,
+  overrides: Partial<OddsSnapshotRow> = {}
+): OddsSnapshotRow => ({
+  player_id: "jayson-tatum",
+  player_name: "Jayson Tatum",
+  sport: "NBA",
+  stat_type: "Points",
+  line: 27.5,
+  sportsbook,
+  over_odds: -110,
+  under_odds: -110,
+  game_date: tomorrow,
+  created_at: createdAt,
+  ...overrides,
+});
+
+const run = (startedAt: string, overrides: Partial<IngestionRun> = {}): IngestionRun => ({
+  status: "finished",
+  started_at: startedAt,
+  finished_at: startedAt,
+  events_total: 1,
+  events_completed: 1,
+  sports: [],
+  games_processed: 1,
+  props_stored: 5,
+  events_failed: 0,
+  credits_estimated: 2,
+  credits_spent: 2,
+  credits_used: 2,
+  credits_remaining: 498,
+  error: null,
+  ...overrides,
+});
+
+function memoryStorage(): LocalOddsStorage & { saved: LocalOddsData | null } {
+  const storage = {
+    saved: null as LocalOddsData | null,
+    load: async () => storage.saved,
+    save: async (data: LocalOddsData) => {
+      storage.saved = JSON.parse(JSON.stringify(data));
+    },
+  };
+  return storage;
+}
+
+/**
+ * Answers every query on a table with `rows`, honouring only .range(),
+ * and records each page requested and each .in() filter
+ */
+function pagedClient(rows: unknown[]) {
+  const calls = { ranges: [] as Array<[number, number]>, inFilters: [] as unknown[][] };
+
+  const builder = () => {
+    let range: [number, number] = [0, rows.length - 1];
+    const query = {
+      select: () => query,
+      order: () => query,
+      eq: () => query,
+      lt: () => query,
+      gte: () => query,
+      lte: () => query,
+      in: (_column: string, values: unknown[]) => {
+        calls.inFilters.push(values);
+        return query;
+      },
+      range: (from: number, to: number) => {
+        range = [from, to];
+        calls.ranges.push(range);
+        return query;
+      },
+      then: (resolve: (result: { data: unknown[]; error: null }) => void) =>
+        resolve({ data: rows.slice(range[0], range[1] + 1), error: null }),
+    };
+    return query;
+  };
+
+  return { client: { from: builder } as unknown as SupabaseClient, calls };
+}
+
+describe("SupabaseOddsRepository", () => {
+  it("pages graded props past the response cap", async () => {
+    const graded = Array.from({ length: 2500 }, (_, i) => ({ id: String(i) }) as GradedProp);
+    const { client, calls } = pagedClient(graded);
+
+    const rows = await new SupabaseOddsRepository(client).findGradedProps({ sport: "NBA" });
+
+    expect(rows).toHaveLength(2500);
+    expect(calls.ranges).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2999],
+    ]);
+  });
+
+  it("batches player ids and pages each batch", async () => {
+    const closing = Array.from({ length: 1200 }, (_, i) =>
+      snapshot("FanDuel", "2026-03-01T12:00:00Z", { id: String(i).padStart(4, "0") })
+    );
+    const { client, calls } = pagedClient(closing);
+    const playerIds = Array.from({ length: 600 }, (_, i) => `player-${i}`);
+
+    const rows = await new SupabaseOddsRepository(client).findSnapshots({
+      playerIds: [...playerIds, "player-0"],
+      closingOnly: true,
+    });
+
+    // Two batches of unique ids, each paged twice
+    expect(calls.inFilters.map((ids) => ids.length)).toEqual([500, 500, 100, 100]);
+    expect(calls.ranges).toHaveLength(4);
+    expect(rows).toHaveLength(2400);
+    expect(rows[0].id).toBe("0000");
+  });
+
+  it("pages surfaced opportunities", async () => {
+    const { client, calls } = pagedClient(Array.from({ length: 1000 }, () => ({})));
+
+    const rows = await new SupabaseOddsRepository(client).findOpportunities("2026-03-01T00:00:00Z");
+
+    expect(rows).toHaveLength(1000);
+    expect(calls.ranges).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+  });
+
+  it("signs in before reading bets", async () => {
+    const { client } = pagedClient([{ id: "bet-1" }]);
+    const events: string[] = [];
+    const from = client.from.bind(client);
+    (client as unknown as { from: typeof from }).from = (table: string) => {
+      events.push(`from ${table}`);
+      return from(table);
+    };
+
+    const repository = new SupabaseOddsRepository(client, async () => {
+      events.push("sign in");
+    });
+
+    expect(await repository.findBets()).toEqual([{ id: "bet-1" }]);
+    expect(events).toEqual(["sign in", "from bets"]);
+  });
+});
+
+describe("LocalOddsRepository", () => {
+  it("filters snapshots and returns them oldest first", async () => {
+    const repository = new LocalOddsRepository(undefined, {
+      odds_snapshots: [
+        snapshot("FanDuel", minutesAgo(10)),
+        snapshot("DraftKings", minutesAgo(300), { last_confirmed_at: minutesAgo(5) }),
+        snapshot("BetMGM", minutesAgo(300)),
+        snapshot("Caesars", minutesAgo(20), { sport: "NFL" }),
+      ],
+    });
+
+    const rows = await repository.findSnapshots({ sport: "NBA", seenSince: minutesAgo(60) });
+
+    expect(rows.map((r) => r.sportsbook)).toEqual(["DraftKings", "FanDuel"]);
+    expect(rows.every((r) => r.id)).toBe(true);
+    expect(await repository.getLastSnapshotTime("NBA")).toBe(rows[0].last_confirmed_at);
+    expect(await repository.getLastSnapshotTime("MLB")).toBeNull();
+  });
+
+  it("tracks ingestion runs newest first", async () => {
+    const repository = new LocalOddsRepository();
+    await repository.insertRun(run("2026-03-01T10:00:00Z", { id: "morning" }));
+    await repository.insertRun(run("2026-03-01T16:00:00Z", { id: "afternoon", status: "running" }));
+    await repository.updateRun("afternoon", { status: "finished", events_completed: 1 });
+
+    expect(await new IngestionService(repository).getLatestRun()).toMatchObject({
+      id: "afternoon",
+      status: "finished",
+    });
+    expect(
+      (await repository.findRunsSince("2026-03-01T12:00:00Z")).map((r) => r.id)
+    ).toEqual(["afternoon"]);
+  });
+
+  it("reports a run the worker never closed out as abandoned", async () => {
+    const repository = new LocalOddsRepository();
+    await repository.insertRun(run("2026-03-01T10:00:00Z", { id: "killed", status: "running" }));
+    const service = new IngestionService(repository);
+
+    expect(await service.getLatestRun(new Date("2026-03-01T10:30:00Z"))).toMatchObject({
+      status: "running",
+    });
+    expect(await service.getLatestRun(new Date("2026-03-01T12:00:00Z"))).toMatchObject({
+      status: "finished",
+      finished_at: "2026-03-01T10:00:00Z",
+      error: "Worker stopped before the run finished",
+    });
+  });
+
+  it("persists writes and reloads them in a new session", async () => {
+    const storage = memoryStorage();
+    const first = new LocalOddsRepository(storage);
+    await first.insertSnapshots([snapshot("FanDuel", minutesAgo(10))]);
+
+    const second = new LocalOddsRepository(storage, {
+      odds_snapshots: [snapshot("DraftKings", minutesAgo(10))],
+    });
+
+    expect((await second.findSnapshots()).map((r) => r.sportsbook)).toEqual(["FanDuel"]);
+  });
+
+  it("keeps saving after a failed save", async () => {
+    const storage = memoryStorage();
+    const save = storage.save;
+    let calls = 0;
+    storage.save = async (data) => {
+      calls += 1;
+      if (calls === 1) throw new Error("disk full");
+      await save(data);
+    };
+    const repository = new LocalOddsRepository(storage);
+
+    await expect(
+      repository.insertSnapshots([snapshot("FanDuel", minutesAgo(10))])
+    ).rejects.toThrow("disk full");
+    await repository.insertSnapshots([snapshot("DraftKings", minutesAgo(5))]);
+
+    expect(calls).toBe(2);
+    expect(storage.saved?.odds_snapshots.map((r) => r.sportsbook)).toEqual([
+      "FanDuel",
+      "DraftKings",
+    ]);
+  });
+
+  it("loads stores saved before the newer tables existed", async () => {
+    const storage = memoryStorage();
+    storage.saved = { odds_snapshots: [], ingestion_runs: [] } as unknown as LocalOddsData;
+
+    const repository = new LocalOddsRepository(storage);
+
+    expect(await repository.findBets()).toEqual([]);
+    expect(await repository.findGameLogs("jayson-tatum", "Points")).toEqual([]);
+  });
+
+  it("imports the worker's tables over the browser store, keeping its bets", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "local-odds-"));
+
+    try {
+      const file = join(dir, "local-odds.json");
+      const worker = new LocalOddsRepository(jsonFileStorage(file));
+      await worker.insertSnapshots([snapshot("FanDuel", minutesAgo(10))]);
+      await worker.insertRun(run("2026-03-01T10:00:00Z", { id: "worker-run" }));
+
+      const browser = memoryStorage();
+      browser.saved = {
+        odds_snapshots: [snapshot("DraftKings", minutesAgo(60))],
+        bets: [{ id: "bet-1", placed_at: "2026-02-28T14:00:00Z" }],
+      } as unknown as LocalOddsData;
+
+      const repository = new LocalOddsRepository(
+        importingStorage(() => jsonFileStorage(file).load(), browser)
+      );
+
+      expect((await repository.findSnapshots()).map((r) => r.sportsbook)).toEqual(["FanDuel"]);
+      expect(await repository.getLatestRun()).toMatchObject({ id: "worker-run" });
+      expect((await repository.findBets()).map((bet) => bet.id)).toEqual(["bet-1"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("picks up the worker's later writes on reload", async () => {
+    let exported: Partial<LocalOddsData> = {
+      ingestion_runs: [run("2026-03-01T10:00:00Z", { id: "first-run" })],
+    };
+    const browser = memoryStorage();
+    const repository = new LocalOddsRepository(importingStorage(async () => exported, browser));
+    const ingestion = new IngestionService(repository);
+
+    expect(await ingestion.getLatestRun()).toMatchObject({ id: "first-run" });
+    await repository.saveBets([{ id: "bet-1", placed_at: "2026-03-01T11:00:00Z" } as Bet]);
+
+    exported = {
+      ingestion_runs: [run("2026-03-01T12:00:00Z", { id: "second-run" })],
+      odds_snapshots: [snapshot("FanDuel", minutesAgo(1))],
+    };
+
+    expect(await ingestion.getLatestRun()).toMatchObject({ id: "second-run" });
+    expect((await repository.findSnapshots()).map((r) => r.sportsbook)).toEqual(["FanDuel"]);
+    expect((await repository.findBets()).map((bet) => bet.id)).toEqual(["bet-1"]);
+  });
+
+  it("polls only the worker's runs until a run finishes", async () => {
+    let exported: Partial<LocalOddsData> = {
+      ingestion_runs: [run("2026-03-01T10:00:00Z", { id: "first-run" })],
+    };
+    let exportedRuns = exported.ingestion_runs!;
+    let fullLoads = 0;
+    let runLoads = 0;
+    const repository = new LocalOddsRepository(
+      importingStorage(
+        async () => {
+          fullLoads += 1;
+          return exported;
+        },
+        memoryStorage(),
+        async () => {
+          runLoads += 1;
+          return exportedRuns;
+        }
+      )
+    );
+    const ingestion = new IngestionService(repository);
+
+    expect(await ingestion.getLatestRun()).toMatchObject({ id: "first-run" });
+
+    const running = run(new Date().toISOString(), { id: "second-run", status: "running" });
+    exportedRuns = [running, ...exportedRuns];
+    expect(await ingestion.getLatestRun()).toMatchObject({ id: "second-run", status: "running" });
+    expect(await ingestion.getLatestRun()).toMatchObject({ id: "second-run", status: "running" });
+    expect([fullLoads, runLoads]).toEqual([1, 3]);
+
+    exported = {
+      ingestion_runs: [{ ...running, status: "finished" }],
+      odds_snapshots: [snapshot("FanDuel", minutesAgo(1))],
+    };
+    exportedRuns = exported.ingestion_runs!;
+
+    expect(await ingestion.getLatestRun()).toMatchObject({ id: "second-run", status: "finished" });
+    expect((await repository.findSnapshots()).map((r) => r.sportsbook)).toEqual(["FanDuel"]);
+    expect(fullLoads).toBe(2);
+
+    await ingestion.getLatestRun();
+    expect([fullLoads, runLoads]).toEqual([2, 5]);
+  });
+
+  it("writes the runs beside the worker's file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "local-odds-"));
+
+    try {
+      const storage = jsonFileStorage(join(dir, "local-odds.json"));
+      const worker = new LocalOddsRepository(storage);
+      await worker.insertRun(run("2026-03-01T10:00:00Z", { id: "worker-run" }));
+
+      expect((await storage.loadRuns?.())?.map((r) => r.id)).toEqual(["worker-run"]);
+      expect(localRunsPath("/local-odds.json")).toBe("/local-odds.runs.json");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the browser store when the worker has exported nothing", async () => {
+    const browser = memoryStorage();
+    browser.saved = { odds_snapshots: [snapshot("DraftKings", minutesAgo(60))] } as LocalOddsData;
+
+    const repository = new LocalOddsRepository(importingStorage(async () => null, browser));
+
+    expect((await repository.findSnapshots()).map((r) => r.sportsbook)).toEqual(["DraftKings"]);
+  });
+
+  it("keeps the first price of a surfaced opportunity", async () => {
+    const repository = new LocalOddsRepository();
+    const opportunity: SurfacedOpportunity = {
+      player_id: "jayson-tatum",
+      player_name: "Jayson Tatum",
+      sport: "NBA",
+      stat_type: "Points",
+      game_date: "2026-03-01T00:00:00Z",
+      sportsbook: "FanDuel",
+      direction: "Over",
+      line: 27.5,
+      odds: 120,
+      true_prob: 0.5,
+      ev_pct: 10,
+      surfaced_at: "2026-02-28T12:00:00Z",
+    };
+
+    await repository.saveOpportunities([opportunity]);
+    await repository.saveOpportunities([{ ...opportunity, odds: 105 }]);
+
+    const stored = await repository.findOpportunities("2026-03-02T00:00:00Z");
+    expect(stored).toHaveLength(1);
+    expect(stored[0].odds).toBe(120);
+    expect(await repository.findOpportunities("2026-03-01T00:00:00Z")).toEqual([]);
+  });
+});
+
+describe("services on a local repository", () => {
+  it("prices current snapshots without a Supabase project", async () => {
+    const repository = new LocalOddsRepository(undefined, {
+      odds_snapshots: [
+        snapshot("FanDuel", minutesAgo(10), { over_odds: 120, under_odds: -145 }),
+        snapshot("DraftKings", minutesAgo(10)),
+        snapshot("BetMGM", minutesAgo(10), { over_odds: -105, under_odds: -115 }),
+        snapshot("Caesars", minutesAgo(600)),
+      ],
+    });
+    const oddsService = new OddsService(repository);
+
+    const current = await oddsService.getCurrentSnapshots({ sport: "NBA" });
+    expect(current.map((r) => r.sportsbook).sort()).toEqual(["BetMGM", "DraftKings", "FanDuel"]);
+
+    const evs = await new EVService(oddsService).calculateAllEVs({ sport: "NBA" });
+    expect(evs).toHaveLength(3);
+    expect(evs[0]).toMatchObject({ best_sportsbook: { name: "FanDuel" }, direction: "Over" });
+  });
+
+  it("compacts duplicate history", async () => {
+    const repository = new LocalOddsRepository(undefined, {
+      odds_snapshots: [
+        snapshot("FanDuel", "2026-03-01T12:00:00Z", { id: "a" }),
+        snapshot("FanDuel", "2026-03-01T13:00:00Z", { id: "b", is_closing: true }),
+        snapshot("DraftKings", "2026-03-01T12:00:00Z", { id: "c" }),
+      ],
+    });
+
+    const result = await compactSnapshots({ repository });
+    const rows = await repository.findSnapshots();
+
+    expect(result).toEqual({ scanned: 3, deleted: 1, updated: 1 });
+    expect(rows.map((r) => r.id)).toEqual(["a", "c"]);
+    expect(rows[0]).toMatchObject({
+      last_confirmed_at: "2026-03-01T13:00:00Z",
+      is_closing: true,
+    });
+  });
+
+  it("compacts one game day at a time", async () => {
+    const nextDay = "2026-03-03T00:30:00Z";
+    const repository = new LocalOddsRepository(undefined, {
+      odds_snapshots: [
+        snapshot("FanDuel", "2026-03-01T12:00:00Z", { id: "a", game_date: "2026-03-02T00:30:00Z" }),
+        snapshot("FanDuel", "2026-03-01T13:00:00Z", { id: "b", game_date: "2026-03-02T00:30:00Z" }),
+        snapshot("FanDuel", "2026-03-02T12:00:00Z", { id: "c", game_date: nextDay }),
+        snapshot("FanDuel", "2026-03-02T13:00:00Z", { id: "d", game_date: nextDay }),
+        snapshot("DraftKings", "2026-03-01T12:00:00Z", { id: "e", game_date: null }),
+        snapshot("DraftKings", "2026-03-01T13:00:00Z", { id: "f", game_date: null }),
+      ],
+    });
+    const findSnapshots = repository.findSnapshots.bind(repository);
+    const batchSizes: number[] = [];
+    repository.findSnapshots = async (query) => {
+      const rows = await findSnapshots(query);
+      batchSizes.push(rows.length);
+      return rows;
+    };
+
+    const result = await compactSnapshots({ repository });
+
+    expect(result).toEqual({ scanned: 6, deleted: 3, updated: 3 });
+    expect(batchSizes).toEqual([2, 2, 2]);
+    expect((await findSnapshots()).map((r) => r.id).sort()).toEqual(["a", "c", "e"]);
+  });
+
+  it("grades props and reports CLV from local data", async () => {
+    const gameDate = "2026-03-01T00:00:00Z";
+    const repository = new LocalOddsRepository(undefined, {
+      odds_snapshots: [
+        snapshot("FanDuel", "2026-02-28T12:00:00Z", { game_date: gameDate, over_odds: 120 }),
+        snapshot("FanDuel", "2026-02-28T23:00:00Z", {
+          game_date: gameDate,
+          over_odds: -120,
+          under_odds: 100,
+          is_closing: true,
+        }),
+      ],
+    });
+
+    const report = await new ResultsService(repository).gradeProps(
+      new StubResultsProvider([
+        {
+          player_id: "jayson-tatum",
+          player_name: "Jayson Tatum",
+          sport: "NBA",
+          game_date: gameDate,
+          opponent: "NYK",
+          is_home: true,
+          stat_type: "Points",
+          value: 31,
+        },
+      ])
+    );
+    expect(report.graded).toBe(1);
+    expect(await new ResultsService(repository).getGradedProps({ sport: "NBA" })).toMatchObject([
+      { sportsbook: "FanDuel", outcome: "Over", actual_value: 31 },
+    ]);
+
+    await repository.saveOpportunities([
+      {
+        player_id: "jayson-tatum",
+        player_name: "Jayson Tatum",
+        sport: "NBA",
+        stat_type: "Points",
+        game_date: gameDate,
+        sportsbook: "FanDuel",
+        direction: "Over",
+        line: 27.5,
+        odds: 120,
+        true_prob: 0.5,
+        ev_pct: 10,
+        surfaced_at: "2026-02-28T12:00:00Z",
+      },
+    ]);
+
+    await repository.saveBets([
+      {
+        id: "bet-1",
+        kind: "straight",
+        sportsbook: "FanDuel",
+        odds: 110,
+        stake: 25,
+        ev_pct: 5,
+        true_prob: 0.5,
+        legs: [
+          {
+            player_id: "jayson-tatum",
+            player_name: "Jayson Tatum",
+            sport: "NBA",
+            stat_type: "Points",
+            game_date: gameDate,
+            direction: "Over",
+            line: 27.5,
+            odds: 110,
+            true_prob: 0.5,
+          },
+        ],
+        status: "won",
+        profit: 27.5,
+        placed_at: "2026-02-28T14:00:00Z",
+        settled_at: "2026-03-01T04:00:00Z",
+      },
+    ]);
+
+    const entries = await new ClvService(repository).getClvEntries();
+    expect(entries.map((e) => [e.source, e.clv.closingOdds, e.clv.cents])).toEqual([
+      ["surfaced", -120, 40],
+      ["bet", -120, 30],
+    ]);
+  });
+
+  it("reads hold history for prices seen in the window", async () => {
+    const repository = new LocalOddsRepository(undefined, {
+      odds_snapshots: [
+        snapshot("FanDuel", minutesAgo(60 * 24 * 30), { last_confirmed_at: minutesAgo(30) }),
+        snapshot("DraftKings", minutesAgo(60 * 24 * 30)),
+      ],
+    });
+
+    const history = await new HoldService(repository).getHoldHistory(14, "NBA");
+
+    expect(history.map((r) => r.sportsbook)).toEqual(["FanDuel"]);
+  });
+});
+
+describe("resolveDataBackend", () => {
+  it("defaults to Supabase and rejects unknown backends", () => {
+    expect(resolveDataBackend(undefined)).toBe("supabase");
+    expect(resolveDataBackend("local")).toBe("local");
+    expect(() => resolveDataBackend("sqlite")).toThrow("Unknown data backend: sqlite");
+  });
+});
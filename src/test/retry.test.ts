@@ -0,0 +1,170 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { backoffDelay, fetchWithRetry, isRetryableStatus, withRetry } from "@/lib/retry";
+
+function respondWith(...statuses: number[]) {
+  return respondWithRetryAfter("2", ...statuses);
+}
+
+function respondWithRetryAfter(retryAfter: string, ...statuses: number[]) {
+  const queue = [...statuses];
+  return vi.fn(async () => {
+    const status = queue.shift() ?? 200;
+    return new Response("{}", {
+      status,
+      headers: status === 429 ? { "retry-after": retryAfter } : {},
+    });
+  });
+}
+
+describe("backoffDelay", () => {
+  it("doubles each attempt up to the cap", () => {
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, 500, 3000))).toEqual([
+      500, 1000, 2000, 3000,
+    ]);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("retries rate limits and server errors only", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(401)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries 5xx with backoff and 429 with Retry-After", async () => {
+    const fetchMock = respondWith(503, 429, 200);
+    const sleeps: number[] = [];
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { response, attempts } = await fetchWithRetry("http://odds.test", {
+      baseDelayMs: 100,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(3);
+    expect(sleeps).toEqual([100, 2000]);
+  });
+
+  it("waits out a Retry-After longer than the backoff cap", async () => {
+    const sleeps: number[] = [];
+    vi.stubGlobal("fetch", respondWithRetryAfter("30", 429, 200));
+
+    const { response } = await fetchWithRetry("http://odds.test", {
+      maxDelayMs: 8000,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(sleeps).toEqual([30000]);
+  });
+
+  it("returns a 429 whose Retry-After is past its own cap instead of retrying early", async () => {
+    const fetchMock = respondWithRetryAfter("120", 429, 200);
+    const sleep = vi.fn(async () => {});
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { response, attempts } = await fetchWithRetry("http://odds.test", {
+      maxRetryAfterMs: 60000,
+      sleep,
+    });
+
+    expect(response.status).toBe(429);
+    expect(attempts).toBe(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("returns the last error response once attempts run out", async () => {
+    vi.stubGlobal("fetch", respondWith(500, 500, 500, 200));
+
+    const { response, attempts } = await fetchWithRetry("http://odds.test", {
+      maxAttempts: 3,
+      sleep: async () => {},
+    });
+
+    expect(response.status).toBe(500);
+    expect(attempts).toBe(3);
+  });
+
+  it("discards retried bodies and waits for the rate limiter before each retry", async () => {
+    const responses = [new Response("busy", { status: 503 }), new Response("{}", { status: 200 })];
+    const cancel = vi.spyOn(responses[0].body!, "cancel");
+    const events: string[] = [];
+    vi.stubGlobal("fetch", async () => responses.shift()!);
+
+    await fetchWithRetry("http://odds.test", {
+      sleep: async () => {},
+      acquire: async () => {
+        events.push("acquire");
+      },
+      onAttempt: (attempt) => events.push(`attempt ${attempt}`),
+    });
+
+    expect(cancel).toHaveBeenCalled();
+    expect(events).toEqual(["attempt 1", "acquire", "attempt 2"]);
+  });
+
+  it("counts every attempt when the last one throws", async () => {
+    vi.stubGlobal("fetch", async () => {
+      throw new TypeError("fetch failed");
+    });
+    const attempts: number[] = [];
+
+    await expect(
+      fetchWithRetry("http://odds.test", {
+        maxAttempts: 2,
+        sleep: async () => {},
+        onAttempt: (attempt) => attempts.push(attempt),
+      })
+    ).rejects.toThrow("fetch failed");
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = respondWith(401);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { attempts } = await fetchWithRetry("http://odds.test", { sleep: async () => {} });
+
+    expect(attempts).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries until the call succeeds", async () => {
+    let calls = 0;
+
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 2) throw new Error("insert failed");
+        return "ok";
+      },
+      { sleep: async () => {} }
+    );
+
+    expect(result).toBe("ok");
+    expect(calls).toBe(2);
+  });
+
+  it("rethrows after the last attempt", async () => {
+    await expect(
+      withRetry(async () => Promise.reject(new Error("down")), {
+        maxAttempts: 2,
+        sleep: async () => {},
+      })
+    ).rejects.toThrow("down");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { diffSnapshots, planCompaction, selectLatestSnapshots } from "@/lib/snapshots";
+
+const now = new Date("2026-03-01T18:00:00Z");
+
+const snapshot = (sportsbook: string, createdAt: string, overOdds = -110) => ({
+  player_id: "jayson-tatum",
+  stat_type: "Points",
+  sportsbook,
+  line: 27.5,
+  over_odds: overOdds,
+  under_odds: -110,
+  created_at: createdAt,
+  game_date: "2026-03-02T00:00:00Z",
+});
+
+describe("selectLatestSnapshots", () => {
+  it("keeps only the newest snapshot per book", () => {
+    const rows = [
+      snapshot("FanDuel", "2026-03-01T16:00:00Z", -120),
+      snapshot("FanDuel", "2026-03-01T17:30:00Z", -105),
+      snapshot("DraftKings", "2026-03-01T17:00:00Z"),
+    ];
+
+    const latest = selectLatestSnapshots(rows, { now });
+
+    expect(latest).toHaveLength(2);
+    expect(latest.find((r) => r.sportsbook === "FanDuel")?.over_odds).toBe(-105);
+  });
+
+  it("drops snapshots older than the max age", () => {
+    const rows = [
+      snapshot("FanDuel", "2026-03-01T12:00:00Z"),
+      snapshot("DraftKings", "2026-03-01T17:00:00Z"),
+    ];
+
+    const latest = selectLatestSnapshots(rows, { now, maxAgeMinutes: 120 });
+
+    expect(latest.map((r) => r.sportsbook)).toEqual(["DraftKings"]);
+  });
+
+  it("drops games that have already started", () => {
+    const rows = [
+      { ...snapshot("FanDuel", "2026-03-01T17:00:00Z"), game_date: "2026-03-01T17:30:00Z" },
+    ];
+
+    expect(selectLatestSnapshots(rows, { now })).toHaveLength(0);
+    expect(selectLatestSnapshots(rows, { now, excludeStarted: false })).toHaveLength(1);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("confirms unchanged prices and keeps new or moved ones", () => {
+    const stored = [
+      { ...snapshot("FanDuel", "2026-03-01T16:00:00Z", -120), id: "fd-1" },
+      { ...snapshot("FanDuel", "2026-03-01T17:00:00Z", -105), id: "fd-2" },
+      { ...snapshot("DraftKings", "2026-03-01T17:00:00Z"), id: "dk-1" },
+    ];
+    const incoming = [
+      snapshot("FanDuel", "2026-03-01T18:00:00Z", -105),
+      snapshot("DraftKings", "2026-03-01T18:00:00Z", -115),
+      snapshot("BetMGM", "2026-03-01T18:00:00Z"),
+    ];
+
+    const { changed, confirmed } = diffSnapshots(stored, incoming);
+
+    expect(confirmed.map((r) => r.id)).toEqual(["fd-2"]);
+    expect(changed.map((r) => r.sportsbook)).toEqual(["DraftKings", "BetMGM"]);
+  });
+
+  it("stores only a book's main line when it posts alternates in one fetch", () => {
+    const incoming = [
+      { ...snapshot("FanDuel", "2026-03-01T18:00:00Z", 150), line: 25.5, under_odds: -190 },
+      snapshot("FanDuel", "2026-03-01T18:00:00Z", -105),
+      { ...snapshot("FanDuel", "2026-03-01T18:00:00Z", -180), line: 29.5, under_odds: 140 },
+    ];
+
+    const first = diffSnapshots([], incoming);
+    expect(first.changed).toEqual([incoming[1]]);
+
+    const stored = first.changed.map((row) => ({ ...row, id: "fd-1" }));
+    const second = diffSnapshots(stored, incoming);
+
+    expect(second.changed).toEqual([]);
+    expect(second.confirmed.map((r) => r.id)).toEqual(["fd-1"]);
+  });
+});
+
+describe("planCompaction", () => {
+  it("collapses repeated prices into the first row of each run", () => {
+    const rows = [
+      { ...snapshot("FanDuel", "2026-03-01T12:00:00Z"), id: "a" },
+      { ...snapshot("FanDuel", "2026-03-01T13:00:00Z"), id: "b" },
+      { ...snapshot("FanDuel", "2026-03-01T14:00:00Z", -120), id: "c" },
+      { ...snapshot("FanDuel", "2026-03-01T15:00:00Z"), id: "d" },
+      { ...snapshot("FanDuel", "2026-03-01T16:00:00Z"), id: "e", is_closing: true },
+      { ...snapshot("DraftKings", "2026-03-01T12:00:00Z"), id: "f" },
+    ];
+
+    const plan = planCompaction(rows);
+
+    expect(plan.deleteIds).toEqual(["b", "e"]);
+    expect(plan.updates).toEqual([
+      { id: "a", last_confirmed_at: "2026-03-01T13:00:00Z", is_closing: false },
+      { id: "d", last_confirmed_at: "2026-03-01T16:00:00Z", is_closing: true },
+    ]);
+  });
+});
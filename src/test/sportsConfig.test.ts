@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEnabledSports,
+  getSportByKey,
+  getStatType,
+  SPORT_CONFIGS,
+} from "@/lib/sportsConfig";
+import { oddsNormalizer } from "@/lib/oddsNormalizer";
+
+describe("getEnabledSports", () => {
+  it("skips disabled sports and sports with no mapped markets", () => {
+    const sports = getEnabledSports().map((config) => config.sport);
+
+    expect(sports).toContain("NBA");
+    expect(sports).not.toContain("Soccer");
+    expect(getEnabledSports().every((config) => Object.keys(config.markets).length > 0)).toBe(true);
+  });
+});
+
+describe("getSportByKey", () => {
+  it("resolves Odds API sport keys", () => {
+    expect(getSportByKey("basketball_nba")?.sport).toBe("NBA");
+    expect(getSportByKey("icehockey_nhl")?.sport).toBe("NHL");
+    expect(getSportByKey("cricket_ipl")).toBeUndefined();
+  });
+});
+
+describe("getStatType", () => {
+  it("maps market keys per sport", () => {
+    expect(getStatType("player_points", "NBA")).toBe("Points");
+    expect(getStatType("pitcher_strikeouts", "MLB")).toBe("Strikeouts");
+    expect(getStatType("player_total_saves")).toBe("Saves");
+    expect(getStatType("player_unknown")).toBeUndefined();
+  });
+
+  it("covers every market each sport requests", () => {
+    for (const config of Object.values(SPORT_CONFIGS)) {
+      for (const marketKey of Object.keys(config.markets)) {
+        expect(getStatType(marketKey, config.sport)).toBe(config.markets[marketKey]);
+      }
+    }
+  });
+});
+
+describe("TheOddsApi normalization", () => {
+  it("uses the sport config for sport and stat names", () => {
+    const props = oddsNormalizer.normalizeTheOddsApi(
+      {
+        sport_key: "baseball_mlb",
+        commence_time: "2026-06-01T23:05:00Z",
+        bookmakers: [
+          {
+            title: "FanDuel",
+            markets: [
+              {
+                key: "pitcher_strikeouts",
+                outcomes: [
+                  { name: "Over", price: -120, point: 6.5 },
+                  { name: "Under", price: 100, point: 6.5 },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      "gerrit-cole",
+      "Gerrit Cole"
+    );
+
+    expect(props).toHaveLength(1);
+    expect(props[0].sport).toBe("MLB");
+    expect(props[0].statType).toBe("Strikeouts");
+  });
+});
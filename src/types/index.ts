@@ -1,3 +1,7 @@
+import type { ConsensusContribution, DevigMethod } from '@/lib/evCalculator';
+import type { ClvResult } from '@/lib/clv';
+import type { ConsensusWeighting } from '@/lib/bookWeights';
+
 export interface Player {
   id: string;
   name: string;
@@ -51,6 +55,221 @@ export interface OddsSnapshot {
   timestamp: string;
 }
 
+/**
+ * A raw row of the odds_snapshots table
+ */
+export interface OddsSnapshotRow {
+  id?: string;
+  player_id: string;
+  player_name: string;
+  sport: string;
+  stat_type: string;
+  line: number;
+  sportsbook: string;
+  over_odds: number;
+  under_odds: number;
+  game_date?: string | null;
+  opponent?: string | null;
+  /** When this price was first seen */
+  created_at?: string;
+  /** When a refresh last saw the book still offering this price */
+  last_confirmed_at?: string | null;
+  /** Set by the pipeline on each book's last pre-game snapshot */
+  is_closing?: boolean;
+  /** Theoretical hold of the two-way market, in percent */
+  hold_pct?: number | null;
+}
+
+/**
+ * A player prop the normalizer could not turn into a snapshot
+ */
+export interface PropRejection {
+  sportsbook: string;
+  market: string;
+  player_name: string | null;
+  reason: string;
+}
+
+export type EventIngestionStatus = 'stored' | 'empty' | 'failed' | 'skipped';
+
+/**
+ * What happened to one event during an ingestion run
+ */
+export interface EventIngestionReport {
+  event_id: string;
+  commence_time: string;
+  matchup: string | null;
+  status: EventIngestionStatus;
+  /** Requests made for the event's odds, including retries */
+  attempts: number;
+  /** Database calls retried while storing the props */
+  store_retries: number;
+  error: string | null;
+  props_parsed: number;
+  /** New or changed prices written as snapshots */
+  props_stored: number;
+  /** Unchanged prices whose last_confirmed_at was bumped */
+  props_confirmed: number;
+  rejections: PropRejection[];
+}
+
+export interface SportFetchResult {
+  sport: Sport;
+  cached: boolean;
+  gamesProcessed: number;
+  propsStored: number;
+  /** Events left out to stay within the credit budget */
+  eventsSkipped: number;
+  /** Listed events already underway, which are never fetched */
+  eventsStarted: number;
+  /** Planned cost of this sport's events, before any were fetched */
+  creditsEstimated: number;
+  creditsSpent: number;
+  events: EventIngestionReport[];
+  nextRefreshIn?: number;
+  error?: string;
+}
+
+/**
+ * A row of the ingestion_runs table. The worker inserts it when a run
+ * starts, updates the event counts as events complete, and fills in the
+ * per-sport and per-event reports (stored as JSON) when it finishes.
+ */
+export interface IngestionRun {
+  id?: string;
+  status: 'running' | 'finished';
+  started_at: string;
+  finished_at: string | null;
+  /** Events planned for this run and how many have completed */
+  events_total: number;
+  events_completed: number;
+  sports: SportFetchResult[];
+  games_processed: number;
+  props_stored: number;
+  events_failed: number;
+  /** Credits the run planned to spend, estimated before fetching */
+  credits_estimated: number;
+  /** Credits this run spent, counted against the daily cap. Kept
+   * current as events complete, so a run that dies mid-way still counts */
+  credits_spent: number;
+  /** x-requests-used / x-requests-remaining after the run */
+  credits_used: number | null;
+  credits_remaining: number | null;
+  error: string | null;
+}
+
+/**
+ * A row of the player_game_logs table: one stat for one player-game.
+ * Unique on (player_id, game_date, stat_type).
+ */
+export interface PlayerGameLog {
+  id?: string;
+  player_id: string;
+  player_name: string;
+  sport: string;
+  season?: string | null;
+  game_date: string;
+  team?: string | null;
+  opponent: string;
+  is_home: boolean;
+  stat_type: string;
+  value: number;
+}
+
+export type PropOutcome = 'Over' | 'Under' | 'Push';
+
+/**
+ * A row of the prop_results table: one book's last pre-game price for a
+ * prop, graded against the final stat line.
+ * Unique on (player_id, stat_type, game_date, sportsbook).
+ */
+export interface GradedProp {
+  id?: string;
+  player_id: string;
+  player_name: string;
+  sport: string;
+  stat_type: string;
+  game_date: string;
+  sportsbook: string;
+  line: number;
+  over_odds: number;
+  under_odds: number;
+  actual_value: number;
+  outcome: PropOutcome;
+  graded_at: string;
+}
+
+/**
+ * A row of the ev_opportunities table: the first price at which we
+ * surfaced a +EV side. Unique on
+ * (player_id, stat_type, game_date, sportsbook, direction, line).
+ */
+export interface SurfacedOpportunity {
+  id?: string;
+  player_id: string;
+  player_name: string;
+  sport: string;
+  stat_type: string;
+  game_date: string;
+  sportsbook: string;
+  direction: 'Over' | 'Under';
+  line: number;
+  odds: number;
+  true_prob: number;
+  ev_pct: number;
+  surfaced_at: string;
+}
+
+/**
+ * Where a CLV entry came from: a +EV side the scanner surfaced, or a leg
+ * of a logged bet
+ */
+export type ClvSource = 'surfaced' | 'bet';
+
+export interface ClvEntry extends SurfacedOpportunity {
+  source: ClvSource;
+  clv: ClvResult;
+}
+
+export type BetStatus = 'open' | 'won' | 'lost' | 'push' | 'void';
+
+export interface BetLeg {
+  player_id: string;
+  player_name: string;
+  sport: string;
+  stat_type: string;
+  game_date: string;
+  direction: 'Over' | 'Under';
+  line: number;
+  odds: number;
+  true_prob: number;
+}
+
+/**
+ * A row of the bets table (legs stored as JSON). Bets logged while the
+ * table is unreachable are kept in local storage until they sync.
+ */
+export interface Bet {
+  id: string;
+  kind: 'straight' | 'parlay';
+  sportsbook: string;
+  /** American odds taken; combined odds for parlays */
+  odds: number;
+  /** A parlay's exact combined payout; `odds` is rounded to a whole American price */
+  decimal_odds?: number | null;
+  stake: number;
+  /** EV% and win probability we saw when the bet was placed */
+  ev_pct: number;
+  true_prob: number;
+  /** Chance a straight bet's whole-number line pushes; pushes refund the stake */
+  push_prob?: number | null;
+  legs: BetLeg[];
+  status: BetStatus;
+  profit: number | null;
+  placed_at: string;
+  settled_at: string | null;
+}
+
 export interface EVCalculation {
   id: string;
   prop_id: string;
@@ -64,9 +283,30 @@ export interface EVCalculation {
   true_prob: number;
   edge_pct: number;
   ev_pct: number;
+  push_prob: number;
   confidence_score: number;
   direction: 'Over' | 'Under';
-  all_odds: OddsSnapshot[];
+  /** Every book's current snapshot for the prop, across lines */
+  all_odds: OddsSnapshotRow[];
+  consensus_books: ConsensusContribution[];
+  consensus_sample_size: number;
+  thin_consensus: boolean;
+}
+
+export interface PriceAlternative {
+  sportsbook: Sportsbook;
+  line: number;
+  odds: number;
+  edge_pct: number;
+  ev_pct: number;
+}
+
+/**
+ * Line-shopping output: one row per prop and side at the best available
+ * price, with every other book's price for that side as an alternative
+ */
+export interface BestPriceCalculation extends EVCalculation {
+  alternatives: PriceAlternative[];
 }
 
 export interface ParlayLeg {
@@ -87,6 +327,11 @@ export interface DashboardFilters {
   statType: StatType | 'All';
   minEV: number;
   search: string;
+  devigMethod: DevigMethod;
+  consensusWeighting: ConsensusWeighting;
+  leaveOneOut: boolean;
+  lineShopping: boolean;
+  empiricalConfidence: boolean;
   sortBy: keyof EVCalculation | 'player_name';
   sortDir: 'asc' | 'desc';
 }
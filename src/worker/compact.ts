@@ -0,0 +1,80 @@
+/**
+ * Snapshot Compaction
+ *
+ * Collapses duplicate odds_snapshots history left over from before
+ * change-only storage. Safe to re-run.
+ *
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+ *     npm run compact-snapshots -- [--sport NBA] [--dry-run]
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { compactSnapshots } from "@/pages/api/compact-snapshots";
+import { SPORT_CONFIGS } from "@/lib/sportsConfig";
+import { SupabaseOddsRepository } from "@/services/oddsRepository";
+import type { Sport } from "@/types";
+
+const USAGE = 'Usage: npm run compact-snapshots -- [--sport NBA] [--dry-run]';
+
+interface CompactArgs {
+  sport?: Sport;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CompactArgs {
+  const args: CompactArgs = { dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+
+    if (argv[i] === '--sport') {
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for --sport\n${USAGE}`);
+      }
+      if (!(value in SPORT_CONFIGS)) {
+        throw new Error(`Unknown sport: ${value}\n${USAGE}`);
+      }
+      args.sport = value as Sport;
+      i++;
+    } else if (argv[i] === '--dry-run') {
+      args.dryRun = true;
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}\n${USAGE}`);
+    }
+  }
+
+  return args;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+}
+
+async function main() {
+  const { sport, dryRun } = parseArgs(process.argv.slice(2));
+
+  const repository = new SupabaseOddsRepository(
+    createClient(
+      requireEnv('SUPABASE_URL'),
+      requireEnv('SUPABASE_SERVICE_ROLE_KEY'),
+      { auth: { persistSession: false } }
+    )
+  );
+
+  const result = await compactSnapshots({ repository, sport, dryRun });
+
+  console.log(
+    `${dryRun ? '[dry run] ' : ''}Scanned ${result.scanned} snapshots: ` +
+      `${result.deleted} duplicates ${dryRun ? 'to delete' : 'deleted'}, ` +
+      `${result.updated} rows ${dryRun ? 'to update' : 'updated'}`
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
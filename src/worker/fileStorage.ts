@@ -0,0 +1,50 @@
+/**
+ * Keeps the local backend's tables in a JSON file, so the worker can
+ * ingest without Supabase and the dashboard can load what it stored
+ * (VITE_DATA_BACKEND=local reads it from /local-odds.json).
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  localRunsPath,
+  type LocalOddsData,
+  type LocalOddsStorage,
+} from "@/services/localOddsRepository";
+import type { IngestionRun } from "@/types";
+
+/** Served by the Vite dev server at /local-odds.json */
+export const DEFAULT_LOCAL_DATA_FILE = 'public/local-odds.json';
+
+/** Written to a temp file first so the dashboard never reads half a file */
+async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(`${path}.tmp`, JSON.stringify(value));
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * The ingestion runs also go to a small file of their own, which the
+ * dashboard polls while a run is in progress
+ */
+export function jsonFileStorage(path: string): LocalOddsStorage {
+  const runsPath = localRunsPath(path);
+
+  return {
+    async load() {
+      if (!existsSync(path)) return null;
+      return JSON.parse(await readFile(path, 'utf8')) as LocalOddsData;
+    },
+
+    async save(data) {
+      await writeJsonFile(path, data);
+      await writeJsonFile(runsPath, data.ingestion_runs);
+    },
+
+    async loadRuns() {
+      if (!existsSync(runsPath)) return null;
+      return JSON.parse(await readFile(runsPath, 'utf8')) as IngestionRun[];
+    },
+  };
+}
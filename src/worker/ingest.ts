@@ -0,0 +1,285 @@
+/**
+ * Odds Ingestion Worker
+ *
+ * Pulls player props from The Odds API and writes snapshots to Supabase,
+ * once or every --interval minutes, spending at most --daily-cap credits
+ * per UTC day. After each fetch it records the +EV sides the stored
+ * prices surface, so CLV is tracked whether or not anyone has the
+ * dashboard open. The Odds API key and the Supabase service-role key
+ * only live in this process's environment; the browser just reads what
+ * the worker stores.
+ *
+ *   ODDS_API_KEY=... SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+ *     npm run ingest -- [--sport NBA,NFL] [--interval 15] [--daily-cap 500] \
+ *       [--concurrency 4] [--rate 5]
+ *
+ * --results <file> instead imports a box-score file (CSV or JSON) as
+ * game logs, grades the props priced for those games, and exits:
+ *
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+ *     npm run ingest -- --results box-scores.csv [--sport NBA]
+ *
+ * Set ODDS_API_BASE_URL to run against the local stand-in (standIn.ts).
+ *
+ * --backend local writes to a JSON file (--data, public/local-odds.json
+ * by default) instead of Supabase, which a dashboard started with
+ * VITE_DATA_BACKEND=local loads, so the whole app runs offline:
+ *
+ *   ODDS_API_BASE_URL=http://127.0.0.1:4010/v4 ODDS_API_KEY=dev \
+ *     npm run ingest -- --backend local
+ */
+
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import { abandonRunningRun, fetchOdds } from "@/pages/api/fetch-odds";
+import { parseGameLogFile } from "@/lib/gameLogImporter";
+import { SPORT_CONFIGS } from "@/lib/sportsConfig";
+import { clvService } from "@/services/clvService";
+import { evService } from "@/services/evService";
+import { gameLogService } from "@/services/gameLogService";
+import { LocalOddsRepository } from "@/services/localOddsRepository";
+import {
+  resolveDataBackend,
+  setOddsRepository,
+  SupabaseOddsRepository,
+  type DataBackend,
+  type OddsRepository,
+} from "@/services/oddsRepository";
+import { FileResultsProvider } from "@/services/resultsProviders";
+import { resultsService } from "@/services/resultsService";
+import { DEFAULT_LOCAL_DATA_FILE, jsonFileStorage } from "@/worker/fileStorage";
+import type { EVCalculation, Sport } from "@/types";
+
+const USAGE =
+  'Usage: npm run ingest -- [--sport NBA,NFL] [--interval MINUTES] [--daily-cap CREDITS] ' +
+  '[--concurrency N] [--rate PER_SECOND] [--results FILE] [--backend supabase|local] [--data FILE]';
+
+const FLAGS = [
+  '--sport',
+  '--interval',
+  '--daily-cap',
+  '--concurrency',
+  '--rate',
+  '--results',
+  '--backend',
+  '--data',
+];
+
+interface WorkerArgs {
+  sports?: Sport[];
+  intervalMinutes?: number;
+  dailyCreditCap?: number;
+  concurrency?: number;
+  requestsPerSecond?: number;
+  resultsFile?: string;
+  backend?: DataBackend;
+  dataFile?: string;
+}
+
+function parseArgs(argv: string[]): WorkerArgs {
+  const args: WorkerArgs = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+
+    if (FLAGS.includes(argv[i]) && (value === undefined || value.startsWith('--'))) {
+      throw new Error(`Missing value for ${argv[i]}\n${USAGE}`);
+    }
+
+    if (argv[i] === '--sport') {
+      args.sports = value.split(',').map((sport) => {
+        if (!(sport in SPORT_CONFIGS)) {
+          throw new Error(`Unknown sport: ${sport}`);
+        }
+        return sport as Sport;
+      });
+      i++;
+    } else if (argv[i] === '--interval') {
+      args.intervalMinutes = Number(value);
+      if (!(args.intervalMinutes > 0)) {
+        throw new Error(`Invalid interval: ${value}`);
+      }
+      i++;
+    } else if (argv[i] === '--daily-cap') {
+      args.dailyCreditCap = Number(value);
+      if (!(args.dailyCreditCap >= 0)) {
+        throw new Error(`Invalid daily cap: ${value}`);
+      }
+      i++;
+    } else if (argv[i] === '--concurrency') {
+      args.concurrency = Number(value);
+      if (!Number.isInteger(args.concurrency) || args.concurrency < 1) {
+        throw new Error(`Invalid concurrency: ${value}`);
+      }
+      i++;
+    } else if (argv[i] === '--rate') {
+      args.requestsPerSecond = Number(value);
+      if (!(args.requestsPerSecond > 0)) {
+        throw new Error(`Invalid rate: ${value}`);
+      }
+      i++;
+    } else if (argv[i] === '--results') {
+      args.resultsFile = value;
+      i++;
+    } else if (argv[i] === '--backend') {
+      args.backend = resolveDataBackend(value);
+      i++;
+    } else if (argv[i] === '--data') {
+      args.dataFile = value;
+      i++;
+    }
+  }
+
+  return args;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Box scores double as game logs and as final results for props we priced
+ */
+async function importResults(file: string, sports?: Sport[]): Promise<void> {
+  const text = await readFile(file, 'utf8');
+  const defaults = { sport: sports?.length === 1 ? sports[0] : undefined };
+  const { logs, errors } = parseGameLogFile(basename(file), text, defaults);
+
+  const imported = await gameLogService.importGameLogs(logs);
+  const { graded } = await resultsService.gradeProps(
+    new FileResultsProvider(basename(file), text, defaults)
+  );
+
+  console.log(
+    `Imported ${imported} stat lines, graded ${graded} props` +
+      (errors.length > 0 ? `, skipped ${errors.length} rows` : '')
+  );
+}
+
+/**
+ * Record the +EV sides the stored prices surface, for CLV tracking
+ */
+async function recordOpportunities(sports?: Sport[]): Promise<void> {
+  const evs: EVCalculation[] = [];
+
+  for (const sport of sports ?? [undefined]) {
+    evs.push(...(await evService.calculateAllEVs({ sport })));
+  }
+
+  await clvService.recordOpportunities(evs);
+  console.log(`  Recorded ${evs.filter((ev) => ev.ev_pct > 0).length} +EV sides`);
+}
+
+async function main() {
+  const {
+    sports,
+    intervalMinutes,
+    dailyCreditCap,
+    concurrency,
+    requestsPerSecond,
+    resultsFile,
+    backend,
+    dataFile,
+  } = parseArgs(process.argv.slice(2));
+
+  const repository: OddsRepository =
+    backend === 'local'
+      ? new LocalOddsRepository(jsonFileStorage(dataFile ?? DEFAULT_LOCAL_DATA_FILE))
+      : new SupabaseOddsRepository(
+          createClient(
+            requireEnv('SUPABASE_URL'),
+            requireEnv('SUPABASE_SERVICE_ROLE_KEY'),
+            { auth: { persistSession: false } }
+          )
+        );
+  // The services below read and write through the same repository
+  setOddsRepository(repository);
+
+  if (resultsFile) {
+    await importResults(resultsFile, sports);
+    return;
+  }
+
+  // A run cut off by Ctrl-C or a deploy is closed out rather than left running
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      console.log(`Received ${signal}, closing out the current run`);
+      abandonRunningRun(repository, `Worker stopped (${signal}) before the run finished`)
+        .catch((error) => console.error(error instanceof Error ? error.message : error))
+        .finally(() => process.exit(signal === 'SIGINT' ? 130 : 143));
+    });
+  }
+
+  const apiKey = requireEnv('ODDS_API_KEY');
+  const baseUrl = process.env.ODDS_API_BASE_URL || undefined;
+
+  for (;;) {
+    const result = await fetchOdds({
+      apiKey,
+      baseUrl,
+      repository,
+      sports,
+      dailyCreditCap,
+      concurrency,
+      requestsPerSecond,
+      onPlan: ({ events, deferred, started, estimatedCredits }) =>
+        console.log(
+          `  Fetching ${events} games (~${estimatedCredits} credits), ${deferred} deferred, ${started} already started`
+        ),
+      onProgress: ({ completed, total, event }) =>
+        console.log(`  ${completed}/${total} games · ${event.matchup ?? event.event_id}: ${event.status}`),
+    });
+
+    console.log(
+      `[${new Date().toISOString()}] ${result.message}`,
+      result.success ? '' : result.error
+    );
+    for (const sport of result.sports) {
+      console.log(
+        `  ${sport.sport}: ${
+          sport.error ??
+          (sport.cached
+            ? `cached (${sport.nextRefreshIn} min)`
+            : `${sport.propsStored} props from ${sport.gamesProcessed} games, ` +
+              `${sport.creditsSpent}/${sport.creditsEstimated} credits spent/estimated, ` +
+              `${sport.eventsSkipped} events deferred, ${sport.eventsStarted} already started`)
+        }`
+      );
+
+      for (const event of sport.events) {
+        if (event.status !== 'failed' && event.rejections.length === 0) continue;
+
+        console.log(
+          `    ${event.matchup ?? event.event_id}: ${event.status}` +
+            (event.error
+              ? ` (${event.error}, ${event.attempts} attempts, ${event.store_retries} store retries)`
+              : '') +
+            (event.rejections.length > 0 ? `, ${event.rejections.length} props rejected` : '')
+        );
+      }
+    }
+
+    try {
+      await recordOpportunities(sports);
+    } catch (error) {
+      console.error('  Error recording opportunities:', error instanceof Error ? error.message : error);
+    }
+
+    if (!intervalMinutes) {
+      process.exitCode = result.success ? 0 : 1;
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMinutes * 60 * 1000));
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,253 @@
+/**
+ * Odds API Stand-In
+ *
+ * A local HTTP server that mimics The Odds API event endpoints from
+ * recorded JSON fixtures, so the ingestion pipeline can run in dev and
+ * tests without spending live credits. It enforces an API key, bills
+ * event odds requests one credit per returned market per region, and
+ * sends the same quota headers the real API does. Faults can be
+ * injected per event to exercise retries.
+ *
+ * Fixtures live in one directory per sport key:
+ *
+ *   <dir>/<sport_key>/events.json
+ *   <dir>/<sport_key>/odds/<event_id>.json
+ *
+ * Recorded games are moved forward on load so the first one tips off a
+ * few hours from now, keeping their spacing, so the fixtures never age
+ * into games the worker has to skip.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import { join } from "node:path";
+import type { TheOddsApiRawProp } from "@/lib/oddsNormalizer";
+import { getSportByKey } from "@/lib/sportsConfig";
+
+export const DEFAULT_STAND_IN_QUOTA = 500;
+
+/** How far ahead of load time the earliest recorded game starts */
+export const FIXTURE_LEAD_HOURS = 6;
+
+export interface SportFixtures {
+  events: Array<{ id: string; commence_time: string }>;
+  /** Event id -> recorded event odds response */
+  odds: Record<string, TheOddsApiRawProp>;
+}
+
+/** Sport key -> fixtures */
+export type OddsApiFixtures = Record<string, SportFixtures>;
+
+export interface StandInOptions {
+  fixtures: OddsApiFixtures;
+  /** Accepted API key; any non-empty key when omitted */
+  apiKey?: string;
+  /** Credits available before requests are refused */
+  quota?: number;
+  /** Fail the first `times` odds requests for an event with `status` */
+  faults?: StandInFault[];
+}
+
+export interface StandInFault {
+  eventId: string;
+  status: number;
+  times: number;
+  /** Sent as Retry-After on 429s */
+  retryAfterSeconds?: number;
+}
+
+export interface StandInResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface OddsApiStandIn {
+  server: Server;
+  /** Base URL to hand to fetchOdds, e.g. http://127.0.0.1:4010/v4 */
+  baseUrl: string;
+  used(): number;
+  close(): Promise<void>;
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+/**
+ * Load recorded fixtures from disk, with every game shifted so the
+ * earliest starts FIXTURE_LEAD_HOURS after `now`
+ */
+export function loadFixtures(dir: string, now: Date = new Date()): OddsApiFixtures {
+  const fixtures: OddsApiFixtures = {};
+
+  for (const sportKey of readdirSync(dir)) {
+    const eventsPath = join(dir, sportKey, 'events.json');
+    if (!existsSync(eventsPath)) continue;
+
+    const oddsDir = join(dir, sportKey, 'odds');
+    const odds: Record<string, TheOddsApiRawProp> = {};
+
+    if (existsSync(oddsDir)) {
+      for (const file of readdirSync(oddsDir)) {
+        if (!file.endsWith('.json')) continue;
+        odds[file.replace(/\.json$/, '')] = readJson(join(oddsDir, file));
+      }
+    }
+
+    fixtures[sportKey] = { events: readJson(eventsPath), odds };
+  }
+
+  return shiftFixtures(fixtures, now);
+}
+
+function shiftFixtures(fixtures: OddsApiFixtures, now: Date): OddsApiFixtures {
+  const starts = Object.values(fixtures).flatMap((sport) =>
+    sport.events.map((event) => Date.parse(event.commence_time))
+  );
+  if (starts.length === 0) return fixtures;
+
+  const offset = now.getTime() + FIXTURE_LEAD_HOURS * 60 * 60 * 1000 - Math.min(...starts);
+  const shift = <T extends { commence_time?: string }>(event: T): T =>
+    event.commence_time
+      ? { ...event, commence_time: new Date(Date.parse(event.commence_time) + offset).toISOString() }
+      : event;
+
+  return Object.fromEntries(
+    Object.entries(fixtures).map(([sportKey, sport]) => [
+      sportKey,
+      {
+        events: sport.events.map(shift),
+        odds: Object.fromEntries(
+          Object.entries(sport.odds).map(([eventId, odds]) => [eventId, shift(odds)])
+        ),
+      },
+    ])
+  );
+}
+
+/**
+ * Request handler with its own quota, independent of any HTTP server
+ */
+export function createStandInHandler(options: StandInOptions) {
+  const quota = options.quota ?? DEFAULT_STAND_IN_QUOTA;
+  const faults = (options.faults || []).map((fault) => ({ ...fault }));
+  let used = 0;
+
+  function respond(status: number, body: unknown, last = 0): StandInResponse {
+    return {
+      status,
+      headers: {
+        'content-type': 'application/json',
+        'x-requests-used': String(used),
+        'x-requests-remaining': String(Math.max(0, quota - used)),
+        'x-requests-last': String(last),
+      },
+      body,
+    };
+  }
+
+  function handle(url: URL): StandInResponse {
+    const apiKey = url.searchParams.get('apiKey');
+
+    if (!apiKey || (options.apiKey && apiKey !== options.apiKey)) {
+      return respond(401, { message: 'API key is not valid', error_code: 'INVALID_KEY' });
+    }
+
+    const match = url.pathname.match(/\/v4\/sports\/([^/]+)\/events(?:\/([^/]+)\/odds)?\/?$/);
+    if (!match || (!options.fixtures[match[1]] && !getSportByKey(match[1]))) {
+      return respond(404, { message: 'Unknown sport', error_code: 'UNKNOWN_SPORT' });
+    }
+
+    // A sport with nothing recorded lists no events, like the real API out of season
+    const sport = options.fixtures[match[1]] ?? { events: [], odds: {} };
+
+    const eventId = match[2];
+
+    // Event listings are free
+    if (!eventId) {
+      return respond(200, sport.events);
+    }
+
+    const fault = faults.find((f) => f.eventId === eventId && f.times > 0);
+    if (fault) {
+      fault.times--;
+      const response = respond(fault.status, { message: 'Injected fault', error_code: 'FAULT' });
+      if (fault.retryAfterSeconds !== undefined) {
+        response.headers['retry-after'] = String(fault.retryAfterSeconds);
+      }
+      return response;
+    }
+
+    const recorded = sport.odds[eventId];
+    if (!recorded) {
+      return respond(404, { message: 'Event not found', error_code: 'EVENT_NOT_FOUND' });
+    }
+
+    const markets = url.searchParams.get('markets')?.split(',');
+    const bookmakers = url.searchParams.get('bookmakers')?.split(',');
+    const regions = (url.searchParams.get('regions') ?? 'us').split(',').length;
+
+    const filtered: TheOddsApiRawProp = {
+      ...recorded,
+      bookmakers: (recorded.bookmakers || [])
+        .filter((bookmaker) => !bookmakers || bookmakers.includes(bookmaker.key ?? ''))
+        .map((bookmaker) => ({
+          ...bookmaker,
+          markets: (bookmaker.markets || []).filter(
+            (market) => !markets || markets.includes(market.key ?? '')
+          ),
+        }))
+        .filter((bookmaker) => bookmaker.markets.length > 0),
+    };
+
+    const returnedMarkets = new Set(
+      filtered.bookmakers.flatMap((bookmaker) => bookmaker.markets.map((market) => market.key))
+    );
+    const cost = returnedMarkets.size * regions;
+
+    if (used + cost > quota) {
+      return respond(401, {
+        message: 'Usage quota has been reached',
+        error_code: 'OUT_OF_USAGE_CREDITS',
+      });
+    }
+
+    used += cost;
+    return respond(200, filtered, cost);
+  }
+
+  return { handle, used: () => used };
+}
+
+/**
+ * Serve the fixtures over HTTP. Port 0 picks a free port.
+ */
+export function startOddsApiStandIn(
+  options: StandInOptions,
+  port: number = 0
+): Promise<OddsApiStandIn> {
+  const handler = createStandInHandler(options);
+
+  const server = createServer((req, res) => {
+    const response = handler.handle(new URL(req.url ?? '/', 'http://localhost'));
+    res.writeHead(response.status, response.headers);
+    res.end(JSON.stringify(response.body));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+
+      resolve({
+        server,
+        baseUrl: `http://127.0.0.1:${boundPort}/v4`,
+        used: handler.used,
+        close: () =>
+          new Promise<void>((done, fail) => server.close((error) => (error ? fail(error) : done()))),
+      });
+    });
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * Serve the recorded Odds API fixtures locally, then point the worker at
+ * the stand-in instead of the live API:
+ *
+ *   npm run odds-api:stand-in -- [--port 4010] [--quota 500] [--fixtures <dir>]
+ *   ODDS_API_BASE_URL=http://127.0.0.1:4010/v4 ODDS_API_KEY=dev ... npm run ingest
+ *
+ * The recorded games are rescheduled to start a few hours after the
+ * stand-in starts; restart it to move them forward again.
+ */
+
+import { fileURLToPath } from "node:url";
+import { loadFixtures, startOddsApiStandIn, DEFAULT_STAND_IN_QUOTA } from "@/worker/oddsApiStandIn";
+
+const DEFAULT_PORT = 4010;
+
+function readFlag(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const port = Number(readFlag(argv, '--port') ?? DEFAULT_PORT);
+  const quota = Number(readFlag(argv, '--quota') ?? DEFAULT_STAND_IN_QUOTA);
+  const dir = readFlag(argv, '--fixtures') ?? fileURLToPath(new URL('./fixtures', import.meta.url));
+
+  const fixtures = loadFixtures(dir);
+  const standIn = await startOddsApiStandIn({ fixtures, quota }, port);
+
+  console.log(`Odds API stand-in serving ${Object.keys(fixtures).join(', ')} at ${standIn.baseUrl}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
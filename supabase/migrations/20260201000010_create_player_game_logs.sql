@@ -0,0 +1,25 @@
+-- One stat for one player-game, imported from box scores.
+-- Re-importing the same box score upserts on the unique key.
+create table if not exists public.player_game_logs (
+  id uuid primary key default gen_random_uuid(),
+  player_id text not null,
+  player_name text not null,
+  sport text not null,
+  season text,
+  game_date date not null,
+  team text,
+  opponent text not null,
+  is_home boolean not null,
+  stat_type text not null,
+  value numeric not null,
+  created_at timestamptz not null default now(),
+  unique (player_id, game_date, stat_type)
+);
+
+create index if not exists player_game_logs_player_stat_idx
+  on public.player_game_logs (player_id, stat_type, game_date desc);
+
+alter table public.player_game_logs enable row level security;
+
+create policy "Game logs are readable by everyone"
+  on public.player_game_logs for select using (true);
@@ -0,0 +1,26 @@
+-- One book's last pre-game price for a prop, graded against the final
+-- stat line. Re-grading upserts on the unique key.
+create table if not exists public.prop_results (
+  id uuid primary key default gen_random_uuid(),
+  player_id text not null,
+  player_name text not null,
+  sport text not null,
+  stat_type text not null,
+  game_date timestamptz not null,
+  sportsbook text not null,
+  line numeric not null,
+  over_odds integer not null,
+  under_odds integer not null,
+  actual_value numeric not null,
+  outcome text not null check (outcome in ('Over', 'Under', 'Push')),
+  graded_at timestamptz not null default now(),
+  unique (player_id, stat_type, game_date, sportsbook)
+);
+
+create index if not exists prop_results_game_date_idx
+  on public.prop_results (game_date desc);
+
+alter table public.prop_results enable row level security;
+
+create policy "Graded props are readable by everyone"
+  on public.prop_results for select using (true);
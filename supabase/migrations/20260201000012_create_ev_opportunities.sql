@@ -0,0 +1,34 @@
+-- Set by the pipeline on each book's last pre-game snapshot
+alter table public.odds_snapshots
+  add column if not exists is_closing boolean not null default false;
+
+create index if not exists odds_snapshots_closing_idx
+  on public.odds_snapshots (player_id)
+  where is_closing;
+
+-- The first price at which a +EV side was surfaced. Later sightings of
+-- the same side are ignored on the unique key.
+create table if not exists public.ev_opportunities (
+  id uuid primary key default gen_random_uuid(),
+  player_id text not null,
+  player_name text not null,
+  sport text not null,
+  stat_type text not null,
+  game_date timestamptz not null,
+  sportsbook text not null,
+  direction text not null check (direction in ('Over', 'Under')),
+  line numeric not null,
+  odds integer not null,
+  true_prob numeric not null,
+  ev_pct numeric not null,
+  surfaced_at timestamptz not null default now(),
+  unique (player_id, stat_type, game_date, sportsbook, direction, line)
+);
+
+create index if not exists ev_opportunities_game_date_idx
+  on public.ev_opportunities (game_date desc);
+
+alter table public.ev_opportunities enable row level security;
+
+create policy "Surfaced opportunities are readable by everyone"
+  on public.ev_opportunities for select using (true);
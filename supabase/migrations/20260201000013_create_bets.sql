@@ -0,0 +1,35 @@
+-- The personal bet ledger. Legs are stored as JSON; the browser signs in
+-- (anonymously when it has no account) and can only see and change its own
+-- user's bets.
+create table if not exists public.bets (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('straight', 'parlay')),
+  sportsbook text not null,
+  odds integer not null,
+  decimal_odds numeric,
+  stake numeric not null check (stake > 0),
+  ev_pct numeric not null,
+  true_prob numeric not null,
+  push_prob numeric,
+  legs jsonb not null,
+  status text not null default 'open'
+    check (status in ('open', 'won', 'lost', 'push', 'void')),
+  profit numeric,
+  placed_at timestamptz not null default now(),
+  settled_at timestamptz
+);
+
+create index if not exists bets_user_placed_at_idx on public.bets (user_id, placed_at desc);
+
+alter table public.bets enable row level security;
+
+create policy "Bets are readable by their owner"
+  on public.bets for select to authenticated using (user_id = auth.uid());
+
+create policy "Bets can be logged by their owner"
+  on public.bets for insert to authenticated with check (user_id = auth.uid());
+
+create policy "Bets can be settled by their owner"
+  on public.bets for update to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,4 @@
+-- Theoretical hold of the two-way market, in percent. Rows written
+-- before this column existed are left null and computed from the prices.
+alter table public.odds_snapshots
+  add column if not exists hold_pct numeric;
@@ -0,0 +1,21 @@
+-- One row per ingestion worker run. Per-sport and per-event reports are
+-- stored as JSON. The worker writes with the service-role key; the
+-- browser only reads.
+create table if not exists public.ingestion_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  sports jsonb not null default '[]'::jsonb,
+  games_processed integer not null default 0,
+  props_stored integer not null default 0,
+  credits_remaining integer,
+  error text
+);
+
+create index if not exists ingestion_runs_started_at_idx
+  on public.ingestion_runs (started_at desc);
+
+alter table public.ingestion_runs enable row level security;
+
+create policy "Ingestion runs are readable by everyone"
+  on public.ingestion_runs for select using (true);
@@ -0,0 +1,7 @@
+-- Credit accounting for the daily cap. credits_spent is summed over the
+-- day's runs and kept current while a run is in progress; credits_used
+-- mirrors the Odds API's x-requests-used header after the run.
+alter table public.ingestion_runs
+  add column if not exists credits_estimated integer not null default 0,
+  add column if not exists credits_spent integer not null default 0,
+  add column if not exists credits_used integer;
@@ -0,0 +1,4 @@
+-- Events that still failed after retries, so a partial run is visible
+-- without opening the per-event report.
+alter table public.ingestion_runs
+  add column if not exists events_failed integer not null default 0;
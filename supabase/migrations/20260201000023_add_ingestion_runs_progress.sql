@@ -0,0 +1,9 @@
+-- Live progress for the dashboard. The worker inserts the run as
+-- 'running' before fetching and updates events_completed as each game
+-- finishes; rows older than the abandon window that are still 'running'
+-- were cut off and are shown as finished.
+alter table public.ingestion_runs
+  add column if not exists status text not null default 'finished'
+    check (status in ('running', 'finished')),
+  add column if not exists events_total integer not null default 0,
+  add column if not exists events_completed integer not null default 0;
@@ -0,0 +1,8 @@
+-- When an unchanged price was last seen again. Unchanged prices are not
+-- stored twice; the existing row is confirmed instead. Null means the
+-- price was only seen when the row was written (created_at).
+alter table public.odds_snapshots
+  add column if not exists last_confirmed_at timestamptz;
+
+create index if not exists odds_snapshots_last_confirmed_at_idx
+  on public.odds_snapshots (last_confirmed_at desc);